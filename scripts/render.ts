@@ -0,0 +1,288 @@
+/**
+ * Renderiza trechos .tex sem navegador, com as mesmas regras do preview
+ * (src/lib/preprocess.ts): fórmulas pelo KaTeX (HTML e MathML) e diagramas
+ * pelo TikZJax em Node (node-tikzjax, que traz o TeX e os pacotes).
+ *
+ *   npm run render -- [opções] <arquivos ou globs...>
+ *
+ * Cada fórmula ou diagrama do arquivo vira <nome>-<n>.<formato> na pasta de
+ * saída, na mesma estrutura de pastas da entrada. As falhas vão para um
+ * relatório JSON, e o comando termina com código 1 se houver alguma.
+ */
+
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import fg from "fast-glob";
+import katex from "katex";
+import { dvi2svg, load, tex } from "node-tikzjax";
+import { MacroDefinition, parseMacros } from "../src/lib/macros";
+import { PreparedTikz, documentContext, katexMacros, normalizeLatex, prepareTikz } from "../src/lib/preprocess";
+import { Segment, splitSegments } from "../src/lib/segments";
+import { offsetToLineColumn } from "../src/lib/sourcePosition";
+import { KatexSettings, katexOptions, resolveKatexSettings } from "../src/lib/katexSettings";
+import { TikzPreambleConfig, emptyTikzPreamble } from "../src/lib/tikzPreamble";
+import { TransformPass, transformPasses } from "../src/lib/transforms";
+
+const USAGE = `Uso: npm run render -- [opções] <arquivos ou globs...>
+
+Opções:
+  -o, --out <pasta>      pasta de saída (padrão: rendered)
+  -r, --report <arquivo> relatório JSON das falhas (padrão: <pasta>/report.json)
+  -f, --formats <lista>  formatos das fórmulas: html, mathml, svg (padrão: todos)
+  -m, --macros <arquivo> biblioteca de macros (\\newcommand), como a exportada pelo app
+  -k, --katex <arquivo>  opções do KaTeX em JSON (output, leqno, fleqn, strict, trust, maxExpand)
+      --no-transforms    não aplica as correções do TikZ (vírgulas, unicode...)
+  -h, --help             mostra esta ajuda`;
+
+type MathFormat = "html" | "mathml" | "svg";
+
+const MATH_FORMATS: MathFormat[] = ["html", "mathml", "svg"];
+
+const EXTENSIONS: Record<MathFormat, string> = { html: "html", mathml: "mml", svg: "svg" };
+
+interface Failure {
+  file: string;
+  /** Número do trecho no arquivo (1, 2...) */
+  segment: number;
+  kind: Segment["kind"];
+  format: MathFormat;
+  line: number;
+  column: number;
+  message: string;
+  /** Linhas do log do TeX, nos diagramas */
+  log?: string[];
+}
+
+interface Report {
+  files: number;
+  segments: number;
+  outputs: string[];
+  failures: Failure[];
+}
+
+interface RenderOptions {
+  macros: MacroDefinition[];
+  transforms: TransformPass[];
+  formats: MathFormat[];
+  katex: KatexSettings;
+}
+
+/** Erro de compilação do TeX, com as linhas do log que o explicam */
+class TexError extends Error {
+  constructor(
+    message: string,
+    readonly log: string[]
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Compila um tikzpicture. O TeX escreve o log no console (showConsole), que é
+ * capturado como no iframe do preview; os erros começam com "! ".
+ */
+async function compileTikz({ texCode, config, texPreamble }: PreparedTikz): Promise<string> {
+  const log: string[] = [];
+  const original = console.log;
+  console.log = (...args: unknown[]) => log.push(...args.map(String).join(" ").split("\n").filter((l) => l.trim()));
+
+  try {
+    const dvi = await tex(`\\begin{document}\n${texCode}\n\\end{document}\n`, {
+      showConsole: true,
+      tikzLibraries: config.libraries.join(","),
+      texPackages: config.packages,
+      addToPreamble: texPreamble,
+    });
+    return await dvi2svg(dvi, { embedFontCss: true });
+  } catch (err) {
+    const errorStart = log.findIndex((l) => l.startsWith("! "));
+    const lines = errorStart >= 0 ? log.slice(errorStart, errorStart + 12) : log.slice(-20);
+    throw new TexError(errorStart >= 0 ? log[errorStart].slice(2) : String(err), lines);
+  } finally {
+    console.log = original;
+  }
+}
+
+// Ambientes de display viram os equivalentes que cabem numa fórmula ($...$)
+const INNER_ENVIRONMENTS: Record<string, string> = {
+  equation: "",
+  align: "aligned",
+  gather: "gathered",
+  multline: "gathered",
+};
+
+/** A fórmula como um nó de TikZ, para o TeX gerar o SVG */
+function mathAsTikz(math: string, displayMode: boolean): string {
+  const match = /^\\begin\{(\w+)\*?\}([\s\S]*)\\end\{\1\*?\}$/.exec(math);
+  const inner = match ? INNER_ENVIRONMENTS[match[1]] : undefined;
+  let body = math;
+  if (match && inner !== undefined) {
+    body = inner ? `\\begin{${inner}}${match[2]}\\end{${inner}}` : match[2];
+  }
+
+  return [
+    "\\begin{tikzpicture}",
+    `\\node[inner sep=0pt] {$${displayMode ? "\\displaystyle " : ""}${body.trim()}$};`,
+    "\\end{tikzpicture}",
+  ].join("\n");
+}
+
+const mathPreamble: TikzPreambleConfig = { ...emptyTikzPreamble, packages: { amsmath: "", amssymb: "" } };
+
+async function renderFile(file: string, outDir: string, options: RenderOptions, report: Report) {
+  const source = await readFile(file, "utf8");
+  const context = documentContext(source, options.macros);
+
+  // Saída com a mesma estrutura de pastas (arquivos de fora do diretório atual vão para a raiz)
+  const relative = path.relative(process.cwd(), file);
+  const base = path.join(
+    outDir,
+    relative.startsWith("..") || path.isAbsolute(relative) ? path.basename(file) : relative
+  ).replace(/\.[^./\\]+$/, "");
+
+  const segments = splitSegments(source).filter((s) => s.kind !== "text" && s.content.trim());
+  report.files++;
+  report.segments += segments.length;
+
+  const write = async (index: number, extension: string, content: string) => {
+    const name = `${base}-${index}.${extension}`;
+    await mkdir(path.dirname(name), { recursive: true });
+    await writeFile(name, content);
+    report.outputs.push(name);
+  };
+
+  for (const [i, segment] of segments.entries()) {
+    const index = i + 1;
+    const fail = (format: MathFormat, offset: number, message: string, log?: string[]) => {
+      const { line, column } = offsetToLineColumn(source, offset);
+      report.failures.push({ file, segment: index, kind: segment.kind, format, line, column, message, log });
+    };
+    const failCompile = (offset: number, err: unknown) =>
+      err instanceof TexError ? fail("svg", offset, err.message, err.log) : fail("svg", offset, String(err));
+
+    if (segment.kind === "tikz") {
+      const prepared = prepareTikz(segment.content, {
+        transforms: options.transforms,
+        preamble: context.preamble,
+        macros: context.macros,
+      });
+      if (prepared.unmapped.length) {
+        fail("svg", segment.contentStart, `Caracteres sem equivalente em LaTeX: ${prepared.unmapped.join(" ")}`);
+        continue;
+      }
+      try {
+        await write(index, "svg", await compileTikz(prepared));
+      } catch (err) {
+        failCompile(segment.contentStart, err);
+      }
+      continue;
+    }
+
+    const normalized = normalizeLatex(segment.content);
+    const { math, offset } = normalized;
+    const displayMode = normalized.displayMode ?? segment.kind === "display-math";
+    const start = segment.contentStart + offset;
+
+    for (const format of options.formats) {
+      if (format === "svg") {
+        const prepared = prepareTikz(mathAsTikz(math, displayMode), {
+          transforms: options.transforms,
+          preamble: mathPreamble,
+          macros: context.macros,
+        });
+        try {
+          await write(index, "svg", await compileTikz(prepared));
+        } catch (err) {
+          failCompile(start, err);
+        }
+        continue;
+      }
+
+      try {
+        const output = katex.renderToString(math, {
+          ...katexOptions(options.katex, displayMode),
+          throwOnError: true,
+          output: format,
+          macros: katexMacros(math, context.macros),
+        });
+        await write(index, EXTENSIONS[format], output);
+      } catch (err) {
+        if (err instanceof katex.ParseError) {
+          const { position, rawMessage } = err as katex.ParseError & { rawMessage?: string };
+          fail(format, start + (position ?? 0), rawMessage ?? err.message);
+        } else {
+          fail(format, start, String(err));
+        }
+      }
+    }
+  }
+}
+
+async function main() {
+  // O npm run executa na raiz do projeto; os caminhos são relativos a quem chamou
+  if (process.env.INIT_CWD) process.chdir(process.env.INIT_CWD);
+
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      out: { type: "string", short: "o", default: "rendered" },
+      report: { type: "string", short: "r" },
+      formats: { type: "string", short: "f", default: MATH_FORMATS.join(",") },
+      macros: { type: "string", short: "m" },
+      katex: { type: "string", short: "k" },
+      "no-transforms": { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  if (values.help || !positionals.length) {
+    console.log(USAGE);
+    process.exit(values.help ? 0 : 2);
+  }
+
+  const formats = values.formats.split(",").map((f) => f.trim()) as MathFormat[];
+  const unknown = formats.filter((f) => !MATH_FORMATS.includes(f));
+  if (unknown.length) {
+    console.error(`Formato desconhecido: ${unknown.join(", ")}`);
+    process.exit(2);
+  }
+
+  const files = await fg(positionals, { onlyFiles: true, unique: true });
+  if (!files.length) {
+    console.error("Nenhum arquivo encontrado.");
+    process.exit(2);
+  }
+
+  const options: RenderOptions = {
+    macros: values.macros ? parseMacros(await readFile(values.macros, "utf8")).macros : [],
+    transforms: values["no-transforms"] ? [] : transformPasses,
+    formats,
+    katex: resolveKatexSettings(values.katex ? JSON.parse(await readFile(values.katex, "utf8")) : undefined),
+  };
+
+  // Carrega o TeX uma vez; os diagramas compilam um por vez (o node-tikzjax não aceita paralelismo)
+  await load();
+
+  const report: Report = { files: 0, segments: 0, outputs: [], failures: [] };
+  for (const file of files.sort()) {
+    await renderFile(file, values.out, options, report);
+    const failures = report.failures.filter((f) => f.file === file).length;
+    console.log(`${failures ? "✗" : "✓"} ${file}${failures ? ` (${failures} falha${failures > 1 ? "s" : ""})` : ""}`);
+  }
+
+  const reportFile = values.report ?? path.join(values.out, "report.json");
+  await mkdir(path.dirname(reportFile), { recursive: true });
+  await writeFile(reportFile, JSON.stringify(report, null, 2) + "\n");
+
+  console.log(
+    `${report.files} arquivo(s), ${report.segments} trecho(s), ${report.outputs.length} saída(s), ` +
+      `${report.failures.length} falha(s). Relatório: ${reportFile}`
+  );
+  process.exit(report.failures.length ? 1 : 0);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(2);
+});
@@ -1,6 +1,31 @@
-import { useState } from "react";
-import { TikzPreview } from "./components/TikzPreview";
-import { KatexPreview } from "./components/KatexPreview";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { DocumentPreview } from "./components/DocumentPreview";
+import { WorkspaceSidebar } from "./components/WorkspaceSidebar";
+import { LatexEditor, LatexEditorHandle } from "./components/LatexEditor";
+import { MacroPanel } from "./components/MacroPanel";
+import { SplitView } from "./components/SplitView";
+import { TikzPreamblePanel } from "./components/TikzPreamblePanel";
+import { TransformPanel } from "./components/TransformPanel";
+import { KatexSettingsPanel } from "./components/KatexSettingsPanel";
+import { TemplateGallery } from "./components/TemplateGallery";
+import { ProblemsPanel } from "./components/ProblemsPanel";
+import { ClipboardImportDialog } from "./components/ClipboardImportDialog";
+import { useMacroLibrary } from "./hooks/useMacroLibrary";
+import { useWorkspace } from "./hooks/useWorkspace";
+import { useLayout } from "./hooks/useLayout";
+import { useTransformSettings } from "./hooks/useTransformSettings";
+import { tikzViewKeys, useTikzViews } from "./hooks/useTikzViews";
+import { useTemplateLibrary } from "./hooks/useTemplateLibrary";
+import { I18nContext, useLocale } from "./hooks/useI18n";
+import { splitSegments } from "./lib/segments";
+import { SourceRange, TextEdit } from "./lib/sourcePosition";
+import { buildPermalink, clearPermalink, readPermalink } from "./lib/permalink";
+import { mergeMacros, parseMacros } from "./lib/macros";
+import { emptyTikzPreamble, mergePreambles, parseDocumentPreamble } from "./lib/tikzPreamble";
+import { resolveKatexSettings } from "./lib/katexSettings";
+import { lintLatex } from "./lib/latexLint";
+import { ClipboardData, ClipboardImport, convertClipboard, readClipboard } from "./lib/clipboardImport";
+import { LOCALES, Locale } from "./lib/i18n";
 import "./App.css";
 
 const defaultExample = String.raw`
@@ -13,83 +38,288 @@ y &= 2+2
 `;
 
 function App() {
-  const [latexInput, setLatexInput] = useState<string>(defaultExample);
+  // Idioma da interface: o escolhido no seletor ou o do navegador
+  const i18n = useLocale();
+  const { t } = i18n;
 
-  // Detecta se o código contém TikZ
-  const containsTikz = /\\begin\{tikzpicture\}/.test(latexInput);
+  const workspace = useWorkspace(defaultExample, t.workspace);
+  const latexInput = workspace.activeDocument.content;
+  const setLatexInput = workspace.setContent;
+
+  // Macros da biblioteca + \newcommand do próprio documento (que prevalecem)
+  const macroLibrary = useMacroLibrary();
+  const documentMacros = useMemo(() => parseMacros(latexInput), [latexInput]);
+  const macros = useMemo(
+    () => mergeMacros(macroLibrary.macros, documentMacros.macros),
+    [macroLibrary.macros, documentMacros.macros]
+  );
+
+  // Preâmbulo do TikZ: o fixado no documento + \usetikzlibrary/\usepackage/\tikzset do texto
+  const pinnedPreamble = workspace.activeDocument.tikzPreamble ?? emptyTikzPreamble;
+  const documentPreamble = useMemo(() => parseDocumentPreamble(latexInput), [latexInput]);
+  const tikzPreamble = useMemo(
+    () => mergePreambles(pinnedPreamble, documentPreamble.config),
+    [pinnedPreamble, documentPreamble.config]
+  );
+  const hiddenRanges = useMemo(
+    () => [...documentMacros.ranges, ...documentPreamble.ranges],
+    [documentMacros.ranges, documentPreamble.ranges]
+  );
+
+  // Opções do KaTeX do documento (os salvos antes delas ficam com o padrão)
+  const storedKatexSettings = workspace.activeDocument.katexSettings;
+  const katexSettings = useMemo(() => resolveKatexSettings(storedKatexSettings), [storedKatexSettings]);
+
+  // Correções do código dos diagramas (vírgulas, unicode...), ligadas pelo usuário
+  const transforms = useTransformSettings();
+
+  // Trechos do documento (texto, equações e diagramas)
+  const segments = useMemo(() => splitSegments(latexInput), [latexInput]);
+
+  // Zoom e pan dos diagramas do documento, mantidos entre edições e visitas
+  const diagramKeys = useMemo(
+    () => tikzViewKeys(segments.filter((s) => s.kind === "tikz").map((s) => s.content)),
+    [segments]
+  );
+  const tikzViews = useTikzViews(
+    workspace.activeDocument.id,
+    workspace.workspace.documents.map((d) => d.id),
+    diagramKeys
+  );
+
+  // Problemas do código (ambientes, chaves, ";" do TikZ...) antes mesmo de renderizar
+  const diagnostics = useMemo(() => lintLatex(latexInput, macroLibrary.macros), [latexInput, macroLibrary.macros]);
+
+  // Abre o código de um link compartilhado (#code=...) como documento novo.
+  // O hash é removido antes, para que recarregar a página não o duplique.
+  const openSharedDocument = workspace.open;
+  const sharedName = useRef(t.workspace.shared);
+  sharedName.current = t.workspace.shared;
+  useEffect(() => {
+    const openFromHash = () => {
+      const shared = readPermalink();
+      if (shared === null) return;
+      clearPermalink();
+      openSharedDocument(sharedName.current, shared);
+    };
+
+    openFromHash();
+    window.addEventListener("hashchange", openFromHash);
+    return () => window.removeEventListener("hashchange", openFromHash);
+  }, [openSharedDocument]);
+
+  // Motores usados pelos trechos do documento (texto, equações e diagramas)
+  const engines = useMemo(() => {
+    const kinds = new Set(segments.map((s) => s.kind));
+    const names: string[] = [];
+    if (kinds.has("inline-math") || kinds.has("display-math")) names.push("KaTeX");
+    if (kinds.has("tikz")) names.push("TikZJax");
+    return names.length ? names.join(" + ") : "KaTeX";
+  }, [segments]);
+
+  // Colagem convertida (Word, MathML, unicode) esperando confirmação antes de entrar no editor
+  const [clipboardImport, setClipboardImport] = useState<ClipboardImport | null>(null);
 
   const handlePasteFromClipboard = async () => {
+    let data: ClipboardData;
     try {
-      const text = await navigator.clipboard.readText();
-      setLatexInput(text);
+      data = await readClipboard();
     } catch (err) {
-      alert("Não consegui ler do clipboard (permissão do navegador).");
+      alert(t.app.clipboardDenied);
+      return;
     }
+
+    const result = convertClipboard(data);
+    if (!result) {
+      alert(data.hasImage ? t.clipboard.imageOnly : t.clipboard.empty);
+      return;
+    }
+    setClipboardImport(result);
   };
 
-  const handleClear = () => setLatexInput("");
+  // Ctrl+V no editor: só fórmulas (Word, MathML, imagens com LaTeX) passam pela confirmação
+  const handleEditorPaste = (data: ClipboardData) => {
+    const result = data.html ? convertClipboard({ ...data, text: null }) : null;
+    if (!result) return false;
+    setClipboardImport(result);
+    return true;
+  };
 
-  return (
-    <div className="app" style={{ maxWidth: 900, margin: "0 auto", padding: 24 }}>
-      <h1>LaTeX Live Preview</h1>
+  // Copia o link com o código; se a área de transferência não estiver disponível, mostra o link
+  const handleShare = async () => {
+    const link = buildPermalink(latexInput);
+    try {
+      await navigator.clipboard.writeText(link);
+      alert(t.app.linkCopied);
+    } catch (err) {
+      prompt(t.app.copyLink, link);
+    }
+  };
+
+  // Guarda o conteúdo no histórico antes de limpar, para poder restaurar
+  const handleClear = () => {
+    workspace.snapshot();
+    setLatexInput("");
+  };
+
+  const editorRef = useRef<LatexEditorHandle>(null);
+  const [cursor, setCursor] = useState(0);
+
+  // Seleciona no editor o trecho apontado pelo preview (um erro ou um elemento clicado)
+  const handleLocate = (range: SourceRange) => editorRef.current?.select(range);
+  // Edições do editor visual do TikZ e correções dos problemas passam pelo editor (e entram no desfazer)
+  const handleEdit = (edits: TextEdit[]) => editorRef.current?.replace(edits);
+
+  // Galeria de modelos: o escolhido entra na posição do cursor
+  const templateLibrary = useTemplateLibrary();
+  const [galleryOpen, setGalleryOpen] = useState(false);
+
+  const { layout, setMode, setEditorRatio } = useLayout();
+  const split = layout.mode === "split";
+
+  const editorPane = (
+    <div style={{ display: "flex", flexDirection: "column", height: "100%" }}>
+      <MacroPanel library={macroLibrary} detected={documentMacros.macros} />
+      <KatexSettingsPanel settings={katexSettings} onChange={workspace.setKatexSettings} />
+      <TikzPreamblePanel
+        pinned={pinnedPreamble}
+        onChange={workspace.setTikzPreamble}
+        declared={documentPreamble.config}
+        source={latexInput}
+      />
+      <TransformPanel settings={transforms} source={latexInput} />
+
+      <div style={{ flex: 1, minHeight: 0 }}>
+        <LatexEditor
+          ref={editorRef}
+          value={latexInput}
+          onChange={setLatexInput}
+          onCursorChange={setCursor}
+          fill={split}
+          diagnostics={diagnostics}
+          onPaste={handleEditorPaste}
+        />
+      </div>
+      <ProblemsPanel diagnostics={diagnostics} source={latexInput} onLocate={handleLocate} onFix={handleEdit} />
+    </div>
+  );
+
+  const previewPane = (
+    <>
+      <h3 style={{ marginTop: split ? 0 : 16 }}>
+        {t.app.preview(engines)}
+      </h3>
 
       <div
         style={{
-          background: "white",
-          borderRadius: 12,
-          padding: 16,
-          boxShadow: "0 2px 6px rgba(0,0,0,0.08)",
+          border: "1px solid #ddd",
+          borderRadius: 8,
+          padding: 8,
+          minHeight: 80,
+          backgroundColor: "#fafafa",
+          width: "100%",
+          overflow: "hidden",
+          position: "relative",
         }}
       >
-        <div style={{ display: "flex", gap: 8, marginBottom: 8 }}>
-          <button onClick={handlePasteFromClipboard}>Colar</button>
-          <button
-            onClick={handleClear}
-            style={{ backgroundColor: "#e53935", color: "white" }}
-          >
-            Limpar
-          </button>
+        <DocumentPreview
+          code={latexInput}
+          onLocate={handleLocate}
+          onEdit={handleEdit}
+          cursor={cursor}
+          macros={macros}
+          katexSettings={katexSettings}
+          tikzPreamble={tikzPreamble}
+          tikzTransforms={transforms.enabled}
+          hiddenRanges={hiddenRanges}
+          tikzViews={tikzViews.views}
+          onTikzViewChange={tikzViews.setView}
+        />
+      </div>
+    </>
+  );
+
+  return (
+    <I18nContext.Provider value={i18n}>
+      <div className="app" style={{ maxWidth: 1600, margin: "0 auto", padding: 24 }}>
+        <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+          <h1>LaTeX Live Preview</h1>
+          <label style={{ fontSize: 14 }}>
+            {t.app.language}:{" "}
+            <select value={i18n.locale} onChange={(e) => i18n.setLocale(e.target.value as Locale)}>
+              {LOCALES.map((l) => (
+                <option key={l.id} value={l.id} lang={l.id}>
+                  {l.label}
+                </option>
+              ))}
+            </select>
+          </label>
         </div>
 
-        <textarea
-          value={latexInput}
-          onChange={(e) => setLatexInput(e.target.value)}
-          rows={12}
-          style={{
-            width: "100%",
-            fontFamily: "monospace",
-            fontSize: 14,
-            borderRadius: 8,
-            padding: 8,
-            boxSizing: "border-box",
-          }}
-        />
+        <div style={{ display: "flex", gap: 16, alignItems: "flex-start" }}>
+          <WorkspaceSidebar workspace={workspace} />
+
+          <div
+            style={{
+              flex: 1,
+              minWidth: 0,
+              background: "white",
+              borderRadius: 12,
+              padding: 16,
+              boxShadow: "0 2px 6px rgba(0,0,0,0.08)",
+            }}
+          >
+            <div style={{ display: "flex", gap: 8, marginBottom: 8 }}>
+              <button onClick={handlePasteFromClipboard}>{t.app.paste}</button>
+              <button onClick={handleShare}>{t.app.share}</button>
+              <button onClick={() => setGalleryOpen(true)}>{t.app.templates}</button>
+              <button
+                onClick={handleClear}
+                style={{ backgroundColor: "#e53935", color: "white" }}
+              >
+                {t.app.clear}
+              </button>
+              <button onClick={() => setMode(split ? "stacked" : "split")} style={{ marginLeft: "auto" }}>
+                {split ? t.app.stacked : t.app.split}
+              </button>
+            </div>
 
-        <h3 style={{ marginTop: 16 }}>
-          Preview ({containsTikz ? "TikZJax" : "KaTeX"})
-        </h3>
-
-        <div
-          style={{
-            border: "1px solid #ddd",
-            borderRadius: 8,
-            padding: containsTikz ? 0 : 8,
-            minHeight: containsTikz ? 500 : 80,
-            height: containsTikz ? "600px" : "auto",
-            backgroundColor: "#fafafa",
-            width: "100%",
-            overflow: "hidden",
-            position: "relative",
-          }}
-        >
-          {containsTikz ? (
-            <TikzPreview code={latexInput} />
-          ) : (
-            <KatexPreview code={latexInput} />
-          )}
+            {galleryOpen && (
+              <TemplateGallery
+                library={templateLibrary}
+                onInsert={(code) => editorRef.current?.insertBlock(code)}
+                onClose={() => setGalleryOpen(false)}
+                document={workspace.activeDocument}
+              />
+            )}
+
+            {clipboardImport && (
+              <ClipboardImportDialog
+                result={clipboardImport}
+                onInsert={(code) => editorRef.current?.insertBlock(code)}
+                onClose={() => setClipboardImport(null)}
+                macros={macros}
+                katexSettings={katexSettings}
+              />
+            )}
+
+            {split ? (
+              <SplitView
+                ratio={layout.editorRatio}
+                onRatioChange={setEditorRatio}
+                left={editorPane}
+                right={previewPane}
+              />
+            ) : (
+              <>
+                {editorPane}
+                {previewPane}
+              </>
+            )}
+          </div>
         </div>
       </div>
-    </div>
+    </I18nContext.Provider>
   );
 }
 
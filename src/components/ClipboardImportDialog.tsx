@@ -0,0 +1,116 @@
+import { useEffect, useState } from "react";
+import { DocumentPreview } from "./DocumentPreview";
+import { ClipboardImport } from "../lib/clipboardImport";
+import { KatexSettings } from "../lib/katexSettings";
+import { MacroDefinition } from "../lib/macros";
+import { useI18n } from "../hooks/useI18n";
+
+interface ClipboardImportDialogProps {
+  result: ClipboardImport;
+  /** Insere o código (revisado) no editor, na posição do cursor */
+  onInsert: (code: string) => void;
+  onClose: () => void;
+  macros?: MacroDefinition[];
+  katexSettings?: KatexSettings;
+}
+
+/** Confirmação do que foi colado: o LaTeX convertido, editável, e como ele fica */
+export function ClipboardImportDialog({
+  result,
+  onInsert,
+  onClose,
+  macros,
+  katexSettings,
+}: ClipboardImportDialogProps) {
+  const { t } = useI18n();
+  const [code, setCode] = useState(result.latex);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => e.key === "Escape" && onClose();
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  const handleInsert = () => {
+    onInsert(code);
+    onClose();
+  };
+
+  return (
+    <div
+      onClick={onClose}
+      style={{
+        position: "fixed",
+        inset: 0,
+        zIndex: 1000,
+        background: "rgba(0,0,0,0.35)",
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+      }}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label={t.clipboard.title}
+        onClick={(e) => e.stopPropagation()}
+        style={{
+          background: "white",
+          borderRadius: 12,
+          padding: 16,
+          width: "min(800px, 92vw)",
+          maxHeight: "88vh",
+          display: "flex",
+          flexDirection: "column",
+          gap: 8,
+          boxShadow: "0 8px 24px rgba(0,0,0,0.2)",
+        }}
+      >
+        <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+          <h3 style={{ margin: 0, flex: 1 }}>{t.clipboard.title}</h3>
+          <button onClick={onClose} aria-label={t.clipboard.cancel}>
+            ×
+          </button>
+        </div>
+
+        <p style={{ fontSize: 12, color: "#666", margin: 0 }}>
+          {t.clipboard.formats[result.format]} {t.clipboard.help}
+        </p>
+
+        <label style={{ fontSize: 12, fontWeight: "bold" }}>
+          {t.clipboard.code}
+          <textarea
+            autoFocus
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            spellCheck={false}
+            rows={Math.min(Math.max(code.split("\n").length, 3), 12)}
+            style={{ display: "block", width: "100%", fontFamily: "monospace", fontSize: 13, marginTop: 4 }}
+          />
+        </label>
+
+        <div style={{ fontSize: 12, fontWeight: "bold" }}>{t.clipboard.preview}</div>
+        <div
+          style={{
+            flex: 1,
+            minHeight: 60,
+            overflow: "auto",
+            border: "1px solid #ddd",
+            borderRadius: 8,
+            padding: 8,
+            background: "#fafafa",
+          }}
+        >
+          <DocumentPreview code={code} macros={macros} katexSettings={katexSettings} compact />
+        </div>
+
+        <div style={{ display: "flex", gap: 8, justifyContent: "flex-end" }}>
+          <button onClick={onClose}>{t.clipboard.cancel}</button>
+          <button onClick={handleInsert} disabled={!code.trim()}>
+            {t.clipboard.insert}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+import { useMemo } from "react";
+import { KatexPreview } from "./KatexPreview";
+import { TikzPreview } from "./TikzPreview";
+import { Segment, splitSegments } from "../lib/segments";
+import { SourceRange, TextEdit } from "../lib/sourcePosition";
+import { MacroDefinition } from "../lib/macros";
+import { TikzPreambleConfig } from "../lib/tikzPreamble";
+import { TransformPass } from "../lib/transforms";
+import { KatexSettings } from "../lib/katexSettings";
+import { TikzView, defaultTikzView } from "../lib/tikzViewer";
+import { useI18n } from "../hooks/useI18n";
+import { tikzViewKeys } from "../hooks/useTikzViews";
+
+interface DocumentPreviewProps {
+  code: string;
+  /** Chamado ao clicar num erro ou num elemento, para selecionar o trecho no editor */
+  onLocate?: (range: SourceRange) => void;
+  /** Aplica no editor as edições feitas no editor visual dos diagramas */
+  onEdit?: (edits: TextEdit[]) => void;
+  /** Posição do cursor no editor, destacada no preview */
+  cursor?: number;
+  macros?: MacroDefinition[];
+  /** Opções do KaTeX nas equações */
+  katexSettings?: KatexSettings;
+  /** Bibliotecas, pacotes e estilos dos diagramas TikZ */
+  tikzPreamble?: TikzPreambleConfig;
+  /** Correções aplicadas ao código dos diagramas antes de compilar */
+  tikzTransforms?: TransformPass[];
+  /** Versão reduzida (miniaturas): diagramas menores e sem exportação */
+  compact?: boolean;
+  /** Definições (macros, preâmbulo) no texto, que não devem aparecer como prosa */
+  hiddenRanges?: SourceRange[];
+  /** Zoom e pan dos diagramas, pela chave de cada um (ver tikzViewKeys; sem ela: ajuste padrão) */
+  tikzViews?: Record<string, TikzView>;
+  onTikzViewChange?: (key: string, view: TikzView) => void;
+}
+
+/**
+ * Blocos de renderização: texto e matemática em linha fluem juntos
+ * num parágrafo; equações em destaque e diagramas ocupam um bloco próprio.
+ */
+type Block =
+  | { kind: "paragraph"; segments: Segment[] }
+  | { kind: "display-math" | "tikz"; segment: Segment };
+
+function groupBlocks(segments: Segment[]): Block[] {
+  const blocks: Block[] = [];
+
+  for (const segment of segments) {
+    if (segment.kind === "text" || segment.kind === "inline-math") {
+      const last = blocks[blocks.length - 1];
+      if (last?.kind === "paragraph") {
+        last.segments.push(segment);
+      } else {
+        blocks.push({ kind: "paragraph", segments: [segment] });
+      }
+    } else {
+      blocks.push({ kind: segment.kind, segment });
+    }
+  }
+
+  // Parágrafos só com espaços em branco (entre dois blocos) não são exibidos
+  return blocks.filter(
+    (b) => b.kind !== "paragraph" || b.segments.some((s) => s.kind !== "text" || s.content.trim())
+  );
+}
+
+/** Texto do segmento sem os trechos ocultos (ex.: \newcommand fora de matemática) */
+function visibleText(segment: Segment, hiddenRanges: SourceRange[]): string {
+  let text = "";
+  let position = segment.start;
+
+  for (const range of hiddenRanges) {
+    if (range.end <= position || range.start >= segment.end) continue;
+    text += segment.raw.slice(position - segment.start, Math.max(position, range.start) - segment.start);
+    position = Math.min(range.end, segment.end);
+  }
+
+  return text + segment.raw.slice(position - segment.start);
+}
+
+interface ParagraphProps {
+  segments: Segment[];
+  source: string;
+  onLocate?: (range: SourceRange) => void;
+  cursor?: number;
+  macros?: MacroDefinition[];
+  katexSettings?: KatexSettings;
+  hiddenRanges: SourceRange[];
+}
+
+function Paragraph({ segments, source, onLocate, cursor, macros, katexSettings, hiddenRanges }: ParagraphProps) {
+  const lastIndex = segments.length - 1;
+
+  return (
+    <div style={{ whiteSpace: "pre-wrap", padding: "4px 12px" }}>
+      {segments.map((segment, index) => {
+        if (segment.kind === "inline-math") {
+          return segment.content.trim() ? (
+            <KatexPreview
+              key={segment.start}
+              code={segment.content}
+              displayMode={false}
+              sourceOffset={segment.contentStart}
+              source={source}
+              onLocate={onLocate}
+              cursor={cursor}
+              macros={macros}
+              settings={katexSettings}
+            />
+          ) : null;
+        }
+
+        // Remove as quebras de linha que só separam o parágrafo dos blocos vizinhos
+        let text = visibleText(segment, hiddenRanges).replace(/\\\$/g, "$");
+        if (index === 0) text = text.trimStart();
+        if (index === lastIndex) text = text.trimEnd();
+        return <span key={segment.start}>{text}</span>;
+      })}
+    </div>
+  );
+}
+
+export function DocumentPreview({
+  code,
+  onLocate,
+  onEdit,
+  cursor,
+  macros,
+  katexSettings,
+  tikzPreamble,
+  tikzTransforms,
+  compact = false,
+  hiddenRanges = [],
+  tikzViews,
+  onTikzViewChange,
+}: DocumentPreviewProps) {
+  const blocks = useMemo(() => groupBlocks(splitSegments(code)), [code]);
+  const viewKeys = useMemo(
+    () => tikzViewKeys(blocks.flatMap((b) => (b.kind === "tikz" ? [b.segment.content] : []))),
+    [blocks]
+  );
+  const { t } = useI18n();
+
+  if (!blocks.length) {
+    return <p>{t.preview.empty}</p>;
+  }
+
+  // Chaves pela ordem de cada tipo de bloco, e não pela posição no texto:
+  // editar um parágrafo não deve recriar (e recompilar) os diagramas seguintes
+  const counters: Record<Block["kind"], number> = { paragraph: 0, "display-math": 0, tikz: 0 };
+
+  return (
+    <div>
+      {blocks.map((block) => {
+        const index = counters[block.kind]++;
+        const key = `${block.kind}-${index}`;
+
+        if (block.kind === "paragraph") {
+          return (
+            <Paragraph
+              key={key}
+              segments={block.segments}
+              source={code}
+              onLocate={onLocate}
+              cursor={cursor}
+              macros={macros}
+              katexSettings={katexSettings}
+              hiddenRanges={hiddenRanges}
+            />
+          );
+        }
+
+        if (block.kind === "display-math") {
+          return (
+            <KatexPreview
+              key={key}
+              code={block.segment.content}
+              sourceOffset={block.segment.contentStart}
+              source={code}
+              onLocate={onLocate}
+              cursor={cursor}
+              macros={macros}
+              settings={katexSettings}
+            />
+          );
+        }
+
+        return (
+          <div key={key} style={{ height: compact ? 240 : 600, margin: "8px 0" }}>
+            <TikzPreview
+              code={block.segment.content}
+              sourceOffset={block.segment.contentStart}
+              onLocate={onLocate}
+              cursor={cursor}
+              macros={macros}
+              preamble={tikzPreamble}
+              transforms={tikzTransforms}
+              onEdit={onEdit}
+              compact={compact}
+              view={tikzViews && (tikzViews[viewKeys[index]] ?? defaultTikzView)}
+              onViewChange={onTikzViewChange && ((view) => onTikzViewChange(viewKeys[index], view))}
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
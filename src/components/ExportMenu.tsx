@@ -0,0 +1,132 @@
+import { useState } from "react";
+import {
+  ExportError,
+  StandaloneKind,
+  SvgImage,
+  addSvgStyle,
+  downloadBlob,
+  downloadText,
+  inlineStylesheet,
+  referenceFontCss,
+  standaloneTex,
+  svgFontFamilies,
+  svgToPng,
+} from "../lib/export";
+import { useI18n } from "../hooks/useI18n";
+
+interface ExportMenuProps {
+  /** Nome base dos arquivos baixados */
+  filename: string;
+  kind: StandaloneKind;
+  /** Código normalizado, usado no .tex */
+  source: string;
+  /** Definições que o .tex precisa no preâmbulo (macros do usuário) */
+  preamble?: string;
+  /** SVG do que está renderizado agora; null se ainda não há nada */
+  getSvg: () => SvgImage | null;
+  /** Folha de estilos com as fontes (e regras) que o SVG precisa */
+  stylesheetUrl: string;
+  /** Embute só as fontes usadas no SVG (o CSS do TikZJax tem dezenas delas) */
+  onlyUsedFonts?: boolean;
+}
+
+const dpiOptions = [96, 150, 300, 600];
+
+const buttonStyle = { fontSize: 12, padding: "2px 8px" };
+
+export function ExportMenu({
+  filename,
+  kind,
+  source,
+  preamble,
+  getSvg,
+  stylesheetUrl,
+  onlyUsedFonts = false,
+}: ExportMenuProps) {
+  const [dpi, setDpi] = useState(300);
+  const [embedFonts, setEmbedFonts] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const { t } = useI18n();
+
+  const withFonts = async (image: SvgImage, embed: boolean): Promise<SvgImage> => {
+    if (!embed) {
+      return { ...image, svg: referenceFontCss(image.svg, stylesheetUrl) };
+    }
+    const css = await inlineStylesheet(stylesheetUrl, onlyUsedFonts ? svgFontFamilies(image.svg) : undefined);
+    return { ...image, svg: addSvgStyle(image.svg, css) };
+  };
+
+  const errorMessage = (err: unknown): string => {
+    if (err instanceof ExportError) {
+      return err.code === "stylesheet" ? t.export.errors.stylesheet(err.detail) : t.export.errors[err.code];
+    }
+    return err instanceof Error ? err.message : String(err);
+  };
+
+  const run = async (action: (image: SvgImage) => Promise<void>) => {
+    setBusy(true);
+    try {
+      const image = getSvg();
+      if (!image) {
+        alert(t.export.nothingRendered);
+        return;
+      }
+      await action(image);
+    } catch (err) {
+      alert(t.export.failed(errorMessage(err)));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSvg = () =>
+    run(async (image) => {
+      const { svg } = await withFonts(image, embedFonts);
+      downloadBlob(new Blob([svg], { type: "image/svg+xml" }), `${filename}.svg`);
+    });
+
+  // Uma imagem rasterizada não carrega recursos externos: as fontes precisam ir embutidas
+  const handlePng = () =>
+    run(async (image) => {
+      downloadBlob(await svgToPng(await withFonts(image, true), dpi), `${filename}.png`);
+    });
+
+  const handleTex = () =>
+    downloadText(standaloneTex(source, kind, preamble), `${filename}.tex`, "application/x-tex");
+
+  return (
+    <div
+      style={{
+        display: "flex",
+        gap: 6,
+        alignItems: "center",
+        justifyContent: "flex-end",
+        flexWrap: "wrap",
+        fontSize: 12,
+        color: "#555",
+      }}
+    >
+      <span>{t.export.label}</span>
+      <button type="button" style={buttonStyle} onClick={handleSvg} disabled={busy}>
+        SVG
+      </button>
+      <label style={{ display: "flex", gap: 2, alignItems: "center" }}>
+        <input type="checkbox" checked={embedFonts} onChange={(e) => setEmbedFonts(e.target.checked)} />
+        {t.export.embedFonts}
+      </label>
+      <button type="button" style={buttonStyle} onClick={handlePng} disabled={busy}>
+        PNG
+      </button>
+      <select value={dpi} onChange={(e) => setDpi(Number(e.target.value))} style={{ fontSize: 12 }}>
+        {dpiOptions.map((value) => (
+          <option key={value} value={value}>
+            {value} dpi
+          </option>
+        ))}
+      </select>
+      <button type="button" style={buttonStyle} onClick={handleTex}>
+        .tex
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,12 @@
+import { Fragment } from "react";
+
+/** Texto dos catálogos de idioma: os trechos entre crases (`\tag`) aparecem como código */
+export function FormattedText({ text }: { text: string }) {
+  return (
+    <>
+      {text.split("`").map((part, index) =>
+        index % 2 ? <code key={index}>{part}</code> : <Fragment key={index}>{part}</Fragment>
+      )}
+    </>
+  );
+}
@@ -1,42 +1,234 @@
-import { useMemo } from "react";
-import { BlockMath } from "react-katex";
+import { MouseEvent, RefObject, useEffect, useMemo, useRef } from "react";
+import katex, { KatexOptions } from "katex";
 import "katex/dist/katex.min.css";
+// O mesmo CSS servido pelo app (com as fontes locais), para a exportação funcionar sem rede
+import katexCssUrl from "katex/dist/katex.min.css?url";
+import { LatexError, LatexErrorPanel } from "./LatexErrorPanel";
+import { ExportMenu } from "./ExportMenu";
+import { katexElementToSvg } from "../lib/export";
+import { SourceRange } from "../lib/sourcePosition";
+import {
+  SOURCE_ATTRIBUTE,
+  innermostAt,
+  instrumentMath,
+  parseSourceAttribute,
+  restoreTexAnnotation,
+  revealInScrollParent,
+  trustSourceMarks,
+} from "../lib/sourceMap";
+import { MacroDefinition, macrosToPreamble } from "../lib/macros";
+import { NormalizedLatex, katexMacros, normalizeLatex } from "../lib/preprocess";
+import { KatexSettings, defaultKatexSettings, katexOptions } from "../lib/katexSettings";
+import { speak } from "../lib/spokenMath";
+import { useI18n } from "../hooks/useI18n";
 
 interface KatexPreviewProps {
   code: string;
+  /**
+   * Equação em destaque (padrão) ou em linha, dentro de um parágrafo, quando o
+   * código não tem delimitadores: \[ e $$ sempre são em destaque, \( e $ em linha
+   */
+  displayMode?: boolean;
+  /** Posição de `code` no texto do editor, para localizar erros e elementos */
+  sourceOffset?: number;
+  /** Texto completo do editor (padrão: o próprio `code`) */
+  source?: string;
+  /** Seleciona no editor o trecho de um erro ou de um elemento clicado */
+  onLocate?: (range: SourceRange) => void;
+  /** Posição do cursor no editor: o elemento correspondente fica destacado */
+  cursor?: number;
+  /** Macros do usuário (biblioteca e \newcommand do documento) */
+  macros?: MacroDefinition[];
+  /** Opções do KaTeX do documento */
+  settings?: KatexSettings;
 }
 
-function normalizeLatex(input: string): string {
-  let s = input.trim();
+const noMacros: MacroDefinition[] = [];
 
-  // Remove delimitadores \[ ... \], $$ ... $$, \( ... \)
-  // para que o BlockMath receba só o conteúdo interno.
-  if (s.startsWith("\\[") && s.endsWith("\\]")) {
-    s = s.slice(2, -2).trim();
-  }
-  if (s.startsWith("$$") && s.endsWith("$$")) {
-    s = s.slice(2, -2).trim();
-  }
-  if (s.startsWith("\\(") && s.endsWith("\\)")) {
-    s = s.slice(2, -2).trim();
-  }
+type RenderResult = { html: string; error: null } | { html: null; error: LatexError };
+
+/**
+ * Trecho de `math` onde está o erro, ou null se o erro não é de `math`: num
+ * erro dentro da expansão de uma macro, o KaTeX dá a posição no corpo da macro.
+ * O ParseError não guarda o texto analisado, mas o repete na mensagem em volta
+ * do trecho do erro (como em ParseError.js); a mensagem precisa ser a mesma
+ * montada a partir de `math`.
+ */
+function errorRange(err: katex.ParseError, math: string): SourceRange | null {
+  // O ParseError do KaTeX tem `length` e `rawMessage`, ausentes da tipagem
+  const { position: start, length = 0, rawMessage } = err as katex.ParseError & {
+    length?: number;
+    rawMessage?: string;
+  };
+  if (start === undefined || rawMessage === undefined || start > math.length) return null;
+
+  const end = start + length;
+  const where = start === math.length ? " at end of input: " : ` at position ${start + 1}: `;
+  const left = start > 15 ? "…" + math.slice(start - 15, start) : math.slice(0, start);
+  const underlined = math.slice(start, end).replace(/[^]/g, "$&\u0332");
+  const right = end + 15 < math.length ? math.slice(end, end + 15) + "…" : math.slice(end);
+  const expected = `KaTeX parse error: ${rawMessage}${where}${left}${underlined}${right}`;
+
+  return err.message === expected ? { start, end } : null;
+}
+
+function renderLatex(
+  { math, offset }: NormalizedLatex,
+  displayMode: boolean,
+  sourceOffset: number,
+  macros: MacroDefinition[],
+  settings: KatexSettings
+): RenderResult {
+  try {
+    const options = (): KatexOptions => ({
+      ...katexOptions(settings, displayMode),
+      throwOnError: true,
+      macros: katexMacros(math, macros),
+    });
+
+    // Com as marcas de posição (ver sourceMap.ts); se algo der errado com elas,
+    // renderiza a fórmula original, que também dá as posições certas dos erros
+    const marked = instrumentMath(math, options());
+    if (marked !== null) {
+      try {
+        const html = katex.renderToString(marked, {
+          ...options(),
+          trust: settings.trust || trustSourceMarks,
+          strict: (code: string) => (code === "htmlExtension" ? "ignore" : settings.strict),
+        });
+        return { html: restoreTexAnnotation(html, math), error: null };
+      } catch {
+        // Segue sem as marcas
+      }
+    }
+
+    const html = katex.renderToString(math, options());
+    return { html, error: null };
+  } catch (err) {
+    if (err instanceof katex.ParseError) {
+      const { rawMessage } = err as katex.ParseError & { rawMessage?: string };
+      const range = errorRange(err, math);
+      const start = sourceOffset + offset;
+
+      return {
+        html: null,
+        error: {
+          message: rawMessage ?? err.message,
+          range: range && { start: start + range.start, end: start + range.end },
+        },
+      };
+    }
 
-  return s;
+    return { html: null, error: { message: String(err), range: null } };
+  }
 }
 
-export function KatexPreview({ code }: KatexPreviewProps) {
-  const trimmed = code.trim();
+export function KatexPreview({
+  code,
+  displayMode: defaultDisplayMode = true,
+  sourceOffset = 0,
+  source = code,
+  onLocate,
+  cursor,
+  macros = noMacros,
+  settings = defaultKatexSettings,
+}: KatexPreviewProps) {
+  const normalized = useMemo(() => normalizeLatex(code), [code]);
+  const displayMode = normalized.displayMode ?? defaultDisplayMode;
+  const result = useMemo(
+    () => renderLatex(normalized, displayMode, sourceOffset, macros, settings),
+    [normalized, displayMode, sourceOffset, macros, settings]
+  );
+
+  const outputRef = useRef<HTMLElement>(null);
+  const { t } = useI18n();
+
+  // Enquanto a entrada estiver quebrada, continua mostrando o último resultado válido
+  const lastHtml = useRef<string | null>(null);
+  useEffect(() => {
+    if (result.html !== null) {
+      lastHtml.current = result.html;
+    }
+  }, [result]);
+
+  const html = result.html ?? lastHtml.current;
+
+  // Leitura por extenso, para leitores de tela (ver spokenMath.ts), no idioma da interface
+  const spoken = useMemo(() => speak(normalized.math, t.spoken), [normalized.math, t]);
 
-  if (!trimmed) {
-    return <p>Digite LaTeX acima…</p>;
+  // Destaca o elemento sob o cursor do editor
+  const start = sourceOffset + normalized.offset;
+  const relativeCursor =
+    cursor !== undefined && cursor >= start && cursor <= start + normalized.math.length ? cursor - start : null;
+  useEffect(() => {
+    const output = outputRef.current;
+    if (!output) return;
+
+    output.querySelector(".sync-highlight")?.classList.remove("sync-highlight");
+    const element = relativeCursor === null ? null : innermostAt(output, relativeCursor);
+    if (element) {
+      element.classList.add("sync-highlight");
+      revealInScrollParent(element);
+    }
+  }, [relativeCursor, html]);
+
+  // Clique num elemento seleciona o trecho correspondente no editor
+  const handleClick = (event: MouseEvent<HTMLElement>) => {
+    const element = (event.target as Element).closest(`[${SOURCE_ATTRIBUTE}]`);
+    const range = parseSourceAttribute(element?.getAttribute(SOURCE_ATTRIBUTE) ?? null);
+    if (range && onLocate) onLocate({ start: start + range.start, end: start + range.end });
+  };
+
+  if (!normalized.math) {
+    return displayMode ? <p>{t.preview.empty}</p> : null;
   }
 
-  const math = useMemo(() => normalizeLatex(trimmed), [trimmed]);
+  if (!displayMode) {
+    return (
+      <>
+        {html !== null && (
+          <span
+            ref={outputRef}
+            className="katex-output"
+            role="math"
+            aria-label={spoken}
+            onClick={handleClick}
+            dangerouslySetInnerHTML={{ __html: html }}
+          />
+        )}
+        {result.error && (
+          <LatexErrorPanel error={result.error} source={source} onLocate={onLocate} compact />
+        )}
+      </>
+    );
+  }
 
   return (
     <div style={{ padding: "12px" }}>
-      <BlockMath math={math} />
+      {html !== null && (
+        <div
+          ref={outputRef as RefObject<HTMLDivElement>}
+          className="katex-output"
+          role="math"
+          aria-label={spoken}
+          onClick={handleClick}
+          dangerouslySetInnerHTML={{ __html: html }}
+          style={{ opacity: result.error ? 0.5 : 1 }}
+        />
+      )}
+      {result.error && (
+        <LatexErrorPanel error={result.error} source={source} onLocate={onLocate} />
+      )}
+      {html !== null && (
+        <ExportMenu
+          filename={t.export.equationFilename}
+          kind="math"
+          source={normalized.math}
+          preamble={macrosToPreamble(macros)}
+          stylesheetUrl={katexCssUrl}
+          getSvg={() => (outputRef.current ? katexElementToSvg(outputRef.current) : null)}
+        />
+      )}
     </div>
   );
 }
-
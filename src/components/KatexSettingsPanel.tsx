@@ -0,0 +1,105 @@
+import {
+  KATEX_OUTPUTS,
+  KATEX_STRICT_MODES,
+  KatexOutput,
+  KatexSettings,
+  KatexStrict,
+  changedKatexSettings,
+  defaultKatexSettings,
+} from "../lib/katexSettings";
+import { useI18n } from "../hooks/useI18n";
+import { FormattedText } from "./FormattedText";
+
+interface KatexSettingsPanelProps {
+  settings: KatexSettings;
+  onChange: (settings: KatexSettings) => void;
+}
+
+const smallButton = { fontSize: 12, padding: "2px 8px" };
+
+const rowStyle = { display: "flex", gap: 4, alignItems: "center", fontSize: 12 };
+
+/** Opções de renderização das equações, salvas no documento */
+export function KatexSettingsPanel({ settings, onChange }: KatexSettingsPanelProps) {
+  const update = (changes: Partial<KatexSettings>) => onChange({ ...settings, ...changes });
+  const changed = changedKatexSettings(settings);
+  const { t } = useI18n();
+
+  return (
+    <details style={{ marginBottom: 8 }}>
+      <summary style={{ cursor: "pointer" }}>
+        {t.katex.summary(changed)}
+      </summary>
+
+      <p style={{ fontSize: 12, color: "#666", margin: "4px 0" }}>
+        <FormattedText text={t.katex.help} />
+      </p>
+
+      <label style={rowStyle}>
+        {t.katex.output}
+        <select
+          value={settings.output}
+          onChange={(e) => update({ output: e.target.value as KatexOutput })}
+          style={{ fontSize: 12 }}
+        >
+          {KATEX_OUTPUTS.map((output) => (
+            <option key={output} value={output}>
+              {t.katex.outputs[output]}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label style={rowStyle}>
+        <input type="checkbox" checked={settings.leqno} onChange={(e) => update({ leqno: e.target.checked })} />
+        <FormattedText text={t.katex.leqno} />
+      </label>
+      <label style={rowStyle}>
+        <input type="checkbox" checked={settings.fleqn} onChange={(e) => update({ fleqn: e.target.checked })} />
+        <FormattedText text={t.katex.fleqn} />
+      </label>
+
+      <label style={rowStyle}>
+        {t.katex.strict}
+        <select
+          value={settings.strict}
+          onChange={(e) => update({ strict: e.target.value as KatexStrict })}
+          style={{ fontSize: 12 }}
+        >
+          {KATEX_STRICT_MODES.map((mode) => (
+            <option key={mode} value={mode}>
+              {t.katex.strictModes[mode]}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label style={rowStyle}>
+        <input type="checkbox" checked={settings.trust} onChange={(e) => update({ trust: e.target.checked })} />
+        <FormattedText text={t.katex.trust} />
+      </label>
+
+      <label style={rowStyle}>
+        {t.katex.maxExpand}
+        <input
+          type="number"
+          min={0}
+          value={settings.maxExpand}
+          onChange={(e) => {
+            const value = Math.floor(Number(e.target.value));
+            if (Number.isFinite(value) && value >= 0) update({ maxExpand: value });
+          }}
+          style={{ fontSize: 12, width: 80 }}
+        />
+      </label>
+
+      <button
+        style={{ ...smallButton, marginTop: 4 }}
+        onClick={() => onChange(defaultKatexSettings)}
+        disabled={changed === 0}
+      >
+        {t.katex.reset}
+      </button>
+    </details>
+  );
+}
@@ -0,0 +1,282 @@
+import { forwardRef, useEffect, useImperativeHandle, useRef, useState } from "react";
+import { EditorView, basicSetup } from "codemirror";
+import { EditorSelection, EditorState, Extension } from "@codemirror/state";
+import { StreamLanguage } from "@codemirror/language";
+import { Diagnostic, lintGutter, setDiagnostics } from "@codemirror/lint";
+import { stex } from "@codemirror/legacy-modes/mode/stex";
+import {
+  Completion,
+  CompletionContext,
+  CompletionResult,
+  snippet,
+  snippetCompletion,
+} from "@codemirror/autocomplete";
+import { commandCompletions, environmentCompletions } from "../lib/latexCompletions";
+import { ClipboardData, clipboardDataFromTransfer } from "../lib/clipboardImport";
+import { LintDiagnostic, formatLintFix, formatLintMessage } from "../lib/latexLint";
+import { SourceRange, TextEdit } from "../lib/sourcePosition";
+import { useI18n } from "../hooks/useI18n";
+
+export interface LatexEditorHandle {
+  /** Seleciona um trecho, rola até ele e dá foco ao editor */
+  select: (range: SourceRange) => void;
+  /** Aplica trocas de trechos (posições do texto atual) como uma edição só, que se desfaz com Ctrl+Z */
+  replace: (edits: TextEdit[]) => void;
+  /** Insere um bloco no lugar da seleção, em linhas próprias, e põe o cursor depois dele */
+  insertBlock: (text: string) => void;
+  focus: () => void;
+}
+
+interface LatexEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  /** Posição do cursor, a cada movimento */
+  onCursorChange?: (offset: number) => void;
+  /** Ocupa a altura do contêiner, em vez de crescer com o texto */
+  fill?: boolean;
+  /** Problemas do texto atual, sublinhados no editor (com a correção no menu do sublinhado) */
+  diagnostics?: LintDiagnostic[];
+  /** Ctrl+V no editor; retorna true se tratou o conteúdo (e a colagem normal não acontece) */
+  onPaste?: (data: ClipboardData) => boolean;
+}
+
+const latexLanguage = StreamLanguage.define(stex);
+
+/** Insere o texto do complemento e consome um "}" já fechado automaticamente */
+function applyConsumingBrace(template: string) {
+  const apply = snippet(template);
+  return (view: EditorView, completion: Completion, from: number, to: number) => {
+    const end = view.state.sliceDoc(to, to + 1) === "}" ? to + 1 : to;
+    apply(view, completion, from, end);
+  };
+}
+
+function latexCompletionSource(context: CompletionContext): CompletionResult | null {
+  // Nome do ambiente em \begin{...} ou \end{...}
+  const environment = context.matchBefore(/\\(?:begin|end)\{[\w*]*$/);
+  if (environment) {
+    const isBegin = environment.text.startsWith("\\begin");
+    return {
+      from: environment.from + environment.text.indexOf("{") + 1,
+      options: environmentCompletions.map((name) => ({
+        label: name,
+        type: "type",
+        // \begin{...} já traz o \end{...} correspondente
+        apply: applyConsumingBrace(isBegin ? `${name}}\n\t\${}\n\\end{${name}}` : `${name}}`),
+      })),
+      validFor: /^[\w*]*$/,
+    };
+  }
+
+  const command = context.matchBefore(/\\[a-zA-Z]*$/);
+  if (!command || (command.from === command.to && !context.explicit)) {
+    return null;
+  }
+
+  return {
+    from: command.from,
+    options: commandCompletions.map((c) =>
+      c.snippet
+        ? snippetCompletion(c.snippet, { label: c.command, detail: c.detail, type: "keyword" })
+        : { label: c.command, detail: c.detail, type: "keyword" }
+    ),
+    validFor: /^\\[a-zA-Z]*$/,
+  };
+}
+
+function countOccurrences(text: string, search: string): number {
+  return text.split(search).length - 1;
+}
+
+/**
+ * Ao fechar "\begin{nome}" digitando "}", insere o "\end{nome}" correspondente,
+ * a menos que o documento já tenha \end suficientes para ele.
+ */
+const autoCloseEnvironment = EditorView.inputHandler.of((view, from, to, text) => {
+  if (text !== "}") return false;
+
+  const line = view.state.doc.lineAt(from);
+  const match = line.text.slice(0, from - line.from).match(/\\begin\{([\w*]+)$/);
+  if (!match) return false;
+
+  const name = match[1];
+  const doc = view.state.doc.toString();
+  const begins = countOccurrences(doc, `\\begin{${name}}`) + 1;
+  if (countOccurrences(doc, `\\end{${name}}`) >= begins) return false;
+
+  const indent = line.text.match(/^\s*/)?.[0] ?? "";
+  const end = view.state.sliceDoc(to, to + 1) === "}" ? to + 1 : to;
+  const insert = `}\n${indent}  \n${indent}\\end{${name}}`;
+
+  view.dispatch({
+    changes: { from, to: end, insert },
+    selection: EditorSelection.cursor(from + 2 + indent.length + 2),
+    userEvent: "input.type",
+  });
+  return true;
+});
+
+const editorTheme = EditorView.theme({
+  "&": {
+    fontSize: "14px",
+    border: "1px solid #ccc",
+    borderRadius: "8px",
+    background: "white",
+  },
+  "&.cm-focused": {
+    outline: "2px solid #90caf9",
+  },
+  ".cm-scroller": {
+    fontFamily: "monospace",
+    minHeight: "240px",
+    maxHeight: "480px",
+  },
+  ".cm-gutters": {
+    borderTopLeftRadius: "8px",
+    borderBottomLeftRadius: "8px",
+  },
+});
+
+export const LatexEditor = forwardRef<LatexEditorHandle, LatexEditorProps>(function LatexEditor(
+  { value, onChange, onCursorChange, fill = false, diagnostics = [], onPaste },
+  ref
+) {
+  const { t } = useI18n();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const viewRef = useRef<EditorView | null>(null);
+
+  // O listener é criado uma vez; a ref mantém o onChange mais recente
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+  const onCursorChangeRef = useRef(onCursorChange);
+  onCursorChangeRef.current = onCursorChange;
+  const onPasteRef = useRef(onPaste);
+  onPasteRef.current = onPaste;
+  // Conteúdo com que o editor é criado; as mudanças seguintes chegam pelo efeito de `value`
+  const valueRef = useRef(value);
+  valueRef.current = value;
+
+  const [extensions] = useState<Extension[]>(() => [
+    basicSetup,
+    latexLanguage,
+    latexLanguage.data.of({ autocomplete: latexCompletionSource }),
+    autoCloseEnvironment,
+    EditorView.lineWrapping,
+    lintGutter(),
+    editorTheme,
+    EditorView.domEventHandlers({
+      paste: (event) => {
+        if (!event.clipboardData || !onPasteRef.current?.(clipboardDataFromTransfer(event.clipboardData))) {
+          return false;
+        }
+        event.preventDefault();
+        return true;
+      },
+    }),
+    EditorView.updateListener.of((update) => {
+      if (update.docChanged) {
+        onChangeRef.current(update.state.doc.toString());
+      }
+      if (update.docChanged || update.selectionSet) {
+        onCursorChangeRef.current?.(update.state.selection.main.head);
+      }
+    }),
+  ]);
+
+  useEffect(() => {
+    const view = new EditorView({
+      parent: containerRef.current!,
+      state: EditorState.create({ doc: valueRef.current, extensions }),
+    });
+    viewRef.current = view;
+
+    return () => {
+      view.destroy();
+      viewRef.current = null;
+    };
+  }, [extensions]);
+
+  // Mudanças feitas fora do editor (trocar de documento, limpar, restaurar...)
+  // começam um estado novo, para o desfazer não misturar documentos
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view || view.state.doc.toString() === value) return;
+
+    view.setState(EditorState.create({ doc: value, extensions }));
+  }, [value, extensions]);
+
+  // Depois do efeito acima: um estado novo começa sem sublinhados
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view) return;
+
+    // O editor não mostra código formatado: as crases dos catálogos saem do texto
+    const plain = (text: string) => text.replace(/`/g, "");
+    const length = view.state.doc.length;
+    const clamp = (offset: number) => Math.min(Math.max(offset, 0), length);
+    const marks: Diagnostic[] = diagnostics.map(({ severity, range, message, fix }) => {
+      const label = fix && formatLintFix(t.lint.fixes, message);
+      return {
+        from: clamp(range.start),
+        to: clamp(range.end),
+        severity,
+        message: plain(formatLintMessage(t.lint.messages, message)),
+        actions: fix
+          ? [
+              {
+                name: plain(label ?? t.lint.fix),
+                apply: (view) =>
+                  view.dispatch({
+                    changes: fix.map(({ range, text }) => ({ from: range.start, to: range.end, insert: text })),
+                    userEvent: "input",
+                  }),
+              },
+            ]
+          : undefined,
+      };
+    });
+    view.dispatch(setDiagnostics(view.state, marks));
+  }, [value, diagnostics, t]);
+
+  useImperativeHandle(ref, () => ({
+    select: (range) => {
+      const view = viewRef.current;
+      if (!view) return;
+
+      const length = view.state.doc.length;
+      const from = Math.min(range.start, length);
+      const to = Math.min(Math.max(range.end, range.start + 1), length);
+      view.dispatch({
+        selection: EditorSelection.range(from, to),
+        effects: EditorView.scrollIntoView(from, { y: "center" }),
+      });
+      view.focus();
+    },
+    replace: (edits) => {
+      viewRef.current?.dispatch({
+        changes: edits.map(({ range, text }) => ({ from: range.start, to: range.end, insert: text })),
+        userEvent: "input",
+      });
+    },
+    insertBlock: (text) => {
+      const view = viewRef.current;
+      if (!view) return;
+
+      const { from, to } = view.state.selection.main;
+      const doc = view.state.doc;
+      const before = from > 0 && doc.sliceString(from - 1, from) !== "\n" ? "\n" : "";
+      const after = to < doc.length && doc.sliceString(to, to + 1) !== "\n" ? "\n" : "";
+      const insert = before + text + after;
+      view.dispatch({
+        changes: { from, to, insert },
+        selection: EditorSelection.cursor(from + before.length + text.length),
+        effects: EditorView.scrollIntoView(from, { y: "center" }),
+        userEvent: "input",
+      });
+      view.focus();
+    },
+    focus: () => viewRef.current?.focus(),
+  }));
+
+  return <div ref={containerRef} className={fill ? "latex-editor fill" : "latex-editor"} />;
+});
@@ -0,0 +1,95 @@
+import { SourceRange, lineAt, offsetToLineColumn } from "../lib/sourcePosition";
+import { useI18n } from "../hooks/useI18n";
+
+export interface LatexError {
+  message: string;
+  /** Trecho do editor que causou o erro, quando o KaTeX informa a posição */
+  range: SourceRange | null;
+}
+
+interface LatexErrorPanelProps {
+  error: LatexError;
+  /** Texto completo do editor, para calcular linha/coluna */
+  source: string;
+  onLocate?: (range: SourceRange) => void;
+  /** Versão compacta, para erros em matemática dentro de um parágrafo */
+  compact?: boolean;
+}
+
+export function LatexErrorPanel({ error, source, onLocate, compact = false }: LatexErrorPanelProps) {
+  const { range } = error;
+  const { t } = useI18n();
+  const locate = range && onLocate ? () => onLocate(range) : undefined;
+
+  if (compact) {
+    return (
+      <button
+        type="button"
+        onClick={locate}
+        title={error.message}
+        style={{
+          border: "none",
+          background: "#fdecea",
+          color: "#c62828",
+          borderRadius: 4,
+          padding: "0 4px",
+          cursor: locate ? "pointer" : "default",
+          font: "inherit",
+        }}
+      >
+        ⚠
+      </button>
+    );
+  }
+
+  const position = range ? offsetToLineColumn(source, range.start) : null;
+  const line = range ? lineAt(source, range.start) : null;
+
+  return (
+    <div
+      role="alert"
+      style={{
+        margin: "8px 12px",
+        padding: "8px 12px",
+        borderRadius: 8,
+        border: "1px solid #f5c2c0",
+        background: "#fdecea",
+        color: "#8e1c1c",
+        fontSize: 14,
+      }}
+    >
+      <div style={{ display: "flex", justifyContent: "space-between", gap: 8, alignItems: "center" }}>
+        <strong>
+          {t.error.title}
+          {position && t.error.position(position.line, position.column)}
+        </strong>
+        {locate && (
+          <button type="button" onClick={locate}>
+            {t.error.locate}
+          </button>
+        )}
+      </div>
+      <div style={{ marginTop: 4 }}>{error.message}</div>
+
+      {range && line && (
+        <pre
+          style={{
+            margin: "8px 0 0",
+            padding: 8,
+            background: "white",
+            borderRadius: 4,
+            overflowX: "auto",
+            fontFamily: "monospace",
+          }}
+        >
+          {line.text.slice(0, range.start - line.start)}
+          <mark style={{ background: "#ffcdd2", color: "inherit" }}>
+            {/* Erros no fim da entrada não têm extensão: marca um espaço */}
+            {source.slice(range.start, Math.min(range.end, line.start + line.text.length)) || " "}
+          </mark>
+          {line.text.slice(Math.min(range.end, line.start + line.text.length) - line.start)}
+        </pre>
+      )}
+    </div>
+  );
+}
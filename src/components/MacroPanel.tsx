@@ -0,0 +1,87 @@
+import { ChangeEvent } from "react";
+import { MacroLibrary } from "../hooks/useMacroLibrary";
+import { MacroDefinition, formatMacro, mergeMacros, parseMacros, serializeLibrary } from "../lib/macros";
+import { downloadText } from "../lib/export";
+import { useI18n } from "../hooks/useI18n";
+import { FormattedText } from "./FormattedText";
+
+interface MacroPanelProps {
+  library: MacroLibrary;
+  /** Macros definidas no próprio documento */
+  detected: MacroDefinition[];
+}
+
+const smallButton = { fontSize: 12, padding: "2px 8px" };
+
+export function MacroPanel({ library, detected }: MacroPanelProps) {
+  const { t } = useI18n();
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    const imported = parseMacros(await file.text()).macros;
+    if (!imported.length) {
+      alert(t.macros.noneFound);
+      return;
+    }
+    library.setText(serializeLibrary(mergeMacros(library.macros, imported)));
+  };
+
+  const handleExport = () =>
+    downloadText(serializeLibrary(library.macros), "macros.sty", "application/x-tex");
+
+  // Copia para a biblioteca as macros do documento (as do documento prevalecem)
+  const handleAddDetected = () =>
+    library.setText(serializeLibrary(mergeMacros(library.macros, detected)));
+
+  return (
+    <details style={{ marginBottom: 8 }}>
+      <summary style={{ cursor: "pointer" }}>
+        {t.macros.summary(library.macros.length, detected.length)}
+      </summary>
+
+      <p style={{ fontSize: 12, color: "#666", margin: "4px 0" }}>
+        <FormattedText text={t.macros.help} />
+      </p>
+      <textarea
+        value={library.text}
+        onChange={(e) => library.setText(e.target.value)}
+        rows={6}
+        spellCheck={false}
+        style={{
+          width: "100%",
+          fontFamily: "monospace",
+          fontSize: 13,
+          borderRadius: 8,
+          padding: 8,
+          boxSizing: "border-box",
+        }}
+      />
+
+      <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+        <label style={{ ...smallButton, border: "1px solid #ccc", borderRadius: 4, cursor: "pointer" }}>
+          {t.macros.importSty}
+          <input type="file" accept=".sty,.tex,.txt" onChange={handleImport} style={{ display: "none" }} />
+        </label>
+        <button style={smallButton} onClick={handleExport}>
+          {t.macros.exportSty}
+        </button>
+        {detected.length > 0 && (
+          <button style={smallButton} onClick={handleAddDetected}>
+            {t.macros.addDetected}
+          </button>
+        )}
+      </div>
+
+      {detected.length > 0 && (
+        <ul style={{ fontSize: 12, fontFamily: "monospace", margin: "8px 0 0", paddingLeft: 20 }}>
+          {detected.map((macro) => (
+            <li key={macro.name}>{formatMacro(macro)}</li>
+          ))}
+        </ul>
+      )}
+    </details>
+  );
+}
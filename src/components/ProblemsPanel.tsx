@@ -0,0 +1,84 @@
+import { LintDiagnostic, formatLintFix, formatLintMessage } from "../lib/latexLint";
+import { SourceRange, TextEdit, offsetToLineColumn } from "../lib/sourcePosition";
+import { useI18n } from "../hooks/useI18n";
+import { FormattedText } from "./FormattedText";
+
+interface ProblemsPanelProps {
+  diagnostics: LintDiagnostic[];
+  /** Texto verificado, para calcular linha/coluna */
+  source: string;
+  onLocate: (range: SourceRange) => void;
+  onFix: (edits: TextEdit[]) => void;
+}
+
+const smallButton = { fontSize: 12, padding: "2px 8px" };
+
+const severityColors = {
+  error: "#c62828",
+  warning: "#ef6c00",
+};
+
+/** Lista dos problemas encontrados no código, com o atalho para o trecho e a correção */
+export function ProblemsPanel({ diagnostics, source, onLocate, onFix }: ProblemsPanelProps) {
+  const { t } = useI18n();
+  const errors = diagnostics.filter((d) => d.severity === "error").length;
+
+  return (
+    <details open style={{ marginTop: 8 }}>
+      <summary style={{ cursor: "pointer" }}>{t.lint.summary(errors, diagnostics.length - errors)}</summary>
+
+      {diagnostics.length === 0 ? (
+        <p style={{ fontSize: 12, color: "#666", margin: "4px 0" }}>{t.lint.none}</p>
+      ) : (
+        <ul style={{ listStyle: "none", padding: 0, margin: "4px 0", maxHeight: 200, overflowY: "auto" }}>
+          {diagnostics.map((diagnostic, index) => {
+            const { line, column } = offsetToLineColumn(source, diagnostic.range.start);
+            const fixLabel = formatLintFix(t.lint.fixes, diagnostic.message);
+            return (
+              <li
+                key={index}
+                style={{ display: "flex", gap: 8, alignItems: "baseline", fontSize: 12, padding: "2px 0" }}
+              >
+                <button
+                  type="button"
+                  onClick={() => onLocate(diagnostic.range)}
+                  title={t.lint.locate}
+                  style={{
+                    flex: 1,
+                    display: "flex",
+                    gap: 8,
+                    alignItems: "baseline",
+                    border: "none",
+                    background: "none",
+                    padding: 0,
+                    textAlign: "left",
+                    cursor: "pointer",
+                    font: "inherit",
+                  }}
+                >
+                  <span style={{ color: severityColors[diagnostic.severity], fontWeight: "bold" }}>
+                    {diagnostic.severity === "error" ? t.lint.error : t.lint.warning}
+                  </span>
+                  <span style={{ color: "#666", fontFamily: "monospace" }}>{t.lint.position(line, column)}</span>
+                  <span>
+                    <FormattedText text={formatLintMessage(t.lint.messages, diagnostic.message)} />
+                  </span>
+                </button>
+                {diagnostic.fix && (
+                  <button
+                    type="button"
+                    style={smallButton}
+                    onClick={() => onFix(diagnostic.fix!)}
+                    title={fixLabel?.replace(/`/g, "") ?? undefined}
+                  >
+                    {t.lint.fix}
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </details>
+  );
+}
@@ -0,0 +1,65 @@
+import { KeyboardEvent, PointerEvent, ReactNode, useRef, useState } from "react";
+import { useI18n } from "../hooks/useI18n";
+
+interface SplitViewProps {
+  /** Fração da largura ocupada pelo painel da esquerda */
+  ratio: number;
+  onRatioChange: (ratio: number) => void;
+  left: ReactNode;
+  right: ReactNode;
+}
+
+const KEYBOARD_STEP = 0.02;
+
+/** Dois painéis lado a lado, com um divisor que se arrasta (ou move pelas setas) */
+export function SplitView({ ratio, onRatioChange, left, right }: SplitViewProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [dragging, setDragging] = useState(false);
+  const { t } = useI18n();
+
+  const handlePointerDown = (e: PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragging(true);
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    const container = containerRef.current;
+    if (!dragging || !container) return;
+    const rect = container.getBoundingClientRect();
+    onRatioChange((e.clientX - rect.left) / rect.width);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === "ArrowLeft") onRatioChange(ratio - KEYBOARD_STEP);
+    else if (e.key === "ArrowRight") onRatioChange(ratio + KEYBOARD_STEP);
+    else return;
+    e.preventDefault();
+  };
+
+  // Durante o arraste, os iframes do preview não podem capturar o mouse
+  const paneStyle = { minWidth: 0, overflow: "auto", pointerEvents: dragging ? "none" : undefined } as const;
+
+  return (
+    <div ref={containerRef} className="split-view">
+      <div className="split-pane" style={{ ...paneStyle, flex: `0 0 ${ratio * 100}%` }}>
+        {left}
+      </div>
+      <div
+        className="split-divider"
+        role="separator"
+        aria-orientation="vertical"
+        aria-label={t.app.resizePanes}
+        aria-valuenow={Math.round(ratio * 100)}
+        tabIndex={0}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => setDragging(false)}
+        onDoubleClick={() => onRatioChange(0.5)}
+        onKeyDown={handleKeyDown}
+      />
+      <div className="split-pane" style={{ ...paneStyle, flex: 1 }}>
+        {right}
+      </div>
+    </div>
+  );
+}
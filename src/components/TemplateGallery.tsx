@@ -0,0 +1,259 @@
+import { ChangeEvent, useEffect, useMemo, useRef, useState } from "react";
+import { DocumentPreview } from "./DocumentPreview";
+import { TemplateLibrary } from "../hooks/useTemplateLibrary";
+import {
+  TEMPLATE_CATEGORIES,
+  Template,
+  TemplateCategory,
+  builtInTemplates,
+  matchesTemplate,
+  parseTemplates,
+  serializeTemplates,
+} from "../lib/templates";
+import { downloadText } from "../lib/export";
+import { useI18n } from "../hooks/useI18n";
+
+interface TemplateGalleryProps {
+  library: TemplateLibrary;
+  /** Insere o código do modelo no editor, na posição do cursor */
+  onInsert: (code: string) => void;
+  onClose: () => void;
+  /** Documento aberto, que pode ser salvo como modelo da equipe */
+  document: { name: string; content: string };
+}
+
+const smallButton = { fontSize: 12, padding: "2px 8px" };
+
+/** Miniatura renderizada só quando aparece na tela (os diagramas compilam um por vez, ver TikzPreview) */
+function TemplateThumbnail({ code }: { code: string }) {
+  const ref = useRef<HTMLDivElement>(null);
+  const [visible, setVisible] = useState(false);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element || visible) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((e) => e.isIntersecting)) setVisible(true);
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [visible]);
+
+  // Renderiza no dobro do tamanho e reduz, para caber mais do diagrama
+  return (
+    <div ref={ref} style={{ height: 140, overflow: "hidden", background: "#fafafa", pointerEvents: "none" }}>
+      {visible && (
+        <div style={{ width: "200%", transform: "scale(0.5)", transformOrigin: "top left" }}>
+          <DocumentPreview code={code} compact />
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Galeria de modelos: busca, categorias, miniaturas e os modelos da equipe */
+export function TemplateGallery({ library, onInsert, onClose, document }: TemplateGalleryProps) {
+  const [query, setQuery] = useState("");
+  const [category, setCategory] = useState<TemplateCategory | null>(null);
+  const [saveCategory, setSaveCategory] = useState<TemplateCategory>("team");
+  const teamIds = useMemo(() => new Set(library.templates.map((template) => template.id)), [library.templates]);
+  const { t } = useI18n();
+
+  // Modelos do app com nome e descrição no idioma da interface (a busca também usa esses)
+  const builtIn = useMemo(
+    () => builtInTemplates.map((template) => ({ ...template, ...t.templates.builtIn[template.id] })),
+    [t]
+  );
+
+  const templates = useMemo(
+    () =>
+      [...builtIn, ...library.templates].filter(
+        (template) => (category === null || template.category === category) && matchesTemplate(template, query)
+      ),
+    [builtIn, library.templates, category, query]
+  );
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => e.key === "Escape" && onClose();
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  const handleInsert = (template: Template) => {
+    onInsert(template.code);
+    onClose();
+  };
+
+  const handleSave = () => {
+    if (!document.content.trim()) {
+      alert(t.templates.emptyDocument);
+      return;
+    }
+    const name = prompt(t.templates.namePrompt, document.name);
+    if (!name?.trim()) return;
+    library.add({ name: name.trim(), category: saveCategory, code: document.content });
+    setCategory(saveCategory);
+  };
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    const imported = parseTemplates(await file.text());
+    if (!imported.length) {
+      alert(t.templates.noneInFile);
+      return;
+    }
+    library.merge(imported);
+  };
+
+  const handleExport = () => {
+    if (!library.templates.length) {
+      alert(t.templates.noTeamTemplates);
+      return;
+    }
+    downloadText(serializeTemplates(library.templates), t.templates.exportFilename, "application/json");
+  };
+
+  const handleRemove = (template: Template) => {
+    if (confirm(t.templates.confirmRemove(template.name))) library.remove(template.id);
+  };
+
+  const tab = (id: TemplateCategory | null, label: string) => (
+    <button
+      key={id ?? "all"}
+      aria-pressed={category === id}
+      onClick={() => setCategory(id)}
+      style={{ ...smallButton, fontWeight: category === id ? "bold" : undefined }}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div
+      onClick={onClose}
+      style={{
+        position: "fixed",
+        inset: 0,
+        zIndex: 1000,
+        background: "rgba(0,0,0,0.35)",
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+      }}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label={t.templates.title}
+        onClick={(e) => e.stopPropagation()}
+        style={{
+          background: "white",
+          borderRadius: 12,
+          padding: 16,
+          width: "min(1000px, 92vw)",
+          maxHeight: "88vh",
+          display: "flex",
+          flexDirection: "column",
+          gap: 8,
+          boxShadow: "0 8px 24px rgba(0,0,0,0.2)",
+        }}
+      >
+        <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+          <h3 style={{ margin: 0 }}>{t.templates.title}</h3>
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={t.templates.search}
+            style={{ flex: 1, fontSize: 14, padding: "4px 8px" }}
+          />
+          <button onClick={onClose} aria-label={t.templates.close}>
+            ×
+          </button>
+        </div>
+
+        <div style={{ display: "flex", gap: 4, flexWrap: "wrap" }}>
+          {tab(null, t.templates.all)}
+          {TEMPLATE_CATEGORIES.map((c) => tab(c, t.templates.categories[c]))}
+        </div>
+
+        <div
+          style={{
+            flex: 1,
+            minHeight: 0,
+            overflow: "auto",
+            display: "grid",
+            gridTemplateColumns: "repeat(auto-fill, minmax(200px, 1fr))",
+            gap: 8,
+          }}
+        >
+          {templates.length === 0 && <p style={{ color: "#666" }}>{t.templates.noneFound}</p>}
+          {templates.map((template) => (
+            <div
+              key={template.id}
+              role="button"
+              tabIndex={0}
+              title={t.templates.insertHint}
+              onClick={() => handleInsert(template)}
+              onKeyDown={(e) => e.key === "Enter" && handleInsert(template)}
+              style={{
+                border: "1px solid #ddd",
+                borderRadius: 8,
+                overflow: "hidden",
+                cursor: "pointer",
+              }}
+            >
+              <TemplateThumbnail code={template.code} />
+              <div style={{ padding: "4px 8px" }}>
+                <div style={{ fontSize: 13, fontWeight: "bold" }}>{template.name}</div>
+                {template.description && <div style={{ fontSize: 12, color: "#666" }}>{template.description}</div>}
+                {teamIds.has(template.id) && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleRemove(template);
+                    }}
+                    style={{ ...smallButton, marginTop: 4 }}
+                  >
+                    {t.templates.remove}
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap", fontSize: 12 }}>
+          <button style={smallButton} onClick={handleSave}>
+            {t.templates.saveCurrent}
+          </button>
+          <label>
+            {t.templates.saveIn}{" "}
+            <select
+              value={saveCategory}
+              onChange={(e) => setSaveCategory(e.target.value as TemplateCategory)}
+              style={{ fontSize: 12 }}
+            >
+              {TEMPLATE_CATEGORIES.map((c) => (
+                <option key={c} value={c}>
+                  {t.templates.categories[c]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <span style={{ marginLeft: "auto" }} />
+          <label style={{ ...smallButton, border: "1px solid #ccc", borderRadius: 4, cursor: "pointer" }}>
+            {t.templates.importJson}
+            <input type="file" accept=".json,application/json" onChange={handleImport} style={{ display: "none" }} />
+          </label>
+          <button style={smallButton} onClick={handleExport}>
+            {t.templates.exportTeam}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+import { useMemo, useState } from "react";
+import {
+  AVAILABLE_TEX_PACKAGES,
+  COMMON_TIKZ_LIBRARIES,
+  TikzPreambleConfig,
+  detectPreamble,
+} from "../lib/tikzPreamble";
+import { splitSegments } from "../lib/segments";
+import { useI18n } from "../hooks/useI18n";
+import { FormattedText } from "./FormattedText";
+
+interface TikzPreamblePanelProps {
+  /** Configuração fixada no documento */
+  pinned: TikzPreambleConfig;
+  onChange: (config: TikzPreambleConfig) => void;
+  /** \usetikzlibrary, \usepackage e \tikzset escritos no texto */
+  declared: TikzPreambleConfig;
+  source: string;
+}
+
+const smallButton = { fontSize: 12, padding: "2px 8px" };
+
+const tagStyle = {
+  fontSize: 12,
+  fontFamily: "monospace",
+  background: "#eef3ff",
+  border: "1px solid #c9d6f5",
+  borderRadius: 4,
+  padding: "0 4px",
+};
+
+export function TikzPreamblePanel({ pinned, onChange, declared, source }: TikzPreamblePanelProps) {
+  const [customLibrary, setCustomLibrary] = useState("");
+  const { t } = useI18n();
+
+  // O que os diagramas do documento usam sem ter declarado
+  const detected = useMemo(() => {
+    const code = splitSegments(source)
+      .filter((s) => s.kind === "tikz")
+      .map((s) => s.content)
+      .join("\n");
+    return detectPreamble(code);
+  }, [source]);
+
+  const declaredOrDetected = new Set([...declared.libraries, ...detected.libraries]);
+  const libraryOptions = [...new Set([...COMMON_TIKZ_LIBRARIES, ...pinned.libraries])];
+
+  const toggleLibrary = (library: string, checked: boolean) =>
+    onChange({
+      ...pinned,
+      libraries: checked ? [...pinned.libraries, library] : pinned.libraries.filter((l) => l !== library),
+    });
+
+  const togglePackage = (name: string, checked: boolean) => {
+    const packages = { ...pinned.packages };
+    if (checked) packages[name] = "";
+    else delete packages[name];
+    onChange({ ...pinned, packages });
+  };
+
+  const handleAddLibrary = () => {
+    const names = customLibrary
+      .split(",")
+      .map((n) => n.trim())
+      .filter((n) => n && !pinned.libraries.includes(n));
+    if (names.length) onChange({ ...pinned, libraries: [...pinned.libraries, ...names] });
+    setCustomLibrary("");
+  };
+
+  const pinnedCount = pinned.libraries.length + Object.keys(pinned.packages).length;
+
+  return (
+    <details style={{ marginBottom: 8 }}>
+      <summary style={{ cursor: "pointer" }}>
+        {t.tikzPreamble.summary(pinnedCount, declaredOrDetected.size)}
+      </summary>
+
+      <p style={{ fontSize: 12, color: "#666", margin: "4px 0" }}>
+        <FormattedText text={t.tikzPreamble.help} />
+      </p>
+
+      {declaredOrDetected.size > 0 && (
+        <div style={{ display: "flex", gap: 4, flexWrap: "wrap", alignItems: "center", margin: "4px 0" }}>
+          <span style={{ fontSize: 12, color: "#555" }}>{t.tikzPreamble.fromDocument}</span>
+          {[...declaredOrDetected].map((library) => (
+            <span key={library} style={tagStyle}>
+              {library}
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div style={{ fontSize: 12, fontWeight: "bold", marginTop: 8 }}>{t.tikzPreamble.pinnedLibraries}</div>
+      <div style={{ display: "flex", gap: "2px 12px", flexWrap: "wrap", fontSize: 12 }}>
+        {libraryOptions.map((library) => (
+          <label key={library} style={{ display: "flex", gap: 2, alignItems: "center", fontFamily: "monospace" }}>
+            <input
+              type="checkbox"
+              checked={pinned.libraries.includes(library)}
+              onChange={(e) => toggleLibrary(library, e.target.checked)}
+            />
+            {library}
+          </label>
+        ))}
+      </div>
+      <div style={{ display: "flex", gap: 4, marginTop: 4 }}>
+        <input
+          value={customLibrary}
+          onChange={(e) => setCustomLibrary(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && handleAddLibrary()}
+          placeholder={t.tikzPreamble.otherLibraries}
+          style={{ fontSize: 12, flex: 1, fontFamily: "monospace" }}
+        />
+        <button style={smallButton} onClick={handleAddLibrary} disabled={!customLibrary.trim()}>
+          {t.tikzPreamble.pin}
+        </button>
+      </div>
+
+      <div style={{ fontSize: 12, fontWeight: "bold", marginTop: 8 }}>{t.tikzPreamble.packages}</div>
+      <div style={{ display: "flex", gap: "2px 12px", flexWrap: "wrap", fontSize: 12 }}>
+        {AVAILABLE_TEX_PACKAGES.map((name) => (
+          <label key={name} style={{ display: "flex", gap: 2, alignItems: "center", fontFamily: "monospace" }}>
+            <input
+              type="checkbox"
+              checked={name in pinned.packages}
+              onChange={(e) => togglePackage(name, e.target.checked)}
+            />
+            {name}
+            {(name in declared.packages || name in detected.packages) && t.tikzPreamble.inUse}
+          </label>
+        ))}
+      </div>
+
+      <div style={{ fontSize: 12, fontWeight: "bold", marginTop: 8 }}>
+        <FormattedText text={t.tikzPreamble.sharedStyles} />
+      </div>
+      <textarea
+        value={pinned.tikzset}
+        onChange={(e) => onChange({ ...pinned, tikzset: e.target.value })}
+        rows={3}
+        spellCheck={false}
+        placeholder="every node/.style={draw, circle}, seta/.style={-Stealth, thick}"
+        style={{
+          width: "100%",
+          fontFamily: "monospace",
+          fontSize: 13,
+          borderRadius: 8,
+          padding: 8,
+          boxSizing: "border-box",
+        }}
+      />
+    </details>
+  );
+}
@@ -1,153 +1,335 @@
 // src/components/TikzPreview.tsx
-import { useMemo } from "react";
+import { useCallback, useEffect, useId, useMemo, useRef, useState } from "react";
+import { hashString } from "../lib/hash";
+import {
+  TIKZ_COMPILE_DEBOUNCE_MS,
+  TIKZ_COMPILE_TIMEOUT_MS,
+  TIKZ_MESSAGE_SOURCE,
+  TIKZ_PREVIEW_THROTTLE_MS,
+  TikzCompileStatus,
+  TikzFrameRequest,
+  TikzGraphOverlay,
+  TikzGraphTool,
+  TikzMessage,
+  isTikzMessage,
+} from "../lib/tikzMessages";
+import { TikzView, TikzViewerLabels, defaultTikzView, sameTikzView, viewerScript } from "../lib/tikzViewer";
+import { CachedRender, cacheRender, getCachedRender, peekCachedRender } from "../lib/tikzCache";
+import { revealInScrollParent } from "../lib/sourceMap";
+import { SourceRange, TextEdit } from "../lib/sourcePosition";
+import { addEdge, addNode, deleteNode, moveNode, parseTikzGraph, setNodeLabel } from "../lib/tikzGraph";
+import { describeTikz } from "../lib/tikzSummary";
+import {
+  PlotParameter,
+  SliderBounds,
+  isPlot,
+  parsePlotParameters,
+  setParameterValue,
+  sliderBounds,
+} from "../lib/plotParameters";
+import { useI18n } from "../hooks/useI18n";
+import { FormattedText } from "./FormattedText";
+import { ExportMenu } from "./ExportMenu";
+import { standaloneSvg } from "../lib/export";
+import { TIKZJAX_FONTS_URL, TIKZJAX_SCRIPT_URL } from "../lib/tikzjax";
+import { TransformPass, transformPasses } from "../lib/transforms";
+import { MacroDefinition } from "../lib/macros";
+import { prepareTikz } from "../lib/preprocess";
+import { TikzPreambleConfig, emptyTikzPreamble, formatPreamble, unavailablePackages } from "../lib/tikzPreamble";
 
 interface TikzPreviewProps {
   code: string;
+  /** Posição de `code` no texto do editor, para a navegação entre os dois */
+  sourceOffset?: number;
+  /** Seleciona no editor o código de um nó clicado */
+  onLocate?: (range: SourceRange) => void;
+  /** Posição do cursor no editor: o nó correspondente fica destacado */
+  cursor?: number;
+  /** Macros do usuário, injetadas no preâmbulo do TeX */
+  macros?: MacroDefinition[];
+  /** Bibliotecas, pacotes e estilos do documento (somados aos detectados no código) */
+  preamble?: TikzPreambleConfig;
+  /** Correções aplicadas ao código antes de compilar (ver transforms.ts) */
+  transforms?: TransformPass[];
+  /** Aplica no editor as edições do editor visual (posições do editor); sem ele, o modo fica oculto */
+  onEdit?: (edits: TextEdit[]) => void;
+  /** Só o diagrama, sem exportação nem avisos (ex.: miniaturas da galeria de modelos) */
+  compact?: boolean;
+  /** Zoom e pan do visualizador (ver tikzViewer.ts); sem ele, o visualizador guarda os seus */
+  view?: TikzView;
+  /** Zoom ou pan feito pelo usuário no visualizador */
+  onViewChange?: (view: TikzView) => void;
 }
 
-/**
- * Normaliza automaticamente caracteres não-ASCII para ASCII/LaTeX.
- * Substitui acentos e símbolos unicode por suas versões compatíveis.
- */
-function normalizeToAscii(text: string): string {
-  // Se o texto já é ASCII puro, não altera nada
-  if (!/[^\x00-\x7F]/.test(text)) {
-    return text
-  }
+const noMacros: MacroDefinition[] = [];
 
-  // Primeiro remove marcas de acentuação mantendo o caractere base
-  let normalized = text.normalize('NFD').replace(/[\u0300-\u036f]/g, '')
-  
-  // Normaliza vírgulas unicode problemáticas para vírgula ASCII padrão
-  // Garante que vírgulas sejam sempre preservadas corretamente
-  // U+201A (single low-9 quotation mark), U+FF0C (fullwidth comma) → vírgula ASCII normal
-  normalized = normalized.replace(/[\u201A\uFF0C]/g, ',')
-  
-  // Mapa de substituições: caractere unicode -> versão ASCII/LaTeX
-  const replacements: Record<string, string> = {
-    // Símbolos matemáticos comuns
-    'ε': '\\varepsilon',
-    '→': '\\to',
-    '←': '\\leftarrow',
-    '≥': '\\geq',
-    '≤': '\\leq',
-    '≠': '\\neq',
-    '≈': '\\approx',
-    '±': '\\pm',
-    '×': '\\times',
-    '÷': '\\div',
-    '∞': '\\infty',
-    '∑': '\\sum',
-    '∏': '\\prod',
-    '∫': '\\int',
-    '√': '\\sqrt',
-    'α': '\\alpha',
-    'β': '\\beta',
-    'γ': '\\gamma',
-    'δ': '\\delta',
-    'θ': '\\theta',
-    'λ': '\\lambda',
-    'μ': '\\mu',
-    'π': '\\pi',
-    'σ': '\\sigma',
-    'φ': '\\phi',
-    'ω': '\\omega',
-    'Δ': '\\Delta',
-    'Γ': '\\Gamma',
-    'Λ': '\\Lambda',
-    'Σ': '\\Sigma',
-    'Ω': '\\Omega',
-    'Φ': '\\Phi',
-    'Ψ': '\\Psi',
-    '∈': '\\in',
-    '∉': '\\notin',
-    '⊂': '\\subset',
-    '⊃': '\\supset',
-    '⊆': '\\subseteq',
-    '⊇': '\\supseteq',
-    '∪': '\\cup',
-    '∩': '\\cap',
-    '∅': '\\emptyset',
-    '∧': '\\wedge',
-    '∨': '\\vee',
-    '¬': '\\neg',
-    '∀': '\\forall',
-    '∃': '\\exists',
-    '⇒': '\\Rightarrow',
-    '⇐': '\\Leftarrow',
-    '⇔': '\\Leftrightarrow',
-    '⊕': '\\oplus',
-    '⊗': '\\otimes',
-    '⊥': '\\perp',
-    '∥': '\\parallel',
-    '∠': '\\angle',
-  };
+/** Identifica a renderização: muda com o código ou com o preâmbulo */
+function tikzRenderId(libraries: string, packages: string, texPreamble: string, compiledCode: string): string {
+  return hashString([libraries, packages, texPreamble, compiledCode].join("\n"));
+}
 
-  // Aplica todas as substituições
-  for (const [unicode, ascii] of Object.entries(replacements)) {
-    normalized = normalized.replace(new RegExp(unicode, 'g'), ascii);
-  }
+// Miniaturas (compact) compilam uma por vez: cada iframe carrega o TeX (WASM) inteiro,
+// e várias ao mesmo tempo travam o app
+const compactTurns: (() => void)[] = [];
+let compactBusy = false;
 
-  return normalized;
+function nextCompactTurn() {
+  const start = compactTurns.shift();
+  if (start) start();
+  else compactBusy = false;
 }
 
-/**
- * Corrige vírgulas dentro de expressões matemáticas para renderizar corretamente no TikZJax
- * Substitui vírgulas por \text{,} para evitar o bug do "c elevado"
- */
-function fixCommasInMath(text: string): string {
-  // Substitui vírgulas dentro de expressões matemáticas ($...$) por \text{,}
-  // Isso força a vírgula a ser renderizada como texto, não como símbolo matemático
-  return text.replace(/\$([^$]+)\$/g, (_match, content) => {
-    // Substitui vírgulas que estão entre termos matemáticos por \text{,}
-    // Preserva a aparência visual mas corrige o bug do TikZJax
-    const fixed = content.replace(/,/g, '\\text{,}');
-    return `$${fixed}$`;
-  });
+/** Chama `start` quando for a vez desta miniatura; a função devolvida libera a vez (ou sai da fila) */
+function takeCompactTurn(start: () => void): () => void {
+  let running = false;
+  const run = () => {
+    running = true;
+    start();
+  };
+  if (compactBusy) {
+    compactTurns.push(run);
+  } else {
+    compactBusy = true;
+    run();
+  }
+  return () => {
+    const waiting = compactTurns.indexOf(run);
+    if (waiting !== -1) compactTurns.splice(waiting, 1);
+    else if (running) nextCompactTurn();
+    running = false;
+  };
 }
 
-export function TikzPreview({ code }: TikzPreviewProps) {
-  const trimmed = code.trim();
-  
-  // Primeiro corrige vírgulas em modo matemático
-  const fixedCommas = useMemo(() => fixCommasInMath(trimmed), [trimmed]);
-  
-  // Depois normaliza automaticamente caracteres não-ASCII
-  const normalizedCode = useMemo(() => normalizeToAscii(fixedCommas), [fixedCommas]);
+/** Miniatura pronta: só o SVG e as fontes, sem carregar o TikZJax */
+function staticSrcDoc(svg: string): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<link rel="stylesheet" href="${TIKZJAX_FONTS_URL}">
+<style>
+  html, body { margin: 0; height: 100%; }
+  body { display: flex; align-items: center; justify-content: center; }
+  svg { max-width: 100%; max-height: 100%; height: auto; }
+</style>
+</head>
+<body>${svg}</body>
+</html>`;
+}
 
-  const srcDoc = useMemo(() => {
-    if (!normalizedCode) {
-      return `
-        <!DOCTYPE html>
-        <html>
-          <head>
-            <meta charset="utf-8" />
-            <style>
-              body {
-                font-family: system-ui, sans-serif;
-                color: #666;
-                padding: 12px;
-              }
-            </style>
-          </head>
-          <body>
-            Digite um código com <code>\\begin{tikzpicture}</code> para ver o diagrama aqui.
-          </body>
-        </html>
-      `;
-    }
+export function TikzPreview({
+  code,
+  sourceOffset = 0,
+  onLocate,
+  cursor,
+  macros = noMacros,
+  preamble = emptyTikzPreamble,
+  transforms = transformPasses,
+  onEdit,
+  compact = false,
+  view,
+  onViewChange,
+}: TikzPreviewProps) {
+  const { locale, t } = useI18n();
+
+  // Código corrigido para o TikZJax (vírgulas em fórmulas, unicode...), com o
+  // preâmbulo que ele exige (ver preprocess.ts)
+  const prepared = useMemo(
+    () => prepareTikz(code, { transforms, preamble, macros }),
+    [code, transforms, preamble, macros]
+  );
+  const { code: normalizedCode, texCode: compiledCode, config, texPreamble } = prepared;
+  const missingPackages = unavailablePackages(config);
 
-    // Escapa apenas </script para não quebrar a tag HTML
-    const safeCode = normalizedCode.replace(/<\/script/gi, "<\\/script");
+  const libraries = config.libraries.join(",");
+  const packages = JSON.stringify(config.packages);
 
+  const renderId = useMemo(
+    () => tikzRenderId(libraries, packages, texPreamble, compiledCode),
+    [libraries, packages, texPreamble, compiledCode]
+  );
+
+  // O documento do iframe não muda: cada código novo chega por postMessage
+  // (ver tikzMessages.ts), sem recarregar o TikZJax
+  const srcDoc = useMemo(() => {
     return `
       <!DOCTYPE html>
       <html>
         <head>
           <meta charset="utf-8" />
           <meta name="viewport" content="width=device-width, initial-scale=1.0, maximum-scale=50.0, user-scalable=yes">
-          <link rel="stylesheet" type="text/css" href="https://tikzjax.com/v1/fonts.css">
-          <script src="https://tikzjax.com/v1/tikzjax.js"></script>
+          <script>
+            // Canal com o React (ver src/lib/tikzMessages.ts). Compila um código por vez;
+            // o que chega durante uma compilação espera, e só o mais recente é mantido.
+            // Precisa rodar antes do tikzjax.js para capturar o log do TeX no console.
+            (function() {
+              let job = null;
+              let pending = null;
+              let log = [];
+              let errorTimer = null;
+              let errorStart = -1;
+              let compileTimer = null;
+
+              function post(message) {
+                parent.postMessage(Object.assign({ source: '${TIKZ_MESSAGE_SOURCE}' }, message), '*');
+              }
+
+              function collect(args) {
+                if (!job) return;
+                const lines = args.map(String).join(' ').split('\\n');
+                for (const line of lines) {
+                  if (!line.trim()) continue;
+                  log.push(line);
+                  // Erros do TeX começam com "! "; espera as linhas seguintes
+                  // (contexto e "l.<n>") antes de reportar
+                  if (line.startsWith('! ') && errorTimer === null) {
+                    errorStart = log.length - 1;
+                    errorTimer = setTimeout(fail, 300);
+                  }
+                }
+              }
+
+              function staging() {
+                return document.getElementById('tikzStaging');
+              }
+
+              // Encerra a compilação atual e passa para a próxima, se houver
+              function finish(message) {
+                if (!job) return;
+                clearTimeout(errorTimer);
+                clearTimeout(compileTimer);
+                post(Object.assign({ renderId: job.renderId }, message));
+                job = null;
+                staging().replaceChildren();
+                if (pending) {
+                  const next = pending;
+                  pending = null;
+                  start(next);
+                }
+              }
+
+              // Reporta as linhas do erro do TeX ou, sem elas, o fim do log
+              function fail() {
+                finish({
+                  type: 'compile-error',
+                  log: errorStart >= 0 ? log.slice(errorStart, errorStart + 12) : log.slice(-20),
+                });
+              }
+
+              function succeed(svg) {
+                if (!job) return;
+                let bbox;
+                try {
+                  const b = svg.getBBox();
+                  bbox = { x: b.x, y: b.y, width: b.width, height: b.height };
+                } catch (e) {
+                  const r = svg.getBoundingClientRect();
+                  bbox = { x: 0, y: 0, width: r.width, height: r.height };
+                }
+                const markup = svg.outerHTML;
+                // Um resultado que já foi substituído por outro pedido não é mostrado,
+                // mas ainda vai para o React (e para o cache)
+                if (!job.superseded) window.tikzViewer.show(svg, job.renderId);
+                finish({ type: 'compile-success', bbox: bbox, svg: markup });
+              }
+
+              function start(request) {
+                job = request;
+                log = [];
+                errorTimer = null;
+                errorStart = -1;
+                post({ type: 'compile-start', renderId: request.renderId });
+
+                // O TikZJax observa o documento e compila cada <script type="text/tikz"> novo;
+                // o resultado fica escondido até terminar, e o diagrama anterior continua visível
+                const script = document.createElement('script');
+                script.type = 'text/tikz';
+                script.dataset.showConsole = 'true';
+                script.dataset.disableCache = 'true';
+                script.dataset.tikzLibraries = request.libraries;
+                script.dataset.texPackages = request.packages;
+                script.dataset.addToPreamble = request.preamble;
+                script.textContent = request.code;
+                staging().appendChild(script);
+
+                compileTimer = setTimeout(() => {
+                  finish({ type: 'compile-timeout', log: log.slice(-20) });
+                }, ${TIKZ_COMPILE_TIMEOUT_MS});
+              }
+
+              window.addEventListener('message', (event) => {
+                const request = event.data;
+                if (event.source !== parent || !request || request.source !== '${TIKZ_MESSAGE_SOURCE}') return;
+
+                if (request.type === 'highlight') {
+                  window.tikzViewer.highlight(request.offset);
+                  return;
+                }
+                if (request.type === 'graph') {
+                  window.tikzGraph.set(request.overlay);
+                  return;
+                }
+                if (request.type === 'describe') {
+                  window.tikzViewer.describe(request.description);
+                  return;
+                }
+                if (request.type === 'labels') {
+                  window.tikzViewer.setLabels(request.lang, request.labels);
+                  return;
+                }
+                if (request.type === 'view') {
+                  window.tikzViewer.setView(request.view);
+                  return;
+                }
+
+                if (job) job.superseded = true;
+                if (request.type === 'show') {
+                  pending = null;
+                  window.tikzViewer.show(request.svg, request.renderId);
+                } else if (request.type === 'compile') {
+                  if (job) pending = request;
+                  else start(request);
+                }
+              });
+
+              ['log', 'info', 'warn', 'error'].forEach((method) => {
+                const original = console[method];
+                console[method] = function() {
+                  collect(Array.prototype.slice.call(arguments));
+                  return original.apply(console, arguments);
+                };
+              });
+
+              window.tikzStatus = {
+                ready: () => post({ type: 'ready' }),
+                locate: (range) => post({ type: 'locate', range: range }),
+                view: (view) => post({ type: 'view-change', view: view }),
+                graph: post,
+                succeed: succeed,
+                fail: fail,
+              };
+
+              // Com origem opaca (iframe sandbox) o IndexedDB lança SecurityError, e o
+              // tikzjax.js abre o banco do cache ao carregar. O cache fica desligado
+              // (data-disable-cache); o banco falso só evita que o script quebre.
+              try {
+                indexedDB.open('tikzjax-probe');
+              } catch (e) {
+                Object.defineProperty(window, 'indexedDB', {
+                  configurable: true,
+                  value: {
+                    open: function() {
+                      const request = Promise.reject(e);
+                      request.addEventListener = function() {};
+                      return request;
+                    },
+                  },
+                });
+              }
+            })();
+          </script>
+          <link rel="stylesheet" type="text/css" href="${TIKZJAX_FONTS_URL}">
+          <script src="${TIKZJAX_SCRIPT_URL}"></script>
           <style>
             * {
               box-sizing: border-box;
@@ -176,23 +358,35 @@ export function TikzPreview({ code }: TikzPreviewProps) {
             .tikzjax-container.dragging {
               cursor: grabbing;
             }
+            .tikzjax-container:focus-visible {
+              outline: 3px solid #1e88e5;
+              outline-offset: -3px;
+            }
+            .zoom-btn:focus-visible {
+              outline: 3px solid #1e88e5;
+              outline-offset: 1px;
+            }
+            .sr-only {
+              position: absolute;
+              width: 1px;
+              height: 1px;
+              overflow: hidden;
+              clip: rect(0 0 0 0);
+              white-space: nowrap;
+            }
             .tikzjax {
               width: 100%;
               height: 100%;
               display: flex;
               justify-content: center;
               align-items: center;
-              padding: 20px;
               transform-origin: center center;
               transition: transform 0.1s ease-out;
             }
-            /* SVG responsivo */
-            svg {
-              max-width: 100%;
-              max-height: 100%;
-              width: auto;
-              height: auto;
+            /* O diagrama no tamanho do SVG; o zoom vem do transform (ver src/lib/tikzViewer.ts) */
+            .tikzjax svg {
               display: block;
+              flex: none;
             }
             /* Controles de zoom */
             .zoom-controls {
@@ -201,12 +395,12 @@ export function TikzPreview({ code }: TikzPreviewProps) {
               right: 10px;
               z-index: 1000;
               display: flex;
-              flex-direction: column;
-              gap: 8px;
+              align-items: center;
+              gap: 4px;
             }
             .zoom-btn {
-              width: 40px;
-              height: 40px;
+              width: 32px;
+              height: 32px;
               border: 1px solid #ccc;
               background: white;
               border-radius: 4px;
@@ -224,272 +418,1013 @@ export function TikzPreview({ code }: TikzPreviewProps) {
             .zoom-btn:active {
               background: #e0e0e0;
             }
-            .zoom-reset {
-              font-size: 16px;
+            .zoom-btn[aria-pressed="true"] {
+              background: #e3f2fd;
+              border-color: #1e88e5;
+            }
+            .zoom-mode {
+              font-size: 14px;
+            }
+            .zoom-actual {
+              font-size: 11px;
+            }
+            .zoom-level {
+              min-width: 44px;
+              padding: 2px 4px;
+              border-radius: 4px;
+              background: rgba(255, 255, 255, 0.9);
+              font: 12px sans-serif;
+              text-align: center;
+            }
+            /* Minimapa: o diagrama inteiro e a parte visível */
+            .minimap {
+              position: absolute;
+              right: 10px;
+              bottom: 10px;
+              z-index: 1000;
+              border: 1px solid #ccc;
+              border-radius: 4px;
+              background: white;
+              box-shadow: 0 2px 4px rgba(0,0,0,0.1);
+              cursor: crosshair;
+            }
+            .minimap svg {
+              display: block;
+              width: 100%;
+              height: 100%;
+              pointer-events: none;
+            }
+            .minimap-view {
+              position: absolute;
+              border: 1.5px solid #1e88e5;
+              background: rgba(30, 136, 229, 0.12);
+              pointer-events: none;
+            }
+            /* Nós com posição no código (ver src/lib/sourceMap.ts) */
+            [data-src] {
+              cursor: pointer;
+            }
+            .sync-highlight {
+              filter: drop-shadow(0 0 1.5px #ff9800) drop-shadow(0 0 1.5px #ff9800);
+            }
+            /* Editor visual: alças sobre os nós */
+            .graph-layer {
+              position: absolute;
+              top: 0;
+              left: 0;
+              width: 100%;
+              height: 100%;
+              pointer-events: none;
+              z-index: 500;
+            }
+            .graph-editing .tikzjax {
+              transition: none;
+            }
+            .graph-editing.tool-node {
+              cursor: copy;
+            }
+            .graph-handle {
+              fill: rgba(25, 118, 210, 0.12);
+              stroke: #1976d2;
+              stroke-width: 1.5;
+              stroke-dasharray: 3 2;
+              pointer-events: all;
+              cursor: move;
+            }
+            .tool-edge .graph-handle {
+              cursor: crosshair;
+            }
+            .graph-handle.selected {
+              stroke-dasharray: none;
+              stroke-width: 2.5;
+            }
+            .graph-rubber {
+              stroke: #1976d2;
+              stroke-width: 1.5;
+              stroke-dasharray: 4 3;
+            }
+            .graph-coordinate {
+              font: 11px sans-serif;
+              fill: #1976d2;
+            }
+            /* Onde o TikZJax compila: fora da tela, mas com layout (getBBox funciona) */
+            #tikzStaging {
+              position: absolute;
+              left: -10000px;
+              top: 0;
+              visibility: hidden;
             }
           </style>
         </head>
         <body>
-          <div class="tikzjax-container" id="tikzContainer">
-            <div class="tikzjax" id="tikzContent">
-              <script type="text/tikz">
-${safeCode}
-              </script>
-            </div>
-            <div class="zoom-controls">
-              <button class="zoom-btn" id="zoomIn">+</button>
-              <button class="zoom-btn zoom-reset" id="zoomReset">⌂</button>
-              <button class="zoom-btn" id="zoomOut">−</button>
+          <!-- Os textos (aria-label, title) chegam do React, no idioma da interface -->
+          <div class="tikzjax-container" id="tikzContainer" tabindex="0" role="application">
+            <div class="tikzjax" id="tikzContent" role="img"></div>
+            <div id="tikzStaging" aria-hidden="true"></div>
+            <svg class="graph-layer" id="graphLayer" aria-hidden="true"></svg>
+            <div class="zoom-controls" id="zoomControls" role="toolbar">
+              <button class="zoom-btn" data-action="zoom-out">−</button>
+              <span class="zoom-level" id="zoomLevel">100%</span>
+              <button class="zoom-btn" data-action="zoom-in">+</button>
+              <button class="zoom-btn zoom-mode" data-action="fit">⌂</button>
+              <button class="zoom-btn zoom-mode" data-action="fit-width">↔</button>
+              <button class="zoom-btn zoom-mode" data-action="fit-height">↕</button>
+              <button class="zoom-btn zoom-actual" data-action="actual-size">1:1</button>
             </div>
+            <div class="minimap" id="minimap" role="img" hidden><div class="minimap-view" id="minimapView"></div></div>
+            <div class="sr-only" id="viewerStatus" aria-live="polite"></div>
           </div>
           <script>
+            // Zoom, pan, minimapa e navegação com o editor (ver src/lib/tikzViewer.ts)
+            ${viewerScript(`{
+              locate: (range) => window.tikzStatus.locate(range),
+              viewChange: (view) => window.tikzStatus.view(view),
+              layout: () => window.tikzGraph && window.tikzGraph.layout(),
+              refresh: () => window.tikzGraph && window.tikzGraph.refresh(),
+            }`)}
+
+            (function() {
+              const staging = document.getElementById('tikzStaging');
+
+              // O tikzjax.js dispara 'tikzjax-load-finished' no <svg> gerado
+              // (antes disso, o que aparece é um <svg> de carregamento)
+              staging.addEventListener('tikzjax-load-finished', (e) => window.tikzStatus.succeed(e.target));
+
+              // Quando o TeX falha, o TikZJax troca o loader por uma <img> quebrada
+              new MutationObserver(() => {
+                if (staging.querySelector('img')) window.tikzStatus.fail();
+              }).observe(staging, { childList: true, subtree: true });
+
+              // O TikZJax começa a observar o documento no 'load'
+              if (document.readyState === 'complete') window.tikzStatus.ready();
+              else window.addEventListener('load', () => window.tikzStatus.ready());
+            })();
+          </script>
+          <script>
+            // Editor visual (ver src/lib/tikzGraph.ts): alças sobre os nós do código para
+            // arrastar, criar e ligar nós. Cada edição vai para o React, que muda o código.
             (function() {
               const container = document.getElementById('tikzContainer');
               const content = document.getElementById('tikzContent');
-              const zoomInBtn = document.getElementById('zoomIn');
-              const zoomOutBtn = document.getElementById('zoomOut');
-              const zoomResetBtn = document.getElementById('zoomReset');
-              
-              let scale = 1;
-              let panX = 0;
-              let panY = 0;
-              let isDragging = false;
-              let startX = 0;
-              let startY = 0;
-              let startPanX = 0;
-              let startPanY = 0;
-              let hasFitToView = false;
-              
-              const minScale = 0.5;
-              const maxScale = 50;
-              
-              function updateTransform() {
-                content.style.transform = \`translate(\${panX}px, \${panY}px) scale(\${scale})\`;
-              }
+              const layer = document.getElementById('graphLayer');
+              const SVG_NS = 'http://www.w3.org/2000/svg';
+              // O SVG do dvisvgm é medido em pt; a unidade padrão do TikZ é 1cm
+              const PT_PER_CM = 28.4528;
+              const SNAP = 0.25;
 
-              function fitToView() {
-                const svg = content.querySelector('svg');
-                if (!svg) return;
+              let overlay = null;
+              // Posição no <svg>, como fração da largura e da altura: a + b * coordenada do TikZ
+              let calibration = null;
+              let selected = null;
+              let drag = null;
 
-                // Temporariamente reseta transform para medir tamanho original
-                content.style.transform = 'translate(0px, 0px) scale(1)';
-                
-                // Usa viewBox ou getBBox para obter dimensões reais do SVG
-                let svgWidth, svgHeight;
-                try {
-                  const bbox = svg.getBBox();
-                  svgWidth = bbox.width || svg.clientWidth || svg.getBoundingClientRect().width;
-                  svgHeight = bbox.height || svg.clientHeight || svg.getBoundingClientRect().height;
-                } catch (e) {
-                  const svgRect = svg.getBoundingClientRect();
-                  svgWidth = svgRect.width;
-                  svgHeight = svgRect.height;
+              function shownSvg() {
+                return content.querySelector('svg');
+              }
+
+              // Reta pelos pontos (mínimos quadrados); com uma coordenada só, usa a inclinação padrão
+              function fitAxis(points, slope) {
+                if (!points.length) return null;
+                const mean = (key) => points.reduce((sum, p) => sum + p[key], 0) / points.length;
+                const coordMean = mean('coord');
+                const fracMean = mean('frac');
+                let covariance = 0;
+                let variance = 0;
+                for (const p of points) {
+                  covariance += (p.coord - coordMean) * (p.frac - fracMean);
+                  variance += (p.coord - coordMean) * (p.coord - coordMean);
                 }
+                if (variance > 0) slope = covariance / variance;
+                return { a: fracMean - slope * coordMean, b: slope };
+              }
 
-                const containerRect = container.getBoundingClientRect();
+              // Compara a posição de cada nó no código com a do texto dele no SVG. Só vale
+              // para o diagrama do mesmo código; enquanto o novo compila, fica a anterior.
+              function calibrate() {
+                const svg = shownSvg();
+                if (!svg || !overlay || overlay.renderId !== window.tikzViewer.renderId()) return;
+                const rect = svg.getBoundingClientRect();
+                if (!rect.width || !rect.height) return;
+                const viewBox = svg.viewBox.baseVal;
 
-                if (svgWidth === 0 || svgHeight === 0) {
-                  updateTransform();
-                  return;
+                const xs = [];
+                const ys = [];
+                for (const node of overlay.nodes) {
+                  const text = content.querySelector('[data-src^="' + node.start + '-"]');
+                  const box = text && text.getBoundingClientRect();
+                  if (!box || (!box.width && !box.height)) continue;
+                  xs.push({ coord: node.x, frac: (box.left + box.width / 2 - rect.left) / rect.width });
+                  ys.push({ coord: node.y, frac: (box.top + box.height / 2 - rect.top) / rect.height });
                 }
+                const x = fitAxis(xs, PT_PER_CM / (viewBox && viewBox.width ? viewBox.width : rect.width));
+                const y = fitAxis(ys, -PT_PER_CM / (viewBox && viewBox.height ? viewBox.height : rect.height));
+                if (x && y) calibration = { x: x, y: y };
+              }
 
-                const padding = 40; // margem reduzida para usar mais espaço
-                const availableWidth = Math.max(100, containerRect.width - padding);
-                const availableHeight = Math.max(100, containerRect.height - padding);
-                const scaleX = availableWidth / svgWidth;
-                const scaleY = availableHeight / svgHeight;
-
-                // Usa 95% do espaço disponível e multiplica por 1.5 para deixar o diagrama bem maior
-                const targetScale = Math.min(scaleX, scaleY) * 0.95 * 1.5;
-                
-                // Garante um tamanho mínimo maior (mínimo 1.5x)
-                scale = Math.max(1.5, Math.min(maxScale, targetScale));
-                
-                // O content já está centralizado com flex, então panX e panY devem ser 0
-                // O transform-origin é center center, então o scale mantém o centro no lugar
-                // Mas precisamos garantir que o SVG esteja realmente centralizado
-                panX = 0;
-                panY = 0;
-                
-                updateTransform();
-                hasFitToView = true;
+              function toScreen(x, y) {
+                const rect = shownSvg().getBoundingClientRect();
+                const box = container.getBoundingClientRect();
+                return {
+                  x: rect.left - box.left + (calibration.x.a + calibration.x.b * x) * rect.width,
+                  y: rect.top - box.top + (calibration.y.a + calibration.y.b * y) * rect.height,
+                };
               }
-              
-              function zoom(factor, centerX, centerY) {
-                const oldScale = scale;
-                scale = Math.max(minScale, Math.min(maxScale, scale * factor));
-                
-                if (centerX !== undefined && centerY !== undefined) {
-                  const rect = container.getBoundingClientRect();
-                  const x = centerX - rect.left;
-                  const y = centerY - rect.top;
-                  
-                  panX = x - (x - panX) * (scale / oldScale);
-                  panY = y - (y - panY) * (scale / oldScale);
-                }
-                
-                updateTransform();
+
+              // Ponto da tela em coordenadas do TikZ, na grade
+              function fromScreen(clientX, clientY) {
+                const rect = shownSvg().getBoundingClientRect();
+                const snap = (value) => Math.round(value / SNAP) * SNAP;
+                return {
+                  x: snap(((clientX - rect.left) / rect.width - calibration.x.a) / calibration.x.b),
+                  y: snap(((clientY - rect.top) / rect.height - calibration.y.a) / calibration.y.b),
+                };
               }
-              
-              function resetZoom() {
-                hasFitToView = false;
-                fitToView();
+
+              function element(name, attributes, text) {
+                const el = document.createElementNS(SVG_NS, name);
+                for (const key in attributes) el.setAttribute(key, attributes[key]);
+                if (text) el.textContent = text;
+                return el;
               }
-              
-              // Zoom com scroll
-              container.addEventListener('wheel', (e) => {
-                e.preventDefault();
-                const factor = e.deltaY > 0 ? 0.9 : 1.1;
-                zoom(factor, e.clientX, e.clientY);
-              }, { passive: false });
-              
-              // Pan com mouse
-              container.addEventListener('mousedown', (e) => {
-                if (e.button === 0) {
-                  isDragging = true;
-                  container.classList.add('dragging');
-                  startX = e.clientX;
-                  startY = e.clientY;
-                  startPanX = panX;
-                  startPanY = panY;
+
+              // Redesenha as alças (depois de zoom, pan, diagrama novo ou nós novos)
+              function layout() {
+                layer.replaceChildren();
+                if (!overlay || !calibration || !shownSvg()) return;
+
+                for (const node of overlay.nodes) {
+                  const moving = drag && drag.moved && drag.tool === 'move' && drag.name === node.name;
+                  const p = moving ? toScreen(drag.target.x, drag.target.y) : toScreen(node.x, node.y);
+                  const handle = element('circle', {
+                    cx: p.x,
+                    cy: p.y,
+                    r: 9,
+                    class: node.name === selected ? 'graph-handle selected' : 'graph-handle',
+                  });
+                  handle.dataset.name = node.name;
+                  layer.appendChild(handle);
+                  if (moving) {
+                    const label = '(' + drag.target.x + ', ' + drag.target.y + ')';
+                    layer.appendChild(element('text', { x: p.x + 12, y: p.y - 12, class: 'graph-coordinate' }, label));
+                  }
+                }
+
+                if (drag && drag.moved && drag.tool === 'edge') {
+                  const node = overlay.nodes.find((n) => n.name === drag.name);
+                  if (node) {
+                    const from = toScreen(node.x, node.y);
+                    layer.appendChild(element('line', {
+                      x1: from.x,
+                      y1: from.y,
+                      x2: drag.pointer.x,
+                      y2: drag.pointer.y,
+                      class: 'graph-rubber',
+                    }));
+                  }
                 }
+              }
+
+              function handleAt(clientX, clientY) {
+                const target = document.elementFromPoint(clientX, clientY);
+                return target && target.classList.contains('graph-handle') ? target.dataset.name : null;
+              }
+
+              // Alças: arrastar (mover ou ligar) sem iniciar o pan do diagrama
+              layer.addEventListener('mousedown', (e) => {
+                const name = e.target.dataset && e.target.dataset.name;
+                if (!name || e.button !== 0) return;
+                e.stopPropagation();
+                selected = name;
+                drag = { name: name, tool: overlay.tool, startX: e.clientX, startY: e.clientY, moved: false };
+                layout();
               });
-              
+
               document.addEventListener('mousemove', (e) => {
-                if (isDragging) {
-                  panX = startPanX + (e.clientX - startX);
-                  panY = startPanY + (e.clientY - startY);
-                  updateTransform();
+                if (!drag) return;
+                if (!drag.moved && Math.hypot(e.clientX - drag.startX, e.clientY - drag.startY) <= 3) return;
+                const box = container.getBoundingClientRect();
+                drag.moved = true;
+                drag.target = fromScreen(e.clientX, e.clientY);
+                drag.pointer = { x: e.clientX - box.left, y: e.clientY - box.top };
+                layout();
+              });
+
+              document.addEventListener('mouseup', (e) => {
+                if (!drag) return;
+                const done = drag;
+                drag = null;
+                if (done.moved && done.tool === 'move') {
+                  // Fica na posição nova até o código (e o diagrama) chegarem
+                  const node = overlay.nodes.find((n) => n.name === done.name);
+                  if (node) {
+                    node.x = done.target.x;
+                    node.y = done.target.y;
+                  }
+                  window.tikzStatus.graph({ type: 'graph-move', name: done.name, x: done.target.x, y: done.target.y });
+                } else if (done.moved && done.tool === 'edge') {
+                  const to = handleAt(e.clientX, e.clientY);
+                  if (to && to !== done.name) window.tikzStatus.graph({ type: 'graph-add-edge', from: done.name, to: to });
                 }
+                layout();
               });
-              
-              document.addEventListener('mouseup', () => {
-                isDragging = false;
-                container.classList.remove('dragging');
+
+              layer.addEventListener('dblclick', (e) => {
+                const name = e.target.dataset && e.target.dataset.name;
+                if (name) window.tikzStatus.graph({ type: 'graph-label', name: name });
+              });
+
+              // Clique no fundo: cria um nó (ferramenta "nó") ou tira a seleção
+              let press = null;
+              container.addEventListener('mousedown', (e) => {
+                press = { x: e.clientX, y: e.clientY };
               });
-              
-              // Touch events para pinch zoom e pan
-              let lastTouchDistance = 0;
-              let lastTouchCenter = { x: 0, y: 0 };
-              
-              container.addEventListener('touchstart', (e) => {
-                if (e.touches.length === 1) {
-                  isDragging = true;
-                  startX = e.touches[0].clientX;
-                  startY = e.touches[0].clientY;
-                  startPanX = panX;
-                  startPanY = panY;
-                } else if (e.touches.length === 2) {
-                  const touch1 = e.touches[0];
-                  const touch2 = e.touches[1];
-                  lastTouchDistance = Math.hypot(
-                    touch2.clientX - touch1.clientX,
-                    touch2.clientY - touch1.clientY
-                  );
-                  lastTouchCenter = {
-                    x: (touch1.clientX + touch2.clientX) / 2,
-                    y: (touch1.clientY + touch2.clientY) / 2
-                  };
+              container.addEventListener('click', (e) => {
+                if (!overlay || e.target.closest('.graph-handle, .zoom-controls, .minimap')) return;
+                if (!press || Math.hypot(e.clientX - press.x, e.clientY - press.y) > 3) return;
+
+                selected = null;
+                layout();
+                if (overlay.tool !== 'node' || e.target.closest('[data-src]')) return;
+                // Sem nós para calibrar, o primeiro vai para a origem
+                const point = calibration && shownSvg()
+                  ? fromScreen(e.clientX, e.clientY)
+                  : overlay.nodes.length ? null : { x: 0, y: 0 };
+                if (point) window.tikzStatus.graph({ type: 'graph-add-node', x: point.x, y: point.y });
+              });
+
+              document.addEventListener('keydown', (e) => {
+                if (!overlay || !selected) return;
+                if (e.key === 'Delete' || e.key === 'Backspace') {
+                  window.tikzStatus.graph({ type: 'graph-delete', name: selected });
+                  selected = null;
+                } else if (e.key === 'Escape') {
+                  selected = null;
+                } else {
+                  return;
                 }
-              }, { passive: false });
-              
-              container.addEventListener('touchmove', (e) => {
                 e.preventDefault();
-                if (e.touches.length === 1 && isDragging) {
-                  panX = startPanX + (e.touches[0].clientX - startX);
-                  panY = startPanY + (e.touches[0].clientY - startY);
-                  updateTransform();
-                } else if (e.touches.length === 2) {
-                  const touch1 = e.touches[0];
-                  const touch2 = e.touches[1];
-                  const distance = Math.hypot(
-                    touch2.clientX - touch1.clientX,
-                    touch2.clientY - touch1.clientY
-                  );
-                  
-                  if (lastTouchDistance > 0) {
-                    const factor = distance / lastTouchDistance;
-                    zoom(factor, lastTouchCenter.x, lastTouchCenter.y);
-                  }
-                  
-                  lastTouchDistance = distance;
-                  lastTouchCenter = {
-                    x: (touch1.clientX + touch2.clientX) / 2,
-                    y: (touch1.clientY + touch2.clientY) / 2
-                  };
-                }
-              }, { passive: false });
-              
-              container.addEventListener('touchend', () => {
-                isDragging = false;
-                lastTouchDistance = 0;
+                layout();
               });
-              
-              // Botões de zoom
-              zoomInBtn.addEventListener('click', () => zoom(1.2));
-              zoomOutBtn.addEventListener('click', () => zoom(0.8));
-              zoomResetBtn.addEventListener('click', resetZoom);
-              
-              // Aguarda o SVG ser renderizado e ter dimensões válidas
-              const checkSVG = setInterval(() => {
-                const svg = content.querySelector('svg');
-                if (svg) {
-                  try {
-                    const bbox = svg.getBBox();
-                    // Verifica se o SVG tem dimensões válidas
-                    if (bbox.width > 0 && bbox.height > 0) {
-                      clearInterval(checkSVG);
-                      // Pequeno delay para garantir que o SVG está totalmente renderizado
-                      setTimeout(() => {
-                        if (!hasFitToView) {
-                          fitToView();
-                        } else {
-                          updateTransform();
-                        }
-                      }, 50);
-                    }
-                  } catch (e) {
-                    // Se getBBox falhar, tenta com getBoundingClientRect
-                    const rect = svg.getBoundingClientRect();
-                    if (rect.width > 0 && rect.height > 0) {
-                      clearInterval(checkSVG);
-                      setTimeout(() => {
-                        if (!hasFitToView) {
-                          fitToView();
-                        } else {
-                          updateTransform();
-                        }
-                      }, 50);
-                    }
+
+              window.tikzGraph = {
+                set: (next) => {
+                  overlay = next;
+                  container.classList.toggle('graph-editing', !!next);
+                  container.classList.toggle('tool-node', !!next && next.tool === 'node');
+                  container.classList.toggle('tool-edge', !!next && next.tool === 'edge');
+                  if (!next) {
+                    calibration = null;
+                    drag = null;
                   }
-                }
-              }, 100);
-              
-              setTimeout(() => clearInterval(checkSVG), 5000);
+                  if (!next || !next.nodes.some((n) => n.name === selected)) selected = null;
+                  calibrate();
+                  layout();
+                },
+                // Diagrama novo na tela
+                refresh: () => {
+                  calibrate();
+                  layout();
+                },
+                layout: layout,
+              };
             })();
           </script>
         </body>
       </html>
     `;
-  }, [normalizedCode]);
+  }, []);
+
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const descriptionId = useId();
+  // Trocar a chave recria o iframe e reinicia o TikZJax (quando uma compilação trava)
+  const [frameKey, setFrameKey] = useState(0);
+  const frameReady = useRef(false);
+  // Último pedido feito antes de o iframe ficar pronto
+  const queuedRequest = useRef<TikzFrameRequest | null>(null);
+
+  const [status, setStatus] = useState<TikzCompileStatus>("idle");
+  const [errorLog, setErrorLog] = useState<string[]>([]);
+  const [rendered, setRendered] = useState<(CachedRender & { renderId: string }) | null>(null);
+  const renderedRef = useRef(rendered);
+  renderedRef.current = rendered;
+  // Código que não estava no cache (o iframe precisa compilar)
+  const [cacheMiss, setCacheMiss] = useState<string | null>(null);
+
+  // Cursor do editor, relativo ao código do diagrama (null: fora dele)
+  const relativeCursor =
+    cursor !== undefined && cursor >= sourceOffset && cursor <= sourceOffset + code.length
+      ? cursor - sourceOffset
+      : null;
+  const highlightRef = useRef(relativeCursor);
+  highlightRef.current = relativeCursor;
+
+  const onLocateRef = useRef(onLocate);
+  onLocateRef.current = onLocate;
+  const sourceOffsetRef = useRef(sourceOffset);
+  sourceOffsetRef.current = sourceOffset;
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Editor visual: nós e ligações do código que ele sabe editar (ver tikzGraph.ts)
+  const [graphTool, setGraphTool] = useState<TikzGraphTool | null>(null);
+  const graph = useMemo(() => parseTikzGraph(code), [code]);
+  const graphOverlay = useMemo<TikzGraphOverlay | null>(
+    () =>
+      graphTool && {
+        tool: graphTool,
+        renderId,
+        nodes: graph.nodes.map(({ name, x, y, range }) => ({ name, x, y, start: range.start })),
+      },
+    [graphTool, renderId, graph]
+  );
+  const graphOverlayRef = useRef(graphOverlay);
+  graphOverlayRef.current = graphOverlay;
+  const codeRef = useRef(code);
+  codeRef.current = code;
+  const onEditRef = useRef(onEdit);
+  onEditRef.current = onEdit;
+
+  const sendToFrame = useCallback((request: TikzFrameRequest) => {
+    const frame = iframeRef.current?.contentWindow;
+    if (frameReady.current && frame) {
+      frame.postMessage(request, "*");
+    } else {
+      queuedRequest.current = request;
+    }
+  }, []);
+
+  // Código novo: mostra do cache na hora ou compila depois de uma pausa na digitação
+  useEffect(() => {
+    setErrorLog([]);
+    if (!normalizedCode) {
+      // O iframe sai da tela; o próximo precisa avisar que está pronto
+      frameReady.current = false;
+      setStatus("idle");
+      return;
+    }
+
+    const show = (render: CachedRender) => {
+      sendToFrame({ source: TIKZ_MESSAGE_SOURCE, type: "show", renderId, svg: render.svg });
+      setRendered({ ...render, renderId });
+      setStatus("success");
+    };
+
+    const cached = peekCachedRender(renderId);
+    if (cached) {
+      show(cached);
+      return;
+    }
+
+    setStatus("compiling");
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      sendToFrame({
+        source: TIKZ_MESSAGE_SOURCE,
+        type: "compile",
+        renderId,
+        code: compiledCode,
+        libraries,
+        packages,
+        preamble: texPreamble,
+      });
+    }, TIKZ_COMPILE_DEBOUNCE_MS);
+
+    getCachedRender(renderId).then((stored) => {
+      if (cancelled) return;
+      if (!stored) {
+        setCacheMiss(renderId);
+        return;
+      }
+      clearTimeout(timer);
+      show(stored);
+    });
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [renderId, normalizedCode, compiledCode, libraries, packages, texPreamble, sendToFrame]);
+
+  // Destaques não esperam o iframe: o pronto reenvia o mais recente
+  const postHighlight = useCallback((offset: number | null) => {
+    if (frameReady.current) {
+      iframeRef.current?.contentWindow?.postMessage({ source: TIKZ_MESSAGE_SOURCE, type: "highlight", offset }, "*");
+    }
+  }, []);
+
+  const postGraph = useCallback((overlay: TikzGraphOverlay | null) => {
+    if (frameReady.current) {
+      iframeRef.current?.contentWindow?.postMessage({ source: TIKZ_MESSAGE_SOURCE, type: "graph", overlay }, "*");
+    }
+  }, []);
+
+  useEffect(() => postGraph(graphOverlay), [graphOverlay, postGraph]);
+
+  // Modo de gráfico: os \def/\pgfmathsetmacro numéricos de um diagrama com \addplot viram
+  // controles. Enquanto um controle é arrastado, o iframe recompila o código com o valor
+  // novo (no máximo um pedido a cada TIKZ_PREVIEW_THROTTLE_MS), sem passar pelo editor
+  // nem pelo histórico de desfazer; ao soltar, o valor é escrito no código
+  const plotParameters = useMemo(() => (isPlot(code) ? parsePlotParameters(code) : []), [code]);
+  const prepareOptionsRef = useRef({ transforms, preamble, macros });
+  prepareOptionsRef.current = { transforms, preamble, macros };
+  const parameterPreview = useRef<{ code: string | null; timer: ReturnType<typeof setTimeout> | null }>({
+    code: null,
+    timer: null,
+  });
+
+  const flushParameterPreview = useCallback(() => {
+    const preview = parameterPreview.current;
+    const patched = preview.code;
+    preview.code = null;
+    preview.timer = null;
+    if (patched === null) return;
+
+    const { texCode: compiled, config, texPreamble } = prepareTikz(patched, prepareOptionsRef.current);
+    const previewLibraries = config.libraries.join(",");
+    const previewPackages = JSON.stringify(config.packages);
+    const previewId = tikzRenderId(previewLibraries, previewPackages, texPreamble, compiled);
+
+    const cached = peekCachedRender(previewId);
+    sendToFrame(
+      cached
+        ? { source: TIKZ_MESSAGE_SOURCE, type: "show", renderId: previewId, svg: cached.svg }
+        : {
+            source: TIKZ_MESSAGE_SOURCE,
+            type: "compile",
+            renderId: previewId,
+            code: compiled,
+            libraries: previewLibraries,
+            packages: previewPackages,
+            preamble: texPreamble,
+          }
+    );
+    preview.timer = setTimeout(flushParameterPreview, TIKZ_PREVIEW_THROTTLE_MS);
+  }, [sendToFrame]);
+
+  const handleParameterPreview = useCallback(
+    (parameter: PlotParameter, value: number, step: number) => {
+      const { range, text } = setParameterValue(parameter, value, step);
+      const current = codeRef.current;
+      parameterPreview.current.code = current.slice(0, range.start) + text + current.slice(range.end);
+      if (parameterPreview.current.timer === null) flushParameterPreview();
+    },
+    [flushParameterPreview]
+  );
+
+  const cancelParameterPreview = useCallback(() => {
+    const preview = parameterPreview.current;
+    if (preview.timer !== null) clearTimeout(preview.timer);
+    preview.code = null;
+    preview.timer = null;
+  }, []);
+  useEffect(() => cancelParameterPreview, [cancelParameterPreview]);
+
+  const handleParameterChange = useCallback(
+    (parameter: PlotParameter, value: number, step: number) => {
+      cancelParameterPreview();
+      const { range, text } = setParameterValue(parameter, value, step);
+      const offset = sourceOffsetRef.current;
+      onEditRef.current?.([{ range: { start: range.start + offset, end: range.end + offset }, text }]);
+    },
+    [cancelParameterPreview]
+  );
+
+  // Texto alternativo: nós e ligações lidos do código (o iframe recebe quando fica pronto)
+  const description = useMemo(() => describeTikz(code, t.tikzSummary, t.spoken), [code, t]);
+  const descriptionRef = useRef(description);
+  descriptionRef.current = description;
+  const postDescription = useCallback((text: string) => {
+    if (frameReady.current) {
+      iframeRef.current?.contentWindow?.postMessage(
+        { source: TIKZ_MESSAGE_SOURCE, type: "describe", description: text },
+        "*"
+      );
+    }
+  }, []);
+  useEffect(() => postDescription(description), [description, postDescription]);
+
+  // Idioma dos textos do visualizador (botões de zoom, instruções do teclado)
+  const viewerLabels = useRef({ lang: locale, labels: t.tikz.viewer });
+  viewerLabels.current = { lang: locale, labels: t.tikz.viewer };
+  const postLabels = useCallback((lang: string, labels: TikzViewerLabels) => {
+    if (frameReady.current) {
+      iframeRef.current?.contentWindow?.postMessage({ source: TIKZ_MESSAGE_SOURCE, type: "labels", lang, labels }, "*");
+    }
+  }, []);
+  useEffect(() => postLabels(locale, t.tikz.viewer), [locale, t, postLabels]);
+
+  // Zoom e pan: sobrevivem a código novo e a um iframe recriado (que recebe o último).
+  // Um `view` diferente do último visto vai para o iframe; os do usuário voltam por onViewChange
+  const viewRef = useRef(view ?? defaultTikzView);
+  const onViewChangeRef = useRef(onViewChange);
+  onViewChangeRef.current = onViewChange;
+  const postView = useCallback((next: TikzView) => {
+    if (frameReady.current) {
+      iframeRef.current?.contentWindow?.postMessage({ source: TIKZ_MESSAGE_SOURCE, type: "view", view: next }, "*");
+    }
+  }, []);
+  useEffect(() => {
+    if (!view || sameTikzView(view, viewRef.current)) return;
+    viewRef.current = view;
+    postView(view);
+  }, [view, postView]);
+
+  useEffect(() => {
+    postHighlight(relativeCursor);
+    if (relativeCursor !== null && containerRef.current) revealInScrollParent(containerRef.current);
+  }, [relativeCursor, postHighlight]);
+
+  // Edições do editor visual: trocas no código do diagrama, levadas para o editor
+  const nodeLabelPrompt = useRef(t.tikz.nodeLabelPrompt);
+  nodeLabelPrompt.current = t.tikz.nodeLabelPrompt;
+  const handleGraphMessage = useCallback((message: TikzMessage) => {
+    const code = codeRef.current;
+    const graph = parseTikzGraph(code);
+    const node = "name" in message ? graph.nodes.find((n) => n.name === message.name) : undefined;
+
+    let edits: TextEdit[] = [];
+    switch (message.type) {
+      case "graph-move":
+        if (node) edits = [moveNode(node, message.x, message.y)];
+        break;
+      case "graph-add-node":
+        edits = [addNode(code, graph, message.x, message.y)];
+        break;
+      case "graph-add-edge":
+        edits = [addEdge(code, graph, message.from, message.to)];
+        break;
+      case "graph-label": {
+        const label = node && prompt(nodeLabelPrompt.current, node.label);
+        if (node && label != null) edits = [setNodeLabel(node, label)];
+        break;
+      }
+      case "graph-delete":
+        edits = deleteNode(code, graph, message.name);
+        break;
+      default:
+        return false;
+    }
+
+    const offset = sourceOffsetRef.current;
+    if (edits.length) {
+      onEditRef.current?.(
+        edits.map(({ range, text }) => ({ range: { start: range.start + offset, end: range.end + offset }, text }))
+      );
+    }
+    return true;
+  }, []);
+
+  // Recebe o status da compilação enviado pelo script do iframe
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== iframeRef.current?.contentWindow) return;
+      if (!isTikzMessage(event.data)) return;
+
+      const message = event.data;
+      if (message.type === "ready") {
+        frameReady.current = true;
+        // Um iframe recriado volta a mostrar o último diagrama
+        const last = renderedRef.current;
+        const request =
+          queuedRequest.current ??
+          (last && { source: TIKZ_MESSAGE_SOURCE, type: "show", renderId: last.renderId, svg: last.svg });
+        queuedRequest.current = null;
+        if (request) sendToFrame(request);
+        postHighlight(highlightRef.current);
+        postGraph(graphOverlayRef.current);
+        postDescription(descriptionRef.current);
+        postLabels(viewerLabels.current.lang, viewerLabels.current.labels);
+        postView(viewRef.current);
+        return;
+      }
+
+      if (message.type === "view-change") {
+        viewRef.current = message.view;
+        onViewChangeRef.current?.(message.view);
+        return;
+      }
+
+      if (message.type === "locate") {
+        const offset = sourceOffsetRef.current;
+        onLocateRef.current?.({ start: offset + message.range.start, end: offset + message.range.end });
+        return;
+      }
+
+      if (handleGraphMessage(message)) return;
+
+      // Resultados de códigos antigos também servem para o cache
+      if (message.type === "compile-success") {
+        cacheRender(message.renderId, { svg: message.svg, bbox: message.bbox });
+      }
+      // Uma compilação travada prende o worker do TeX: recomeça com um iframe novo
+      if (message.type === "compile-timeout") {
+        frameReady.current = false;
+        setFrameKey((key) => key + 1);
+      }
+      if (!("renderId" in message) || message.renderId !== renderId) return;
+
+      switch (message.type) {
+        case "compile-start":
+          setStatus("compiling");
+          break;
+        case "compile-success":
+          setStatus("success");
+          setErrorLog([]);
+          setRendered({ svg: message.svg, bbox: message.bbox, renderId });
+          break;
+        case "compile-error":
+          setStatus("error");
+          setErrorLog(message.log);
+          break;
+        case "compile-timeout":
+          setStatus("timeout");
+          setErrorLog(message.log);
+          break;
+      }
+    };
+
+    window.addEventListener("message", handleMessage);
+    return () => window.removeEventListener("message", handleMessage);
+  }, [renderId, sendToFrame, postHighlight, postGraph, postDescription, postLabels, postView, handleGraphMessage]);
+
+  // Miniatura: com o SVG pronto (do cache ou recém-compilado) não há iframe do TikZJax;
+  // sem ele, o iframe só é criado na vez desta miniatura (ver takeCompactTurn)
+  const staticRender = compact && rendered?.renderId === renderId ? rendered : null;
+  const [hasTurn, setHasTurn] = useState(false);
+  const waitingForFrame = compact && !staticRender && cacheMiss === renderId && status === "compiling";
+  useEffect(() => {
+    if (!waitingForFrame) return;
+    const release = takeCompactTurn(() => setHasTurn(true));
+    return () => {
+      release();
+      setHasTurn(false);
+    };
+  }, [waitingForFrame]);
+
+  const frameStyle = {
+    width: "100%",
+    flex: 1,
+    minHeight: compact ? 0 : "300px",
+    borderRadius: "8px",
+    border: "1px solid #e0e0e0",
+    background: "#fff",
+    display: "block",
+  };
+
+  if (!normalizedCode) {
+    return (
+      <p style={{ color: "#666" }}>
+        <FormattedText text={t.tikz.empty} />
+      </p>
+    );
+  }
 
   return (
-    <div style={{ width: "100%", height: "100%", position: "relative" }}>
-      <iframe
-        title="TikZ Preview"
-        srcDoc={srcDoc}
-        sandbox="allow-scripts"
-        style={{
-          width: "100%",
-          height: "100%",
-          minHeight: "500px",
-          borderRadius: "8px",
-          border: "1px solid #e0e0e0",
-          background: "#fff",
-          display: "block",
-        }}
-      />
+    <div
+      ref={containerRef}
+      style={{
+        width: "100%",
+        height: "100%",
+        position: "relative",
+        display: "flex",
+        flexDirection: "column",
+      }}
+    >
+      {status !== "idle" && <TikzStatusBadge label={t.tikz.status[status]} status={status} />}
+      {staticRender ? (
+        <iframe
+          title={t.tikz.frameTitle}
+          aria-describedby={descriptionId}
+          srcDoc={staticSrcDoc(staticRender.svg)}
+          sandbox=""
+          style={frameStyle}
+        />
+      ) : (
+        (!compact || hasTurn) && (
+          <iframe
+            key={frameKey}
+            ref={iframeRef}
+            title={t.tikz.frameTitle}
+            aria-describedby={descriptionId}
+            srcDoc={srcDoc}
+            sandbox="allow-scripts"
+            style={frameStyle}
+          />
+        )
+      )}
+      <p id={descriptionId} className="sr-only">
+        {description}
+      </p>
+      {onEdit && <GraphToolbar tool={graphTool} onToolChange={setGraphTool} nodeCount={graph.nodes.length} />}
+      {onEdit && plotParameters.length > 0 && (
+        <PlotControls
+          parameters={plotParameters}
+          onPreview={handleParameterPreview}
+          onChange={handleParameterChange}
+        />
+      )}
+      {rendered && !compact && (
+        <div style={{ marginTop: 6 }}>
+          <ExportMenu
+            filename={t.export.diagramFilename}
+            kind="tikz"
+            source={normalizedCode}
+            preamble={[formatPreamble({ ...config, tikzset: "" }), texPreamble].filter(Boolean).join("\n")}
+            stylesheetUrl={TIKZJAX_FONTS_URL}
+            onlyUsedFonts
+            getSvg={() => (rendered.renderId === renderId ? standaloneSvg(rendered.svg, rendered.bbox) : null)}
+          />
+        </div>
+      )}
+      {!compact && prepared.unmapped.length > 0 && (
+        <div style={{ marginTop: 6, fontSize: 12, color: "#8a6d00" }}>
+          {t.tikz.unmapped}{" "}
+          {prepared.unmapped.map((char) => (
+            <code key={char} title={`U+${char.codePointAt(0)!.toString(16).toUpperCase().padStart(4, "0")}`}>
+              {char}{" "}
+            </code>
+          ))}
+        </div>
+      )}
+      {!compact && missingPackages.length > 0 && (
+        <div style={{ marginTop: 6, fontSize: 12, color: "#8a6d00" }}>
+          {t.tikz.missingPackages(missingPackages.join(", "))}
+        </div>
+      )}
+      {errorLog.length > 0 && (
+        <pre
+          style={{
+            margin: "8px 0 0",
+            padding: 8,
+            maxHeight: 160,
+            overflow: "auto",
+            borderRadius: 8,
+            background: "#fdecea",
+            color: "#8e1c1c",
+            fontSize: 12,
+            whiteSpace: "pre-wrap",
+          }}
+        >
+          {errorLog.join("\n")}
+        </pre>
+      )}
     </div>
   );
 }
 
+const statusColors: Record<TikzCompileStatus, string> = {
+  idle: "#999",
+  compiling: "#1e88e5",
+  success: "#43a047",
+  error: "#e53935",
+  timeout: "#fb8c00",
+};
+
+function TikzStatusBadge({ label, status }: { label: string; status: TikzCompileStatus }) {
+  return (
+    <span
+      role="status"
+      style={{
+        position: "absolute",
+        top: 10,
+        left: 10,
+        zIndex: 1,
+        padding: "2px 8px",
+        borderRadius: 12,
+        fontSize: 12,
+        color: "white",
+        background: statusColors[status],
+      }}
+    >
+      {label}
+    </span>
+  );
+}
+
+
+const graphTools: TikzGraphTool[] = ["move", "node", "edge"];
+
+interface GraphToolbarProps {
+  /** Ferramenta ativa (null: editor visual desligado) */
+  tool: TikzGraphTool | null;
+  onToolChange: (tool: TikzGraphTool | null) => void;
+  nodeCount: number;
+}
+
+/** Liga o editor visual sobre o diagrama e escolhe a ferramenta */
+function GraphToolbar({ tool, onToolChange, nodeCount }: GraphToolbarProps) {
+  const { t } = useI18n();
+  const active = tool && t.tikz.graphTools[tool];
+
+  return (
+    <div style={{ display: "flex", gap: 4, alignItems: "center", flexWrap: "wrap", marginTop: 6, fontSize: 12 }}>
+      <button style={{ fontSize: 12 }} onClick={() => onToolChange(tool ? null : "move")}>
+        {tool ? t.tikz.closeGraphEditor : t.tikz.openGraphEditor}
+      </button>
+      {tool &&
+        graphTools.map((graphTool) => (
+          <button
+            key={graphTool}
+            aria-pressed={graphTool === tool}
+            onClick={() => onToolChange(graphTool)}
+            style={{ fontSize: 12, fontWeight: graphTool === tool ? "bold" : undefined }}
+          >
+            {t.tikz.graphTools[graphTool].label}
+          </button>
+        ))}
+      {active && (
+        <span style={{ color: "#666" }}>
+          {active.hint}
+          {nodeCount === 0 && <FormattedText text={t.tikz.noEditableNodes} />}
+        </span>
+      )}
+    </div>
+  );
+}
+
+interface PlotControlsProps {
+  parameters: PlotParameter[];
+  /** Valor do controle enquanto é arrastado: só o diagrama muda */
+  onPreview: (parameter: PlotParameter, value: number, step: number) => void;
+  /** Valor escolhido, para escrever no código */
+  onChange: (parameter: PlotParameter, value: number, step: number) => void;
+}
+
+/** Controles deslizantes dos parâmetros de um gráfico (ver plotParameters.ts) */
+function PlotControls({ parameters, onPreview, onChange }: PlotControlsProps) {
+  const { t } = useI18n();
+  // Intervalos sem comentário ficam fixos enquanto o valor muda (senão o controle
+  // fugiria do mouse); só crescem quando um valor digitado sai deles
+  const remembered = useRef(new Map<string, SliderBounds>());
+  // Valor do controle enquanto é arrastado: o diagrama acompanha (onPreview), mas o código
+  // só muda ao soltar, senão cada passo entraria no histórico de desfazer
+  const [dragging, setDragging] = useState<{ name: string; value: number } | null>(null);
+
+  const boundsOf = (parameter: PlotParameter): SliderBounds => {
+    if (parameter.bounds) return parameter.bounds;
+    let bounds = remembered.current.get(parameter.name) ?? sliderBounds(parameter.value);
+    if (parameter.value < bounds.min || parameter.value > bounds.max) {
+      const wider = sliderBounds(parameter.value);
+      bounds = { ...wider, min: Math.min(wider.min, bounds.min), max: Math.max(wider.max, bounds.max) };
+    }
+    remembered.current.set(parameter.name, bounds);
+    return bounds;
+  };
+
+  return (
+    <fieldset
+      style={{ marginTop: 6, fontSize: 12, border: "1px solid #e0e0e0", borderRadius: 8, padding: "4px 8px" }}
+    >
+      <legend>{t.tikz.plot.title}</legend>
+      {parameters.map((parameter) => {
+        const { min, max, step } = boundsOf(parameter);
+        const change = (value: string) => {
+          const number = Number(value);
+          if (value.trim() && Number.isFinite(number) && number !== parameter.value) onChange(parameter, number, step);
+        };
+        const commit = () => {
+          if (dragging?.name !== parameter.name) return;
+          setDragging(null);
+          // Solto no valor de antes: o diagrama volta a ele
+          if (dragging.value === parameter.value) onPreview(parameter, parameter.value, step);
+          else change(String(dragging.value));
+        };
+        return (
+          <div key={parameter.name} style={{ display: "flex", gap: 8, alignItems: "center" }}>
+            <code style={{ minWidth: 48 }}>{parameter.name}</code>
+            <input
+              type="range"
+              min={min}
+              max={max}
+              step={step}
+              value={dragging?.name === parameter.name ? dragging.value : parameter.value}
+              onChange={(e) => {
+                const value = Number(e.target.value);
+                setDragging({ name: parameter.name, value });
+                onPreview(parameter, value, step);
+              }}
+              onPointerUp={commit}
+              onKeyUp={commit}
+              onBlur={commit}
+              aria-label={t.tikz.plot.value(parameter.name)}
+              style={{ flex: 1 }}
+            />
+            {/* Vale ao sair do campo ou com Enter, para não escrever "1" no meio de "1.5" */}
+            <input
+              key={parameter.value}
+              type="number"
+              step={step}
+              defaultValue={parameter.value}
+              onBlur={(e) => change(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && change(e.currentTarget.value)}
+              aria-label={t.tikz.plot.value(parameter.name)}
+              style={{ width: 72, fontSize: 12 }}
+            />
+          </div>
+        );
+      })}
+      <p style={{ margin: "4px 0 0", color: "#666" }}>
+        <FormattedText text={t.tikz.plot.help} />
+      </p>
+    </fieldset>
+  );
+}
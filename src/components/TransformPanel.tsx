@@ -0,0 +1,102 @@
+import { useMemo, useState } from "react";
+import { TransformSettings } from "../hooks/useTransformSettings";
+import { splitSegments } from "../lib/segments";
+import { TransformPass, runTransforms, transformPasses } from "../lib/transforms";
+import { useI18n } from "../hooks/useI18n";
+import { FormattedText } from "./FormattedText";
+
+interface TransformPanelProps {
+  settings: TransformSettings;
+  source: string;
+}
+
+const preStyle = {
+  fontSize: 12,
+  background: "#f6f8fa",
+  border: "1px solid #ddd",
+  borderRadius: 6,
+  padding: 8,
+  margin: "4px 0",
+  maxHeight: 240,
+  overflow: "auto",
+  whiteSpace: "pre-wrap",
+} as const;
+
+/** Liga e desliga as correções do código do TikZ e mostra o resultado de cada uma */
+export function TransformPanel({ settings, source }: TransformPanelProps) {
+  const { t } = useI18n();
+  const [showOutput, setShowOutput] = useState(false);
+  // Até qual passo mostrar o código (null = todos os ligados)
+  const [stepId, setStepId] = useState<string | null>(null);
+
+  const results = useMemo(() => {
+    if (!showOutput) return [];
+    return splitSegments(source)
+      .filter((s) => s.kind === "tikz" && s.content.trim())
+      .map((s) => ({ start: s.start, ...runTransforms(s.content.trim(), settings.enabled) }));
+  }, [showOutput, source, settings.enabled]);
+
+  const shownStep = settings.enabled.some((p) => p.id === stepId) ? stepId : null;
+
+  const passText = (pass: TransformPass) => t.transforms.passes[pass.id] ?? { label: pass.id, description: "" };
+
+  return (
+    <details style={{ marginBottom: 8 }}>
+      <summary style={{ cursor: "pointer" }}>
+        {t.transforms.summary(settings.enabled.length, transformPasses.length)}
+      </summary>
+
+      <p style={{ fontSize: 12, color: "#666", margin: "4px 0" }}>
+        <FormattedText text={t.transforms.help} />
+      </p>
+
+      {transformPasses.map((pass) => (
+        <label key={pass.id} style={{ display: "flex", gap: 4, alignItems: "baseline", fontSize: 12 }}>
+          <input
+            type="checkbox"
+            checked={settings.isEnabled(pass.id)}
+            onChange={(e) => settings.setEnabled(pass.id, e.target.checked)}
+          />
+          <span>
+            <strong>{passText(pass).label}</strong> — <FormattedText text={passText(pass).description} />
+          </span>
+        </label>
+      ))}
+
+      <label style={{ display: "flex", gap: 4, alignItems: "center", fontSize: 12, marginTop: 8 }}>
+        <input type="checkbox" checked={showOutput} onChange={(e) => setShowOutput(e.target.checked)} />
+        {t.transforms.showOutput}
+      </label>
+
+      {showOutput && (
+        <div style={{ marginTop: 4 }}>
+          {results.length === 0 ? (
+            <p style={{ fontSize: 12, color: "#666", margin: "4px 0" }}>{t.transforms.noDiagrams}</p>
+          ) : (
+            <label style={{ fontSize: 12 }}>
+              {t.transforms.after}{" "}
+              <select
+                value={shownStep ?? ""}
+                onChange={(e) => setStepId(e.target.value || null)}
+                style={{ fontSize: 12 }}
+              >
+                <option value="">{t.transforms.allPasses}</option>
+                {settings.enabled.map((pass) => (
+                  <option key={pass.id} value={pass.id}>
+                    {passText(pass).label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+
+          {results.map((result) => (
+            <pre key={result.start} style={preStyle}>
+              {result.steps.find((s) => s.id === shownStep)?.output ?? result.output}
+            </pre>
+          ))}
+        </div>
+      )}
+    </details>
+  );
+}
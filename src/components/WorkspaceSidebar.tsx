@@ -0,0 +1,142 @@
+import { useState } from "react";
+import { WorkspaceActions } from "../hooks/useWorkspace";
+import { useI18n } from "../hooks/useI18n";
+
+interface WorkspaceSidebarProps {
+  workspace: WorkspaceActions;
+}
+
+const smallButton = { fontSize: 12, padding: "2px 6px" };
+
+function formatTime(timestamp: number, locale: string): string {
+  return new Date(timestamp).toLocaleString(locale, {
+    day: "2-digit",
+    month: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+}
+
+export function WorkspaceSidebar({ workspace }: WorkspaceSidebarProps) {
+  const { workspace: state, activeDocument } = workspace;
+  const [showHistory, setShowHistory] = useState(false);
+  const { locale, t } = useI18n();
+
+  const handleRename = (id: string, current: string) => {
+    const name = prompt(t.workspace.renamePrompt, current)?.trim();
+    if (name) workspace.rename(id, name);
+  };
+
+  const handleDelete = (id: string, name: string) => {
+    if (confirm(t.workspace.confirmRemove(name))) {
+      workspace.remove(id);
+    }
+  };
+
+  return (
+    <aside
+      style={{
+        width: 240,
+        flexShrink: 0,
+        background: "white",
+        borderRadius: 12,
+        padding: 12,
+        boxShadow: "0 2px 6px rgba(0,0,0,0.08)",
+        alignSelf: "flex-start",
+      }}
+    >
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+        <strong>{t.workspace.documents}</strong>
+        <button style={smallButton} onClick={workspace.create}>
+          {t.workspace.create}
+        </button>
+      </div>
+
+      {workspace.saveFailed && (
+        <p role="alert" style={{ margin: "8px 0 0", fontSize: 12, color: "#8e1c1c" }}>
+          {t.workspace.saveFailed}
+        </p>
+      )}
+
+      <ul style={{ listStyle: "none", margin: "8px 0", padding: 0 }}>
+        {state.documents.map((document) => {
+          const active = document.id === activeDocument.id;
+          return (
+            <li
+              key={document.id}
+              style={{
+                padding: "6px 8px",
+                borderRadius: 6,
+                marginBottom: 4,
+                background: active ? "#e3f2fd" : "transparent",
+              }}
+            >
+              <button
+                onClick={() => workspace.select(document.id)}
+                aria-current={active}
+                style={{
+                  border: "none",
+                  background: "none",
+                  padding: 0,
+                  cursor: "pointer",
+                  fontWeight: active ? 600 : 400,
+                  textAlign: "left",
+                  width: "100%",
+                  overflow: "hidden",
+                  textOverflow: "ellipsis",
+                  whiteSpace: "nowrap",
+                }}
+              >
+                {document.name}
+              </button>
+              {active && (
+                <div style={{ display: "flex", gap: 4, marginTop: 4 }}>
+                  <button style={smallButton} onClick={() => handleRename(document.id, document.name)}>
+                    {t.workspace.rename}
+                  </button>
+                  <button style={smallButton} onClick={() => workspace.duplicate(document.id)}>
+                    {t.workspace.duplicate}
+                  </button>
+                  <button style={smallButton} onClick={() => handleDelete(document.id, document.name)}>
+                    {t.workspace.remove}
+                  </button>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <button style={{ ...smallButton, width: "100%" }} onClick={() => setShowHistory((v) => !v)}>
+        {showHistory ? t.workspace.hideHistory : t.workspace.history(activeDocument.revisions.length)}
+      </button>
+
+      {showHistory && (
+        <ul style={{ listStyle: "none", margin: "8px 0 0", padding: 0, maxHeight: 240, overflowY: "auto" }}>
+          {activeDocument.revisions.length === 0 && (
+            <li style={{ fontSize: 12, color: "#777" }}>{t.workspace.noRevisions}</li>
+          )}
+          {[...activeDocument.revisions].reverse().map((revision) => (
+            <li
+              key={revision.savedAt}
+              title={revision.content.slice(0, 200)}
+              style={{
+                display: "flex",
+                justifyContent: "space-between",
+                alignItems: "center",
+                fontSize: 12,
+                padding: "2px 0",
+              }}
+            >
+              <span>{formatTime(revision.savedAt, locale)}</span>
+              <button style={smallButton} onClick={() => workspace.restoreRevision(revision.savedAt)}>
+                {t.workspace.restore}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </aside>
+  );
+}
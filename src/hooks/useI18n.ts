@@ -0,0 +1,45 @@
+import { createContext, useContext, useEffect, useState } from "react";
+import { Locale, Messages, catalogs, detectLocale, isLocale } from "../lib/i18n";
+
+const STORAGE_KEY = "latex-preview:locale";
+
+/** Idioma escolhido no seletor; null enquanto o usuário não escolheu (segue o navegador) */
+function loadChosenLocale(): Locale | null {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  return isLocale(stored) ? stored : null;
+}
+
+function browserLocale(): Locale {
+  return detectLocale(navigator.languages?.length ? navigator.languages : [navigator.language]);
+}
+
+export interface I18n {
+  locale: Locale;
+  /** Textos da interface no idioma atual */
+  t: Messages;
+  setLocale: (locale: Locale) => void;
+}
+
+/** Idioma da interface: o escolhido (lembrado entre as visitas) ou o do navegador */
+export function useLocale(): I18n {
+  const [chosen, setChosen] = useState(loadChosenLocale);
+  const locale = chosen ?? browserLocale();
+
+  useEffect(() => {
+    if (chosen) localStorage.setItem(STORAGE_KEY, chosen);
+  }, [chosen]);
+
+  // Leitores de tela e o corretor do navegador usam o idioma do documento
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  return { locale, t: catalogs[locale], setLocale: setChosen };
+}
+
+export const I18nContext = createContext<I18n>({ locale: "pt-BR", t: catalogs["pt-BR"], setLocale: () => {} });
+
+/** Textos da interface para os componentes (o App fornece o idioma pelo I18nContext) */
+export function useI18n(): I18n {
+  return useContext(I18nContext);
+}
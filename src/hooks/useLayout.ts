@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useState } from "react";
+
+const STORAGE_KEY = "latex-preview:layout";
+
+export type LayoutMode = "split" | "stacked";
+
+export interface Layout {
+  /** Editor e preview lado a lado ou um embaixo do outro */
+  mode: LayoutMode;
+  /** Fração da largura ocupada pelo editor, no modo lado a lado */
+  editorRatio: number;
+}
+
+export const MIN_EDITOR_RATIO = 0.2;
+export const MAX_EDITOR_RATIO = 0.8;
+
+const defaultLayout: Layout = { mode: "split", editorRatio: 0.5 };
+
+function loadLayout(): Layout {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null");
+    if (stored && (stored.mode === "split" || stored.mode === "stacked") && typeof stored.editorRatio === "number") {
+      return stored;
+    }
+  } catch {
+    // JSON inválido: usa o padrão
+  }
+  return defaultLayout;
+}
+
+export interface LayoutActions {
+  layout: Layout;
+  setMode: (mode: LayoutMode) => void;
+  setEditorRatio: (ratio: number) => void;
+}
+
+/** Disposição da tela, lembrada entre as visitas (localStorage) */
+export function useLayout(): LayoutActions {
+  const [layout, setLayout] = useState(loadLayout);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(layout));
+  }, [layout]);
+
+  const setMode = useCallback((mode: LayoutMode) => setLayout((l) => ({ ...l, mode })), []);
+  const setEditorRatio = useCallback(
+    (ratio: number) =>
+      setLayout((l) => ({
+        ...l,
+        editorRatio: Math.min(MAX_EDITOR_RATIO, Math.max(MIN_EDITOR_RATIO, ratio)),
+      })),
+    []
+  );
+
+  return { layout, setMode, setEditorRatio };
+}
@@ -0,0 +1,30 @@
+import { useEffect, useMemo, useState } from "react";
+import { MacroDefinition, parseMacros } from "../lib/macros";
+
+const STORAGE_KEY = "latex-preview:macros";
+
+const defaultLibrary = String.raw`\newcommand{\R}{\mathbb{R}}
+\newcommand{\N}{\mathbb{N}}
+\newcommand{\E}{\mathbb{E}}
+\newcommand{\norm}[1]{\left\lVert #1 \right\rVert}
+`;
+
+export interface MacroLibrary {
+  /** Texto da biblioteca, no formato de um .sty */
+  text: string;
+  setText: (text: string) => void;
+  macros: MacroDefinition[];
+}
+
+/** Biblioteca de macros do usuário, salva no localStorage */
+export function useMacroLibrary(): MacroLibrary {
+  const [text, setText] = useState(() => localStorage.getItem(STORAGE_KEY) ?? defaultLibrary);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, text);
+  }, [text]);
+
+  const macros = useMemo(() => parseMacros(text).macros, [text]);
+
+  return { text, setText, macros };
+}
@@ -0,0 +1,38 @@
+import { useCallback, useEffect, useState } from "react";
+import { Template, parseTemplates, serializeTemplates } from "../lib/templates";
+
+const STORAGE_KEY = "latex-preview:templates";
+
+export interface TemplateLibrary {
+  /** Modelos da equipe (os embutidos ficam em templates.ts) */
+  templates: Template[];
+  add: (template: Omit<Template, "id">) => void;
+  remove: (id: string) => void;
+  /** Junta modelos importados; os de mesmo id são substituídos */
+  merge: (templates: Template[]) => void;
+}
+
+/** Modelos salvos pelo usuário, no localStorage */
+export function useTemplateLibrary(): TemplateLibrary {
+  const [templates, setTemplates] = useState(() => parseTemplates(localStorage.getItem(STORAGE_KEY) ?? "[]"));
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, serializeTemplates(templates));
+  }, [templates]);
+
+  const add = useCallback(
+    (template: Omit<Template, "id">) => setTemplates((list) => [...list, { ...template, id: crypto.randomUUID() }]),
+    []
+  );
+  const remove = useCallback((id: string) => setTemplates((list) => list.filter((t) => t.id !== id)), []);
+  const merge = useCallback(
+    (imported: Template[]) =>
+      setTemplates((list) => {
+        const ids = new Set(imported.map((t) => t.id));
+        return [...list.filter((t) => !ids.has(t.id)), ...imported];
+      }),
+    []
+  );
+
+  return { templates, add, remove, merge };
+}
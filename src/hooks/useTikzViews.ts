@@ -0,0 +1,150 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { hashString } from "../lib/hash";
+import { TikzView, isTikzView } from "../lib/tikzViewer";
+
+const STORAGE_KEY = "latex-preview:tikz-views";
+
+/**
+ * Máximo de vistas guardadas por documento (ver carriedView); acima dele saem
+ * primeiro as mais antigas dos diagramas que não estão mais no texto
+ */
+const MAX_VIEWS_PER_DOCUMENT = 64;
+
+type DocumentViews = Record<string, TikzView>;
+
+/** Por documento, o zoom e o pan de cada diagrama, pela chave (ver tikzViewKeys) */
+type StoredViews = Record<string, DocumentViews>;
+
+function loadViews(): StoredViews {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null");
+    if (stored && typeof stored === "object" && !Array.isArray(stored)) {
+      const views: StoredViews = {};
+      for (const [id, byKey] of Object.entries(stored)) {
+        // Listas pela posição (versão anterior) não dizem de qual diagrama era cada vista
+        if (!byKey || typeof byKey !== "object" || Array.isArray(byKey)) continue;
+        views[id] = Object.fromEntries(Object.entries(byKey).filter(([, view]) => isTikzView(view)));
+      }
+      return views;
+    }
+  } catch {
+    // JSON inválido: todos os diagramas no ajuste padrão
+  }
+  return {};
+}
+
+/**
+ * Chave de cada diagrama para lembrar a vista: o hash do código, com o número
+ * da ocorrência quando o mesmo código se repete. Não depende da posição, então
+ * inserir ou apagar um diagrama não passa as vistas para os vizinhos.
+ */
+export function tikzViewKeys(codes: string[]): string[] {
+  const occurrences = new Map<string, number>();
+  return codes.map((code) => {
+    const hash = hashString(code.trim());
+    const occurrence = occurrences.get(hash) ?? 0;
+    occurrences.set(hash, occurrence + 1);
+    return `${hash}-${occurrence}`;
+  });
+}
+
+/**
+ * Editar um diagrama muda a chave dele. Se, no mesmo documento, só uma chave
+ * mudou e a quantidade de diagramas é a mesma, a vista da chave antiga vale
+ * para a nova. A antiga continua guardada: se a edição era o início de outro
+ * diagrama (\begin{tikzpicture} digitado acima deste), ela volta quando ele fechar.
+ */
+function carriedView(
+  previous: { documentId: string; keys: string[] } | null,
+  documentId: string,
+  keys: string[],
+  views: DocumentViews
+): { key: string; view: TikzView } | null {
+  if (!previous || previous.documentId !== documentId || previous.keys.length !== keys.length) return null;
+  const changed = keys.flatMap((key, i) => (key === previous.keys[i] ? [] : [i]));
+  if (changed.length !== 1) return null;
+
+  const key = keys[changed[0]];
+  const view = views[previous.keys[changed[0]]];
+  return view && !views[key] ? { key, view } : null;
+}
+
+/** Guarda a vista por último (a ordem das chaves é a do uso) e descarta as sobras */
+function withView(views: DocumentViews, key: string, view: TikzView, keys: string[]): DocumentViews {
+  const next = { ...views };
+  delete next[key];
+  next[key] = view;
+
+  const current = new Set(keys);
+  const stale = Object.keys(next).filter((k) => !current.has(k));
+  const excess = Object.keys(next).length - MAX_VIEWS_PER_DOCUMENT;
+  for (const k of stale.slice(0, Math.max(0, excess))) delete next[k];
+  return next;
+}
+
+const noViews: DocumentViews = {};
+
+export interface TikzViews {
+  /** Zoom e pan dos diagramas do documento, pela chave (sem ela: ajuste padrão) */
+  views: DocumentViews;
+  setView: (key: string, view: TikzView) => void;
+}
+
+/**
+ * Zoom e pan dos diagramas do documento ativo, lembrados entre edições e
+ * visitas. `documentIds` são os documentos do espaço de trabalho (as vistas
+ * de um documento apagado são esquecidas) e `diagramKeys` as chaves dos
+ * diagramas do ativo, na ordem do texto (ver tikzViewKeys).
+ */
+export function useTikzViews(documentId: string, documentIds: string[], diagramKeys: string[]): TikzViews {
+  const [stored, setStored] = useState(loadViews);
+
+  // A lista muda a cada render; o conjunto de ids, só quando um documento entra ou sai
+  const idsKey = documentIds.join("\n");
+  useEffect(() => {
+    const ids = new Set(idsKey.split("\n"));
+    setStored((current) => {
+      const stale = Object.keys(current).filter((id) => !ids.has(id));
+      if (!stale.length) return current;
+      const pruned = { ...current };
+      for (const id of stale) delete pruned[id];
+      return pruned;
+    });
+  }, [idsKey]);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  }, [stored]);
+
+  // A vista que acompanha um diagrama editado já vale neste render (sem voltar ao
+  // ajuste padrão por um instante) e é guardada em seguida
+  const keysRef = useRef(diagramKeys);
+  keysRef.current = diagramKeys;
+  const previous = useRef<{ documentId: string; keys: string[] } | null>(null);
+  let views = stored[documentId] ?? noViews;
+  const carried = carriedView(previous.current, documentId, diagramKeys, views);
+  if (carried) views = { ...views, [carried.key]: carried.view };
+
+  const keysKey = diagramKeys.join("\n");
+  useEffect(() => {
+    const last = previous.current;
+    const keys = keysRef.current;
+    previous.current = { documentId, keys };
+    setStored((current) => {
+      const views = current[documentId] ?? noViews;
+      const carried = carriedView(last, documentId, keys, views);
+      return carried ? { ...current, [documentId]: withView(views, carried.key, carried.view, keys) } : current;
+    });
+  }, [documentId, keysKey]);
+
+  const setView = useCallback(
+    (key: string, view: TikzView) =>
+      setStored((current) => ({
+        ...current,
+        [documentId]: withView(current[documentId] ?? noViews, key, view, keysRef.current),
+      })),
+    [documentId]
+  );
+
+  return { views, setView };
+}
@@ -0,0 +1,45 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { TransformPass, transformPasses } from "../lib/transforms";
+
+const STORAGE_KEY = "latex-preview:transforms";
+
+function loadDisabled(): string[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null");
+    if (Array.isArray(stored?.disabled)) {
+      return stored.disabled.filter((id: unknown) => typeof id === "string");
+    }
+  } catch {
+    // JSON inválido: todos os passos ligados
+  }
+  return [];
+}
+
+export interface TransformSettings {
+  /** Passos ligados, na ordem em que rodam */
+  enabled: TransformPass[];
+  isEnabled: (id: string) => boolean;
+  setEnabled: (id: string, enabled: boolean) => void;
+}
+
+/** Quais correções do código do TikZ estão ligadas, lembrado entre as visitas */
+export function useTransformSettings(): TransformSettings {
+  const [disabled, setDisabled] = useState(loadDisabled);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ disabled }));
+  }, [disabled]);
+
+  const enabled = useMemo(() => transformPasses.filter((p) => !disabled.includes(p.id)), [disabled]);
+  const isEnabled = useCallback((id: string) => !disabled.includes(id), [disabled]);
+  const setEnabled = useCallback(
+    (id: string, on: boolean) =>
+      setDisabled((d) => {
+        if (on) return d.filter((x) => x !== id);
+        return d.includes(id) ? d : [...d, id];
+      }),
+    []
+  );
+
+  return { enabled, isEnabled, setEnabled };
+}
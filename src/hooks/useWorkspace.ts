@@ -0,0 +1,185 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  Workspace,
+  WorkspaceDocument,
+  WorkspaceNames,
+  addRevision,
+  createDocument,
+  loadWorkspace,
+  saveWorkspace,
+  uniqueName,
+} from "../lib/workspace";
+import { TikzPreambleConfig } from "../lib/tikzPreamble";
+import { KatexSettings } from "../lib/katexSettings";
+
+/** Espera sem digitar antes de salvar (e registrar uma revisão) */
+const AUTOSAVE_DELAY_MS = 1500;
+
+export interface WorkspaceActions {
+  workspace: Workspace;
+  activeDocument: WorkspaceDocument;
+  setContent: (content: string) => void;
+  /** Salva agora o documento ativo como revisão (ex.: antes de limpar) */
+  snapshot: () => void;
+  select: (id: string) => void;
+  create: () => void;
+  /** Cria um documento com o conteúdo dado e o seleciona */
+  open: (name: string, content: string) => void;
+  rename: (id: string, name: string) => void;
+  duplicate: (id: string) => void;
+  remove: (id: string) => void;
+  restoreRevision: (savedAt: number) => void;
+  /** O último salvamento falhou: as alterações estão só em memória (ver saveWorkspace) */
+  saveFailed: boolean;
+  setTikzPreamble: (config: TikzPreambleConfig) => void;
+  setKatexSettings: (settings: KatexSettings) => void;
+}
+
+export function useWorkspace(defaultContent: string, names: WorkspaceNames): WorkspaceActions {
+  const [workspace, setWorkspace] = useState<Workspace>(() => loadWorkspace(defaultContent, names.untitled));
+  // Os nomes mudam com o idioma; as ações são criadas uma vez e leem o mais recente
+  const namesRef = useRef(names);
+  namesRef.current = names;
+  const activeDocument =
+    workspace.documents.find((d) => d.id === workspace.activeId) ?? workspace.documents[0];
+
+  const updateDocument = useCallback(
+    (id: string, update: (document: WorkspaceDocument) => WorkspaceDocument) => {
+      setWorkspace((current) => ({
+        ...current,
+        documents: current.documents.map((d) => (d.id === id ? update(d) : d)),
+      }));
+    },
+    []
+  );
+
+  // Autosave: depois de uma pausa na digitação, registra a revisão e grava
+  const pendingSave = useRef(false);
+  const [saveFailed, setSaveFailed] = useState(false);
+  useEffect(() => {
+    if (!pendingSave.current) {
+      setSaveFailed(!saveWorkspace(workspace));
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      pendingSave.current = false;
+      updateDocument(workspace.activeId, addRevision);
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [workspace, updateDocument]);
+
+  // Fechar a aba antes do autosave não pode perder o que foi digitado
+  const latest = useRef(workspace);
+  latest.current = workspace;
+  useEffect(() => {
+    const handleUnload = () => saveWorkspace(latest.current);
+    window.addEventListener("beforeunload", handleUnload);
+    return () => window.removeEventListener("beforeunload", handleUnload);
+  }, []);
+
+  const setContent = useCallback(
+    (content: string) => {
+      pendingSave.current = true;
+      updateDocument(workspace.activeId, (d) => ({ ...d, content, updatedAt: Date.now() }));
+    },
+    [workspace.activeId, updateDocument]
+  );
+
+  const snapshot = useCallback(() => {
+    updateDocument(workspace.activeId, addRevision);
+  }, [workspace.activeId, updateDocument]);
+
+  // Trocar de documento salva o que estava pendente no atual
+  const select = useCallback((id: string) => {
+    pendingSave.current = false;
+    setWorkspace((current) => ({
+      documents: current.documents.map((d) => (d.id === current.activeId ? addRevision(d) : d)),
+      activeId: id,
+    }));
+  }, []);
+
+  const open = useCallback((name: string, content: string) => {
+    setWorkspace((current) => {
+      const document = createDocument(uniqueName(name, current.documents), content);
+      return { documents: [...current.documents, document], activeId: document.id };
+    });
+  }, []);
+
+  const create = useCallback(() => open(namesRef.current.untitled, ""), [open]);
+
+  const rename = useCallback(
+    (id: string, name: string) => updateDocument(id, (d) => ({ ...d, name, updatedAt: Date.now() })),
+    [updateDocument]
+  );
+
+  const duplicate = useCallback((id: string) => {
+    setWorkspace((current) => {
+      const original = current.documents.find((d) => d.id === id);
+      if (!original) return current;
+
+      // Leva tudo do original (preâmbulo do TikZ, opções do KaTeX...), menos id, datas e revisões
+      const copy: WorkspaceDocument = {
+        ...original,
+        ...createDocument(uniqueName(namesRef.current.copyOf(original.name), current.documents), original.content),
+      };
+      const index = current.documents.indexOf(original);
+      const documents = [...current.documents];
+      documents.splice(index + 1, 0, copy);
+      return { documents, activeId: copy.id };
+    });
+  }, []);
+
+  const remove = useCallback((id: string) => {
+    setWorkspace((current) => {
+      const documents = current.documents.filter((d) => d.id !== id);
+      // Sempre mantém ao menos um documento aberto
+      if (!documents.length) {
+        documents.push(createDocument(namesRef.current.untitled, ""));
+      }
+      const activeId = documents.some((d) => d.id === current.activeId) ? current.activeId : documents[0].id;
+      return { documents, activeId };
+    });
+  }, []);
+
+  // Restaurar também é reversível: o conteúdo atual vira uma revisão antes
+  const restoreRevision = useCallback(
+    (savedAt: number) => {
+      updateDocument(workspace.activeId, (d) => {
+        const revision = d.revisions.find((r) => r.savedAt === savedAt);
+        if (!revision) return d;
+        return addRevision({ ...addRevision(d), content: revision.content, updatedAt: Date.now() });
+      });
+    },
+    [workspace.activeId, updateDocument]
+  );
+
+  const setTikzPreamble = useCallback(
+    (tikzPreamble: TikzPreambleConfig) =>
+      updateDocument(workspace.activeId, (d) => ({ ...d, tikzPreamble, updatedAt: Date.now() })),
+    [workspace.activeId, updateDocument]
+  );
+
+  const setKatexSettings = useCallback(
+    (katexSettings: KatexSettings) =>
+      updateDocument(workspace.activeId, (d) => ({ ...d, katexSettings, updatedAt: Date.now() })),
+    [workspace.activeId, updateDocument]
+  );
+
+  return {
+    workspace,
+    activeDocument,
+    setContent,
+    snapshot,
+    select,
+    create,
+    open,
+    rename,
+    duplicate,
+    remove,
+    restoreRevision,
+    saveFailed,
+    setTikzPreamble,
+    setKatexSettings,
+  };
+}
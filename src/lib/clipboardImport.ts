@@ -0,0 +1,674 @@
+/**
+ * Importação da área de transferência: fórmulas copiadas do Word (OMML), de
+ * páginas com MathML (Wikipedia, MathJax) ou imagens com o LaTeX no texto
+ * alternativo viram LaTeX; texto com símbolos unicode (x² ≤ α) vira fórmula.
+ * As conversões rodam sobre o DOM do navegador (DOMParser).
+ */
+
+import {
+  mathAlphanumericToLatex,
+  unicodeSubscripts,
+  unicodeSuperscripts,
+  unicodeToLatex,
+  unicodeToMathExpression,
+} from "./latexSymbols";
+import { splitSegments } from "./segments";
+import { unicodeMathToLatex } from "./transforms";
+
+/** O que foi lido da área de transferência */
+export interface ClipboardData {
+  html: string | null;
+  text: string | null;
+  /** Havia uma imagem (que não dá para converter em LaTeX) */
+  hasImage: boolean;
+}
+
+/** De onde veio o LaTeX, na ordem de prioridade quando o HTML mistura fontes */
+export type ClipboardFormat = "word" | "mathml" | "image" | "unicode" | "text";
+
+export interface ClipboardImport {
+  format: ClipboardFormat;
+  latex: string;
+}
+
+export async function readClipboard(): Promise<ClipboardData> {
+  // Navegadores sem a API de itens só entregam o texto
+  if (!navigator.clipboard.read) {
+    return { html: null, text: await navigator.clipboard.readText(), hasImage: false };
+  }
+
+  const data: ClipboardData = { html: null, text: null, hasImage: false };
+  for (const item of await navigator.clipboard.read()) {
+    if (item.types.includes("text/html")) data.html ??= await (await item.getType("text/html")).text();
+    if (item.types.includes("text/plain")) data.text ??= await (await item.getType("text/plain")).text();
+    if (item.types.some((type) => type.startsWith("image/"))) data.hasImage = true;
+  }
+  return data;
+}
+
+/** Conteúdo de um evento de colar (Ctrl+V no editor) */
+export function clipboardDataFromTransfer(transfer: DataTransfer): ClipboardData {
+  return {
+    html: transfer.getData("text/html") || null,
+    text: transfer.getData("text/plain") || null,
+    hasImage: [...transfer.items].some((item) => item.type.startsWith("image/")),
+  };
+}
+
+// --- Símbolos ------------------------------------------------------------------
+
+/** Símbolos que faltam em latexSymbols.ts e operadores invisíveis do MathML/OMML */
+const extraSymbols: Record<string, string> = {
+  "\u2212": "-",
+  "\u2016": "\\|",
+  "\u2061": "",
+  "\u2062": "",
+  "\u2063": "",
+  "\u2064": "",
+  "{": "\\{",
+  "}": "\\}",
+  "%": "\\%",
+  "#": "\\#",
+  $: "\\$",
+  _: "\\_",
+};
+
+/** Funções escritas como comando (\sin x, e não s i n x) */
+const FUNCTION_NAMES = new Set([
+  "sin",
+  "cos",
+  "tan",
+  "cot",
+  "sec",
+  "csc",
+  "arcsin",
+  "arccos",
+  "arctan",
+  "sinh",
+  "cosh",
+  "tanh",
+  "coth",
+  "log",
+  "ln",
+  "lg",
+  "exp",
+  "lim",
+  "liminf",
+  "limsup",
+  "max",
+  "min",
+  "sup",
+  "inf",
+  "det",
+  "dim",
+  "ker",
+  "deg",
+  "gcd",
+  "arg",
+  "hom",
+  "Pr",
+]);
+
+/** Operadores com limites embaixo e em cima (\sum_{i}^{n}), e não \underset */
+const LIMIT_OPERATORS =
+  /^\\(?:sum|prod|coprod|int|iint|iiint|oint|bigcup|bigcap|bigoplus|bigotimes|lim|liminf|limsup|max|min|sup|inf|det|gcd|Pr)$/;
+
+function symbol(char: string): string {
+  if (char in extraSymbols) return extraSymbols[char];
+  if (char.charCodeAt(0) < 0x80) return char;
+  return unicodeToLatex[char] ?? unicodeToMathExpression[char] ?? mathAlphanumericToLatex(char) ?? char;
+}
+
+/** Junta pedaços de LaTeX sem grudar um comando na letra seguinte (\alpha x, e não \alphax) */
+function join(parts: string[]): string {
+  return parts.reduce((result, part) => {
+    if (!part) return result;
+    return /\\[a-zA-Z]+$/.test(result) && /^[a-zA-Z]/.test(part) ? `${result} ${part}` : result + part;
+  }, "");
+}
+
+function mathText(text: string): string {
+  const trimmed = text.trim();
+  if (FUNCTION_NAMES.has(trimmed)) return `\\${trimmed}`;
+  return join([...trimmed].map(symbol));
+}
+
+/** Argumento de ^ e _: um caractere ou comando sozinho dispensa as chaves */
+function script(latex: string): string {
+  return latex.length === 1 || /^\\[a-zA-Z]+$/.test(latex) ? latex : `{${latex}}`;
+}
+
+/** Tira o {\displaystyle ...} que a Wikipedia põe em volta do LaTeX das fórmulas */
+function stripDisplayStyle(tex: string): string {
+  const match = /^\{\\displaystyle\s*([\s\S]*)\}$/.exec(tex.trim());
+  return (match ? match[1] : tex).trim();
+}
+
+// --- MathML ------------------------------------------------------------------
+
+const OVER_ACCENTS: Record<string, string> = {
+  "^": "\\hat",
+  "\u02c6": "\\hat",
+  "\u0302": "\\hat",
+  "~": "\\tilde",
+  "\u02dc": "\\tilde",
+  "\u0303": "\\tilde",
+  "\u00af": "\\bar",
+  "\u203e": "\\overline",
+  "\u0305": "\\overline",
+  "\u2192": "\\vec",
+  "\u20d7": "\\vec",
+  "\u02d9": "\\dot",
+  "\u0307": "\\dot",
+  "\u00a8": "\\ddot",
+  "\u0308": "\\ddot",
+  "\u02c7": "\\check",
+  "\u030c": "\\check",
+  "\u23de": "\\overbrace",
+};
+
+const WIDE_ACCENTS: Record<string, string> = {
+  "\\bar": "\\overline",
+  "\\vec": "\\overrightarrow",
+  "\\hat": "\\widehat",
+  "\\tilde": "\\widetilde",
+};
+
+const UNDER_ACCENTS: Record<string, string> = {
+  _: "\\underline",
+  "\u0332": "\\underline",
+  "\u00af": "\\underline",
+  "\u23df": "\\underbrace",
+};
+
+/** Ambientes de matriz pelo delimitador em volta da tabela */
+const MATRIX_FENCES: Record<string, string> = {
+  "(": "pmatrix",
+  "[": "bmatrix",
+  "|": "vmatrix",
+  "\u2016": "Vmatrix",
+  "{": "Bmatrix",
+};
+
+const FENCES: Record<string, string> = {
+  "(": "(",
+  ")": ")",
+  "[": "[",
+  "]": "]",
+  "{": "\\{",
+  "}": "\\}",
+  "|": "|",
+  "\u2016": "\\|",
+  "\u27e8": "\\langle",
+  "\u27e9": "\\rangle",
+  "\u230a": "\\lfloor",
+  "\u230b": "\\rfloor",
+  "\u2308": "\\lceil",
+  "\u2309": "\\rceil",
+};
+
+const MATHML_VARIANTS: Record<string, string> = {
+  normal: "\\mathrm",
+  bold: "\\mathbf",
+  "double-struck": "\\mathbb",
+  script: "\\mathcal",
+  fraktur: "\\mathfrak",
+  "sans-serif": "\\mathsf",
+  monospace: "\\mathtt",
+};
+
+function elementChildren(element: Element): Element[] {
+  return [...element.children];
+}
+
+function isFence(element: Element | undefined, chars: Record<string, string>): element is Element {
+  return element?.localName === "mo" && (element.textContent ?? "").trim() in chars;
+}
+
+function mathmlTable(table: Element, environment = "matrix"): string {
+  const rows = elementChildren(table)
+    .filter((row) => row.localName === "mtr" || row.localName === "mlabeledtr")
+    .map((row) =>
+      elementChildren(row)
+        // A primeira célula de uma mlabeledtr é o rótulo da equação
+        .slice(row.localName === "mlabeledtr" ? 1 : 0)
+        .map((cell) => mathmlToLatex(cell))
+        .join(" & ")
+    );
+  return `\\begin{${environment}} ${rows.join(" \\\\ ")} \\end{${environment}}`;
+}
+
+function mathmlRow(children: Element[]): string {
+  const [first, ...rest] = children;
+  const last = rest[rest.length - 1];
+
+  // ( tabela ) -> pmatrix; { tabela -> cases
+  if (children.length === 3 && children[1].localName === "mtable" && isFence(first, MATRIX_FENCES)) {
+    return mathmlTable(children[1], MATRIX_FENCES[first.textContent!.trim()]);
+  }
+  if (children.length === 2 && children[1].localName === "mtable" && first.textContent?.trim() === "{") {
+    return mathmlTable(children[1], "cases");
+  }
+
+  // Delimitadores em volta de frações e tabelas crescem com elas
+  const tall = rest
+    .slice(0, -1)
+    .some((c) => /^m(frac|table|underover)$/.test(c.localName) || c.querySelector("mfrac, mtable, munderover"));
+  if (children.length > 2 && tall && isFence(first, FENCES) && isFence(last, FENCES)) {
+    const inner = join(rest.slice(0, -1).map(mathmlToLatex));
+    return join([`\\left${FENCES[first.textContent!.trim()]} `, inner, ` \\right${FENCES[last.textContent!.trim()]}`]);
+  }
+
+  return join(children.map(mathmlToLatex));
+}
+
+/** LaTeX de um elemento de MathML de apresentação (<math>, <mrow>, <mfrac>...) */
+export function mathmlToLatex(element: Element): string {
+  const children = elementChildren(element);
+  const child = (index: number) => (children[index] ? mathmlToLatex(children[index]) : "");
+  const text = element.textContent ?? "";
+
+  switch (element.localName) {
+    case "semantics": {
+      // O LaTeX original, quando a página o guardou (Wikipedia, MathJax)
+      const tex = children.find(
+        (c) => c.localName === "annotation" && /tex/i.test(c.getAttribute("encoding") ?? "")
+      );
+      return tex ? stripDisplayStyle(tex.textContent ?? "") : child(0);
+    }
+    case "annotation":
+    case "annotation-xml":
+    case "none":
+    case "mprescripts":
+      return "";
+    case "mi": {
+      const variant = MATHML_VARIANTS[element.getAttribute("mathvariant") ?? ""];
+      const name = text.trim();
+      if ([...name].length > 1 && !FUNCTION_NAMES.has(name)) return `\\mathrm{${name}}`;
+      return variant && /^[a-zA-Z0-9]$/.test(name) ? `${variant}{${name}}` : mathText(name);
+    }
+    case "mn":
+    case "mo":
+      return mathText(text);
+    case "mtext":
+    case "ms":
+      return text.trim() ? `\\text{${text.replace(/\s+/g, " ")}}` : "\\ ";
+    case "mspace":
+      return parseFloat(element.getAttribute("width") ?? "") >= 1 ? "\\quad " : "\\,";
+    case "msup":
+      return `${child(0)}^${script(child(1))}`;
+    case "msub":
+      return `${child(0)}_${script(child(1))}`;
+    case "msubsup":
+      return `${child(0)}_${script(child(1))}^${script(child(2))}`;
+    case "mfrac": {
+      const thickness = element.getAttribute("linethickness");
+      if (thickness !== null && parseFloat(thickness) === 0) {
+        return `\\genfrac{}{}{0pt}{}{${child(0)}}{${child(1)}}`;
+      }
+      return `\\frac{${child(0)}}{${child(1)}}`;
+    }
+    case "msqrt":
+      return `\\sqrt{${mathmlRow(children)}}`;
+    case "mroot":
+      return `\\sqrt[${child(1)}]{${child(0)}}`;
+    case "mover": {
+      const base = child(0);
+      const over = children[1]?.textContent?.trim() ?? "";
+      const accent = OVER_ACCENTS[over];
+      if (accent) {
+        // \bar e \vec são para uma letra; em expressões, as versões largas
+        const wide = [...base].length > 1 && !/^\\[a-zA-Z]+$/.test(base);
+        return `${(wide && WIDE_ACCENTS[accent]) || accent}{${base}}`;
+      }
+      return LIMIT_OPERATORS.test(base) ? `${base}^${script(child(1))}` : `\\overset{${child(1)}}{${base}}`;
+    }
+    case "munder": {
+      const base = child(0);
+      const accent = UNDER_ACCENTS[children[1]?.textContent?.trim() ?? ""];
+      if (accent) return `${accent}{${base}}`;
+      return LIMIT_OPERATORS.test(base) ? `${base}_${script(child(1))}` : `\\underset{${child(1)}}{${base}}`;
+    }
+    case "munderover": {
+      const base = child(0);
+      if (LIMIT_OPERATORS.test(base)) return `${base}_${script(child(1))}^${script(child(2))}`;
+      return `\\overset{${child(2)}}{\\underset{${child(1)}}{${base}}}`;
+    }
+    case "mmultiscripts": {
+      // base, pares (sub, sup) depois dela, <mprescripts/> e os pares antes
+      const split = children.findIndex((c) => c.localName === "mprescripts");
+      const pairs = (list: Element[]) => {
+        let result = "";
+        for (let i = 0; i + 1 < list.length; i += 2) {
+          const sub = mathmlToLatex(list[i]);
+          const sup = mathmlToLatex(list[i + 1]);
+          result += (sub ? `_${script(sub)}` : "") + (sup ? `^${script(sup)}` : "");
+        }
+        return result;
+      };
+      const post = pairs(children.slice(1, split === -1 ? undefined : split));
+      const pre = split === -1 ? "" : pairs(children.slice(split + 1));
+      return `${pre ? `{}${pre}` : ""}${child(0)}${post}`;
+    }
+    case "mtable":
+      return mathmlTable(element);
+    case "mfenced": {
+      const open = element.getAttribute("open") ?? "(";
+      const close = element.getAttribute("close") ?? ")";
+      const separator = (element.getAttribute("separators") ?? ",").trim().charAt(0);
+      const inner = children.map(mathmlToLatex).join(`${separator} `);
+      return `\\left${FENCES[open] ?? (open || ".")} ${inner} \\right${FENCES[close] ?? (close || ".")}`;
+    }
+    case "menclose": {
+      const notation = element.getAttribute("notation") ?? "longdiv";
+      if (/box|roundedbox/.test(notation)) return `\\boxed{${mathmlRow(children)}}`;
+      if (/strike/.test(notation)) return `\\cancel{${mathmlRow(children)}}`;
+      return mathmlRow(children);
+    }
+    case "mphantom":
+      return `\\phantom{${mathmlRow(children)}}`;
+    default:
+      // math, mrow, mstyle, mpadded, merror...
+      return mathmlRow(children);
+  }
+}
+
+// --- OMML (equações do Word) ---------------------------------------------------
+
+const OMML_NS = "http://schemas.openxmlformats.org/officeDocument/2006/math";
+
+/** Filho OMML pelo nome (sem o prefixo m:) */
+function ommlChild(element: Element, name: string): Element | undefined {
+  return elementChildren(element).find((c) => c.localName === name);
+}
+
+/** Valor de uma propriedade (<m:fPr><m:type m:val="noBar"/></m:fPr>) */
+function ommlProperty(element: Element, name: string): string | null {
+  const properties = ommlChild(element, `${element.localName}Pr`);
+  const property = properties && ommlChild(properties, name);
+  if (!property) return null;
+  return property.getAttributeNS(OMML_NS, "val") ?? property.getAttribute("m:val") ?? "";
+}
+
+function ommlArgument(element: Element, name: string): string {
+  const argument = ommlChild(element, name);
+  return argument ? ommlToLatex(argument) : "";
+}
+
+const OMML_ACCENTS: Record<string, string> = {
+  "\u0302": "\\hat",
+  "\u0303": "\\tilde",
+  "\u0304": "\\bar",
+  "\u0305": "\\overline",
+  "\u0307": "\\dot",
+  "\u0308": "\\ddot",
+  "\u030c": "\\check",
+  "\u0301": "\\acute",
+  "\u0300": "\\grave",
+  "\u0306": "\\breve",
+  "\u20d7": "\\vec",
+};
+
+function ommlDelimiter(element: Element): string {
+  const open = ommlProperty(element, "begChr") ?? "(";
+  const close = ommlProperty(element, "endChr") ?? ")";
+  const separator = ommlProperty(element, "sepChr") ?? "|";
+  const items = elementChildren(element).filter((c) => c.localName === "e");
+
+  // ( matriz ) -> pmatrix
+  const only = items.length === 1 ? elementChildren(items[0]) : [];
+  const matrix = only.length === 1 && only[0].localName === "m" ? only[0] : undefined;
+  if (matrix && open in MATRIX_FENCES) return ommlMatrix(matrix, MATRIX_FENCES[open]);
+  if (matrix && open === "{" && !close) return ommlMatrix(matrix, "cases");
+
+  const inner = items.map(ommlToLatex).join(` ${symbol(separator)} `);
+  return `\\left${FENCES[open] ?? (open || ".")} ${inner} \\right${FENCES[close] ?? (close || ".")}`;
+}
+
+function ommlMatrix(matrix: Element, environment = "matrix"): string {
+  const rows = elementChildren(matrix)
+    .filter((row) => row.localName === "mr")
+    .map((row) => elementChildren(row).filter((c) => c.localName === "e").map(ommlToLatex).join(" & "));
+  return `\\begin{${environment}} ${rows.join(" \\\\ ")} \\end{${environment}}`;
+}
+
+/** LaTeX de um elemento OMML (<m:oMath>, <m:f>, <m:sSup>...) */
+export function ommlToLatex(element: Element): string {
+  const argument = (name: string) => ommlArgument(element, name);
+
+  switch (element.localName) {
+    case "r": {
+      const text = elementChildren(element)
+        .filter((c) => c.localName === "t")
+        .map((c) => c.textContent ?? "")
+        .join("");
+      const properties = ommlChild(element, "rPr");
+      // Texto normal (não matemático) do Word
+      if (properties && ommlChild(properties, "nor")) return `\\text{${text}}`;
+      // O "&" de um alinhamento (eqArr) fica como está
+      return text.split("&").map(mathText).join(" & ");
+    }
+    case "f": {
+      const type = ommlProperty(element, "type");
+      if (type === "lin") return `${argument("num")}/${argument("den")}`;
+      if (type === "noBar") return `\\genfrac{}{}{0pt}{}{${argument("num")}}{${argument("den")}}`;
+      return `\\frac{${argument("num")}}{${argument("den")}}`;
+    }
+    case "sSup":
+      return `${argument("e")}^${script(argument("sup"))}`;
+    case "sSub":
+      return `${argument("e")}_${script(argument("sub"))}`;
+    case "sSubSup":
+      return `${argument("e")}_${script(argument("sub"))}^${script(argument("sup"))}`;
+    case "sPre":
+      return `{}_${script(argument("sub"))}^${script(argument("sup"))}${argument("e")}`;
+    case "rad": {
+      const degree = argument("deg");
+      const hidden = ["1", "on", "true"].includes(ommlProperty(element, "degHide") ?? "");
+      return degree && !hidden ? `\\sqrt[${degree}]{${argument("e")}}` : `\\sqrt{${argument("e")}}`;
+    }
+    case "nary": {
+      const operator = symbol(ommlProperty(element, "chr") ?? "\u222b");
+      const sub = argument("sub");
+      const sup = argument("sup");
+      return join([operator, sub ? `_${script(sub)}` : "", sup ? `^${script(sup)}` : "", " ", argument("e")]);
+    }
+    case "d":
+      return ommlDelimiter(element);
+    case "func":
+      return join([argument("fName"), " ", argument("e")]);
+    case "acc": {
+      const accent = OMML_ACCENTS[ommlProperty(element, "chr") ?? "\u0302"] ?? "\\hat";
+      return `${accent}{${argument("e")}}`;
+    }
+    case "bar":
+      return `${ommlProperty(element, "pos") === "top" ? "\\overline" : "\\underline"}{${argument("e")}}`;
+    case "groupChr": {
+      const char = ommlProperty(element, "chr") ?? "\u23df";
+      const over = ommlProperty(element, "pos") === "top" || char === "\u23de";
+      return `${over ? "\\overbrace" : "\\underbrace"}{${argument("e")}}`;
+    }
+    case "limLow": {
+      const base = argument("e");
+      const limit = argument("lim");
+      return LIMIT_OPERATORS.test(base) ? `${base}_${script(limit)}` : `\\underset{${limit}}{${base}}`;
+    }
+    case "limUpp": {
+      const base = argument("e");
+      const limit = argument("lim");
+      return LIMIT_OPERATORS.test(base) ? `${base}^${script(limit)}` : `\\overset{${limit}}{${base}}`;
+    }
+    case "borderBox":
+      return `\\boxed{${argument("e")}}`;
+    case "m":
+      return ommlMatrix(element);
+    case "eqArr": {
+      const rows = elementChildren(element).filter((c) => c.localName === "e").map(ommlToLatex);
+      return `\\begin{aligned} ${rows.join(" \\\\ ")} \\end{aligned}`;
+    }
+    case "oMathPara": {
+      const lines = elementChildren(element).filter((c) => c.localName === "oMath").map(ommlToLatex);
+      return lines.length > 1 ? `\\begin{gathered} ${lines.join(" \\\\ ")} \\end{gathered}` : lines.join("");
+    }
+    default:
+      // oMath, e, num, box... (as propriedades *Pr não têm conteúdo)
+      if (element.localName.endsWith("Pr")) return "";
+      return join(elementChildren(element).map(ommlToLatex));
+  }
+}
+
+/** As equações de um comentário condicional do Word (<!--[if gte msEquation 12]>...) */
+function wordEquations(comment: string, parser: DOMParser): { latex: string; display: boolean }[] {
+  const equations = comment.match(/<m:oMathPara\b[\s\S]*?<\/m:oMathPara>|<m:oMath\b[\s\S]*?<\/m:oMath>/g) ?? [];
+  return equations.map((xml) => {
+    const wrapped = `<root xmlns:m="${OMML_NS}" xmlns:w="urn:w">${xml}</root>`;
+    const element = parser.parseFromString(wrapped, "application/xml").documentElement.firstElementChild;
+    return { latex: element ? ommlToLatex(element) : "", display: xml.startsWith("<m:oMathPara") };
+  });
+}
+
+// --- HTML ----------------------------------------------------------------------
+
+const BLOCK_ELEMENTS = new Set(["p", "div", "br", "li", "tr", "table", "h1", "h2", "h3", "h4", "h5", "h6", "pre"]);
+
+/** Texto alternativo de uma imagem que é LaTeX (fórmulas da Wikipedia, codecogs...) */
+function imageLatex(image: Element): string | null {
+  const alt = image.getAttribute("alt")?.trim();
+  if (!alt) return null;
+  if (/mwe-math-fallback/.test(image.getAttribute("class") ?? "") || /\\[a-zA-Z]+|[_^]/.test(alt)) {
+    return stripDisplayStyle(alt);
+  }
+  return null;
+}
+
+/**
+ * Converte o HTML copiado em texto com LaTeX: as fórmulas (MathML, OMML e
+ * imagens com LaTeX) viram $...$ ou \[...\]; o resto, texto corrido.
+ * Retorna null se não houver nenhuma fórmula (o text/plain é melhor nesse caso).
+ */
+export function htmlToLatex(html: string, parser = new DOMParser()): ClipboardImport | null {
+  const page = parser.parseFromString(html, "text/html");
+  const found = new Set<ClipboardFormat>();
+  let output = "";
+  // Dentro do <![if !msEquation]> (a imagem que o Word põe no lugar da equação)
+  let skipping = false;
+
+  const formula = (latex: string, display: boolean) => {
+    output += display ? `\n\\[ ${latex} \\]\n` : `$${latex}$`;
+  };
+
+  const visit = (node: Node) => {
+    if (node.nodeType === node.COMMENT_NODE) {
+      const data = (node as Comment).data;
+      if (/^\[if gte msEquation/.test(data)) {
+        for (const { latex, display } of wordEquations(data, parser)) formula(latex, display);
+        found.add("word");
+      } else if (/^\[if !msEquation\]/.test(data)) {
+        skipping = true;
+      } else if (/^\[endif\]/.test(data)) {
+        skipping = false;
+      }
+      return;
+    }
+    if (skipping) return;
+    if (node.nodeType === node.TEXT_NODE) {
+      output += (node.textContent ?? "").replace(/\s+/g, " ");
+      return;
+    }
+    if (node.nodeType !== node.ELEMENT_NODE) return;
+
+    const element = node as Element;
+    const name = element.localName;
+    if (name === "script" || name === "style" || name === "head") return;
+
+    if (name === "math") {
+      formula(mathmlToLatex(element), element.getAttribute("display") === "block");
+      found.add("mathml");
+      return;
+    }
+    if (name === "img") {
+      const latex = imageLatex(element);
+      // A Wikipedia manda o MathML e a imagem da mesma fórmula: fica só o MathML
+      if (latex !== null && !element.parentElement?.querySelector("math")) {
+        formula(latex, /display/.test(element.getAttribute("class") ?? ""));
+        found.add("image");
+      }
+      return;
+    }
+
+    const block = BLOCK_ELEMENTS.has(name);
+    if (block) output += "\n";
+    element.childNodes.forEach(visit);
+    if (block) output += "\n";
+  };
+
+  visit(page.body);
+
+  const format = (["word", "mathml", "image"] as const).find((f) => found.has(f));
+  if (!format) return null;
+
+  const latex = output
+    .split("\n")
+    .map((line) => line.trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+  return { format, latex };
+}
+
+// --- Texto ---------------------------------------------------------------------
+
+const UNICODE_MATH = new RegExp(
+  `[${[unicodeToLatex, unicodeToMathExpression, unicodeSuperscripts, unicodeSubscripts]
+    .flatMap((map) => Object.keys(map))
+    .join("")}\u2212\u2102\u2115\u211a\u211d\u2124\\u{1d400}-\\u{1d7ff}]`,
+  "u"
+);
+
+/** Texto com símbolos unicode e nenhuma palavra (fora sin, log...): é uma fórmula */
+function looksLikeFormula(line: string): boolean {
+  if (!UNICODE_MATH.test(line)) return false;
+  return (line.match(/[a-zA-ZÀ-ÿ]{3,}/g) ?? []).every((word) => FUNCTION_NAMES.has(word));
+}
+
+function unicodeFormula(formula: string): string {
+  const latex = unicodeMathToLatex(formula.replace(/\u2212/g, "-"));
+  return latex.replace(/(^|[^\\a-zA-Z])([a-zA-Z]{2,})(?![a-zA-Z])/g, (match, before: string, word: string) =>
+    FUNCTION_NAMES.has(word) ? `${before}\\${word}` : match
+  );
+}
+
+/**
+ * Texto simples. Se já é LaTeX, só os símbolos unicode das fórmulas mudam
+ * ($x² ≤ y$); senão, as linhas que são fórmulas (x² + y² = r²) viram \[...\]
+ * e a prosa fica como está.
+ */
+export function textToLatex(text: string): ClipboardImport {
+  const normalized = text.replace(/\r\n?/g, "\n").trim();
+  let latex = "";
+
+  if (/\\[a-zA-Z]+|\$/.test(normalized)) {
+    let position = 0;
+    for (const segment of splitSegments(normalized)) {
+      if (segment.kind === "text" || segment.kind === "tikz") continue;
+      latex += normalized.slice(position, segment.contentStart);
+      latex += unicodeMathToLatex(segment.content.replace(/\u2212/g, "-"));
+      position = segment.contentStart + segment.content.length;
+    }
+    latex += normalized.slice(position);
+  } else {
+    latex = normalized
+      .split("\n")
+      .map((line) => (looksLikeFormula(line) ? `\\[ ${unicodeFormula(line.trim())} \\]` : line))
+      .join("\n");
+  }
+
+  return { format: latex === normalized ? "text" : "unicode", latex };
+}
+
+/** O melhor LaTeX do que foi copiado, ou null se não houver texto (só uma imagem, por exemplo) */
+export function convertClipboard(data: ClipboardData): ClipboardImport | null {
+  const fromHtml = data.html ? htmlToLatex(data.html) : null;
+  if (fromHtml?.latex) return fromHtml;
+  return data.text?.trim() ? textToLatex(data.text) : null;
+}
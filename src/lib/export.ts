@@ -0,0 +1,241 @@
+/**
+ * Exportação do que foi renderizado no preview: SVG, PNG e .tex standalone.
+ */
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+
+export type ExportErrorCode = "stylesheet" | "noSvg" | "canvas" | "png" | "drawSvg";
+
+/** Falha na exportação; a mensagem para o usuário vem do catálogo (t.export.errors) */
+export class ExportError extends Error {
+  constructor(
+    readonly code: ExportErrorCode,
+    /** Contexto da falha, ex.: a URL e o status HTTP que não puderam ser baixados */
+    readonly detail = ""
+  ) {
+    super(detail ? `${code}: ${detail}` : code);
+    this.name = "ExportError";
+  }
+}
+
+export interface SvgImage {
+  svg: string;
+  /** Dimensões em pixels CSS (96 dpi) */
+  width: number;
+  height: number;
+}
+
+export type StandaloneKind = "math" | "tikz";
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Dá tempo ao navegador de iniciar o download antes de liberar a URL
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export function downloadText(text: string, filename: string, type: string) {
+  downloadBlob(new Blob([text], { type: `${type};charset=utf-8` }), filename);
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Baixa uma folha de estilos e troca o url(...) de cada @font-face por um
+ * data URL, para que o SVG exportado não dependa de rede.
+ * Se `families` for informado, descarta as @font-face de outras famílias.
+ */
+export async function inlineStylesheet(cssUrl: string, families?: Set<string>): Promise<string> {
+  const response = await fetch(cssUrl);
+  if (!response.ok) {
+    throw new ExportError("stylesheet", `${cssUrl} (${response.status})`);
+  }
+
+  const css = await response.text();
+  const faces = css.match(/@font-face\s*{[^}]*}/g) ?? [];
+
+  const inlined = await Promise.all(
+    faces.map(async (face) => {
+      const family = face.match(/font-family:\s*['"]?([^;'"]+)/)?.[1].trim();
+      if (families && (family === undefined || !families.has(family))) {
+        return "";
+      }
+
+      // Usa só a primeira fonte (woff2) de cada @font-face
+      const match = face.match(/url\(\s*['"]?([^'")]+)['"]?\s*\)\s*format\(\s*['"]?(\w+)['"]?\s*\)/);
+      if (!match) return face;
+
+      const [, url, format] = match;
+      const fontUrl = new URL(url, new URL(cssUrl, location.href));
+      const fontResponse = await fetch(fontUrl);
+      if (!fontResponse.ok) {
+        throw new ExportError("stylesheet", `${fontUrl.href} (${fontResponse.status})`);
+      }
+      const dataUrl = await blobToDataUrl(await fontResponse.blob());
+      return face.replace(/src:[^;}]*/, `src: url(${dataUrl}) format("${format}")`);
+    })
+  );
+
+  return faces.reduce((result, face, index) => result.replace(face, inlined[index]), css);
+}
+
+/** Famílias de fonte usadas no SVG (o TikZJax escreve font-family nos <text>) */
+export function svgFontFamilies(svg: string): Set<string> {
+  const families = new Set<string>();
+  for (const match of svg.matchAll(/font-family(?:="|:\s*)['"]?([\w-]+)/g)) {
+    families.add(match[1]);
+  }
+  return families;
+}
+
+function escapeXmlText(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/** Insere um <style> logo após a abertura da tag <svg> */
+export function addSvgStyle(svg: string, css: string): string {
+  return svg.replace(/<svg\b[^>]*>/, (tag) => `${tag}<style>${escapeXmlText(css)}</style>`);
+}
+
+/** Referencia (via @import) uma folha de estilos de fontes no SVG; a URL fica absoluta, fora do app */
+export function referenceFontCss(svg: string, cssUrl: string): string {
+  return addSvgStyle(svg, `@import url("${new URL(cssUrl, location.href).href}");`);
+}
+
+/** Converte uma medida do SVG ("12pt", "30", "2in") em pixels CSS */
+function toPixels(value: string | null): number | null {
+  if (!value) return null;
+  const match = value.trim().match(/^([\d.]+)\s*(px|pt|in|cm|mm)?$/);
+  if (!match) return null;
+
+  const factors: Record<string, number> = { px: 1, pt: 96 / 72, in: 96, cm: 96 / 2.54, mm: 96 / 25.4 };
+  return parseFloat(match[1]) * factors[match[2] ?? "px"];
+}
+
+/**
+ * Prepara o markup de um <svg> vindo do DOM para virar um arquivo:
+ * garante os namespaces e calcula as dimensões em pixels.
+ */
+export function standaloneSvg(markup: string, fallbackSize?: { width: number; height: number }): SvgImage {
+  const doc = new DOMParser().parseFromString(markup, "text/html");
+  const svg = doc.querySelector("svg");
+  if (!svg) {
+    throw new ExportError("noSvg");
+  }
+
+  const viewBox = svg.getAttribute("viewBox")?.split(/[\s,]+/).map(Number);
+  const width = toPixels(svg.getAttribute("width")) ?? viewBox?.[2] ?? fallbackSize?.width ?? 0;
+  const height = toPixels(svg.getAttribute("height")) ?? viewBox?.[3] ?? fallbackSize?.height ?? 0;
+
+  // O estilo inline é do layout do preview (max-width etc.), não do desenho.
+  // Os namespaces são escritos pelo XMLSerializer.
+  svg.removeAttribute("style");
+
+  return { svg: new XMLSerializer().serializeToString(svg), width, height };
+}
+
+/**
+ * Embrulha a saída HTML do KaTeX num SVG com <foreignObject>.
+ * O elemento é serializado como XHTML, que é o que o SVG aceita.
+ */
+export function katexElementToSvg(element: HTMLElement): SvgImage {
+  const outer = element.getBoundingClientRect();
+
+  // Limites reais da fórmula: em modo display o bloco ocupa a largura toda
+  const parts = Array.from(element.querySelectorAll(".base, .tag")).map((e) => e.getBoundingClientRect());
+  const bounds = parts.length
+    ? {
+        left: Math.min(...parts.map((r) => r.left)),
+        top: Math.min(...parts.map((r) => r.top)),
+        right: Math.max(...parts.map((r) => r.right)),
+        bottom: Math.max(...parts.map((r) => r.bottom)),
+      }
+    : outer;
+  const width = Math.ceil(bounds.right - bounds.left);
+  const height = Math.ceil(bounds.bottom - bounds.top);
+
+  // Mantém a largura original (para o layout não mudar) e desloca o recorte
+  const clone = element.cloneNode(true) as HTMLElement;
+  clone.style.margin = "0";
+  clone.style.width = `${outer.width}px`;
+  clone.style.transform = `translate(${outer.left - bounds.left}px, ${outer.top - bounds.top}px)`;
+  const body = new XMLSerializer().serializeToString(clone);
+
+  const svg =
+    `<svg xmlns="${SVG_NS}" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+    `<foreignObject x="0" y="0" width="${width}" height="${height}">${body}</foreignObject>` +
+    `</svg>`;
+
+  return { svg, width, height };
+}
+
+/** Rasteriza um SVG em PNG; `dpi` 96 corresponde ao tamanho na tela */
+export function svgToPng({ svg, width, height }: SvgImage, dpi: number): Promise<Blob> {
+  const scale = dpi / 96;
+
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.max(1, Math.round(width * scale));
+      canvas.height = Math.max(1, Math.round(height * scale));
+
+      const ctx = canvas.getContext("2d");
+      if (!ctx) {
+        reject(new ExportError("canvas"));
+        return;
+      }
+
+      ctx.fillStyle = "white";
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new ExportError("png"))), "image/png");
+    };
+    image.onerror = () => reject(new ExportError("drawSvg"));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  });
+}
+
+/** Documento .tex compilável (classe standalone) com o código do preview */
+export function standaloneTex(source: string, kind: StandaloneKind, preamble = ""): string {
+  const body = source.trim();
+  const extra = preamble.trim() ? [preamble.trim()] : [];
+
+  if (kind === "tikz") {
+    return [
+      "\\documentclass[border=4pt]{standalone}",
+      "\\usepackage{amsmath,amssymb}",
+      "\\usepackage{tikz}",
+      ...extra,
+      "",
+      "\\begin{document}",
+      body,
+      "\\end{document}",
+      "",
+    ].join("\n");
+  }
+
+  // Ambientes como equation/align já trazem o próprio modo display
+  const math = /^\\begin\{/.test(body) ? body : `\\[\n${body}\n\\]`;
+
+  return [
+    "\\documentclass[preview,border=4pt]{standalone}",
+    "\\usepackage{amsmath,amssymb}",
+    ...extra,
+    "",
+    "\\begin{document}",
+    math,
+    "\\end{document}",
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,41 @@
+/**
+ * Idiomas da interface. Os textos ficam nos catálogos de src/locales (o de
+ * pt-BR é a referência: os outros precisam ter as mesmas chaves).
+ */
+
+import { Messages, ptBR } from "../locales/pt-BR";
+import { en } from "../locales/en";
+import { es } from "../locales/es";
+
+export type { Messages };
+
+export type Locale = "pt-BR" | "en" | "es";
+
+/** Nome de cada idioma nele mesmo, para o seletor */
+export const LOCALES: { id: Locale; label: string }[] = [
+  { id: "pt-BR", label: "Português" },
+  { id: "en", label: "English" },
+  { id: "es", label: "Español" },
+];
+
+export const catalogs: Record<Locale, Messages> = { "pt-BR": ptBR, en, es };
+
+/** Idioma de quem não usa nenhum dos disponíveis */
+export const FALLBACK_LOCALE: Locale = "en";
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.some((l) => l.id === value);
+}
+
+/**
+ * Primeiro idioma do navegador que a interface tem, pela ordem de preferência.
+ * Variantes regionais contam como o idioma (pt-PT -> pt-BR, es-MX -> es).
+ */
+export function detectLocale(languages: readonly string[]): Locale {
+  for (const language of languages) {
+    const base = language.toLowerCase().split("-")[0];
+    const match = LOCALES.find((l) => l.id.toLowerCase().split("-")[0] === base);
+    if (match) return match.id;
+  }
+  return FALLBACK_LOCALE;
+}
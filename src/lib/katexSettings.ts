@@ -0,0 +1,62 @@
+/**
+ * Opções de renderização do KaTeX escolhidas para cada documento.
+ */
+
+import { KatexOptions } from "katex";
+
+export type KatexOutput = "htmlAndMathml" | "html" | "mathml";
+
+export type KatexStrict = "ignore" | "warn" | "error";
+
+export interface KatexSettings {
+  /** HTML (visual) com MathML (leitores de tela), ou só um dos dois */
+  output: KatexOutput;
+  /** Números das equações (\tag) à esquerda */
+  leqno: boolean;
+  /** Equações em destaque alinhadas à esquerda */
+  fleqn: boolean;
+  /** O que fazer com construções que não são LaTeX padrão */
+  strict: KatexStrict;
+  /** Permite \href, \url, \includegraphics e \htmlClass/\htmlData */
+  trust: boolean;
+  /** Limite de expansões de macros (protege contra recursão infinita) */
+  maxExpand: number;
+}
+
+export const defaultKatexSettings: KatexSettings = {
+  output: "htmlAndMathml",
+  leqno: false,
+  fleqn: false,
+  strict: "warn",
+  trust: false,
+  maxExpand: 1000,
+};
+
+export const KATEX_OUTPUTS: KatexOutput[] = ["htmlAndMathml", "html", "mathml"];
+
+export const KATEX_STRICT_MODES: KatexStrict[] = ["ignore", "warn", "error"];
+
+/** Configurações salvas (possivelmente de uma versão anterior) completadas com o padrão */
+export function resolveKatexSettings(settings?: Partial<KatexSettings>): KatexSettings {
+  return { ...defaultKatexSettings, ...settings };
+}
+
+/** Opções do KaTeX para uma fórmula; macros e o tratamento de erros ficam com quem chama */
+export function katexOptions(settings: KatexSettings, displayMode: boolean): KatexOptions {
+  return {
+    displayMode,
+    output: settings.output,
+    leqno: settings.leqno,
+    fleqn: settings.fleqn,
+    strict: settings.strict,
+    trust: settings.trust,
+    maxExpand: settings.maxExpand,
+  };
+}
+
+/** Quantas opções diferem do padrão (para o resumo do painel) */
+export function changedKatexSettings(settings: KatexSettings): number {
+  return (Object.keys(defaultKatexSettings) as (keyof KatexSettings)[]).filter(
+    (key) => settings[key] !== defaultKatexSettings[key]
+  ).length;
+}
@@ -0,0 +1,82 @@
+/**
+ * Vocabulário do autocomplete do editor: comandos LaTeX, palavras-chave do
+ * TikZ e ambientes.
+ */
+
+import { unicodeToLatex } from "./latexSymbols";
+
+export interface CommandCompletion {
+  /** Comando com a barra invertida, ex.: "\\frac" */
+  command: string;
+  /** Texto inserido no lugar do comando; "${}" marca onde o cursor fica */
+  snippet?: string;
+  detail: string;
+}
+
+const latexCommands: CommandCompletion[] = [
+  { command: "\\frac", snippet: "\\frac{${}}{}", detail: "fração" },
+  { command: "\\sqrt", snippet: "\\sqrt{${}}", detail: "raiz" },
+  { command: "\\text", snippet: "\\text{${}}", detail: "texto" },
+  { command: "\\mathbb", snippet: "\\mathbb{${}}", detail: "letra dupla" },
+  { command: "\\mathcal", snippet: "\\mathcal{${}}", detail: "letra caligráfica" },
+  { command: "\\mathrm", snippet: "\\mathrm{${}}", detail: "texto romano" },
+  { command: "\\mathbf", snippet: "\\mathbf{${}}", detail: "negrito" },
+  { command: "\\left", detail: "delimitador" },
+  { command: "\\right", detail: "delimitador" },
+  { command: "\\cdot", detail: "·" },
+  { command: "\\ldots", detail: "…" },
+  { command: "\\cdots", detail: "⋯" },
+  { command: "\\partial", detail: "∂" },
+  { command: "\\nabla", detail: "∇" },
+  { command: "\\lim", snippet: "\\lim_{${}}", detail: "limite" },
+  { command: "\\label", snippet: "\\label{${}}", detail: "rótulo" },
+  { command: "\\tag", snippet: "\\tag{${}}", detail: "número da equação" },
+  { command: "\\newcommand", snippet: "\\newcommand{\\${}}{}", detail: "macro" },
+  { command: "\\begin", detail: "ambiente" },
+  { command: "\\end", detail: "ambiente" },
+];
+
+const tikzCommands: CommandCompletion[] = [
+  { command: "\\draw", snippet: "\\draw ${};", detail: "TikZ" },
+  { command: "\\node", snippet: "\\node (${}) at (0,0) {};", detail: "TikZ" },
+  { command: "\\path", snippet: "\\path ${};", detail: "TikZ" },
+  { command: "\\fill", snippet: "\\fill ${};", detail: "TikZ" },
+  { command: "\\filldraw", snippet: "\\filldraw ${};", detail: "TikZ" },
+  { command: "\\coordinate", snippet: "\\coordinate (${}) at (0,0);", detail: "TikZ" },
+  { command: "\\foreach", snippet: "\\foreach \\x in {${}} {}", detail: "TikZ" },
+  { command: "\\clip", snippet: "\\clip ${};", detail: "TikZ" },
+  { command: "\\shade", snippet: "\\shade ${};", detail: "TikZ" },
+  { command: "\\tikzset", snippet: "\\tikzset{${}}", detail: "TikZ" },
+  { command: "\\usetikzlibrary", snippet: "\\usetikzlibrary{${}}", detail: "TikZ" },
+];
+
+// Símbolos que a normalização do TikZ já conhece (ex.: \alpha para α)
+const symbolCommands: CommandCompletion[] = Object.entries(unicodeToLatex).map(([unicode, command]) => ({
+  command,
+  detail: unicode,
+}));
+
+function uniqueByCommand(completions: CommandCompletion[]): CommandCompletion[] {
+  const seen = new Set<string>();
+  return completions.filter((c) => !seen.has(c.command) && seen.add(c.command));
+}
+
+export const commandCompletions = uniqueByCommand([...latexCommands, ...tikzCommands, ...symbolCommands]);
+
+export const environmentCompletions = [
+  "tikzpicture",
+  "scope",
+  "axis",
+  "equation",
+  "equation*",
+  "align",
+  "align*",
+  "aligned",
+  "gathered",
+  "cases",
+  "matrix",
+  "pmatrix",
+  "bmatrix",
+  "vmatrix",
+  "array",
+];
@@ -0,0 +1,451 @@
+/**
+ * Verificação do código antes de renderizar: os erros que mais quebram o
+ * preview sem que o KaTeX ou o TikZJax digam onde estão. Ambientes e chaves
+ * desbalanceados, \draw sem ";", "\\" fora de um alinhamento, nós que não
+ * existem no diagrama e comandos que o KaTeX não conhece. Cada problema traz a
+ * posição no editor e, quando há uma correção óbvia, as edições que a fazem.
+ */
+
+import katex from "katex";
+import { Token, tokenize } from "./latexTokenizer";
+import { MacroDefinition, parseMacros } from "./macros";
+import { Segment, splitSegments } from "./segments";
+import { SourceRange, TextEdit } from "./sourcePosition";
+
+export type LintSeverity = "error" | "warning";
+
+/** O que foi encontrado; o texto fica nos catálogos de idioma (lint.messages) */
+export type LintMessage =
+  | { code: "unclosed-environment"; name: string }
+  | { code: "unmatched-end"; name: string }
+  | { code: "mismatched-end"; name: string; expected: string }
+  | { code: "unclosed-brace" }
+  | { code: "unmatched-brace" }
+  | { code: "missing-semicolon"; command: string }
+  | { code: "line-break-outside-alignment" }
+  | { code: "undefined-node"; name: string; suggestion?: string }
+  | { code: "katex-unsupported-command"; command: string; replacement?: string }
+  | { code: "katex-unsupported-environment"; name: string };
+
+export type LintCode = LintMessage["code"];
+
+export type LintMessageOf<C extends LintCode> = Extract<LintMessage, { code: C }>;
+
+/** Textos de cada tipo de problema (e da correção, para os que têm uma) */
+export type LintFormatters = { [C in LintCode]: (message: LintMessageOf<C>) => string };
+export type LintFixFormatters = { [C in LintCode]?: (message: LintMessageOf<C>) => string };
+
+export interface LintDiagnostic {
+  severity: LintSeverity;
+  range: SourceRange;
+  message: LintMessage;
+  /** Correção sugerida, em posições do texto verificado */
+  fix?: TextEdit[];
+}
+
+export function formatLintMessage(formatters: LintFormatters, message: LintMessage): string {
+  return (formatters[message.code] as (message: LintMessage) => string)(message);
+}
+
+export function formatLintFix(formatters: LintFixFormatters, message: LintMessage): string | null {
+  const format = formatters[message.code] as ((message: LintMessage) => string) | undefined;
+  return format ? format(message) : null;
+}
+
+/** Texto com os trechos de `ranges` trocados por espaços (as posições continuam as mesmas) */
+function mask(source: string, ranges: SourceRange[]): string {
+  let result = "";
+  let position = 0;
+  for (const range of ranges) {
+    result += source.slice(position, range.start) + " ".repeat(range.end - range.start);
+    position = range.end;
+  }
+  return result + source.slice(position);
+}
+
+/** Tokens de um trecho, com as posições no texto completo */
+function tokensAt(code: string, offset: number): Token[] {
+  return tokenize(code).map((t) => ({ ...t, start: t.start + offset, end: t.end + offset }));
+}
+
+// --- Ambientes ---------------------------------------------------------------
+
+function lintEnvironments(source: string, diagnostics: LintDiagnostic[]) {
+  const stack: { name: string; range: SourceRange }[] = [];
+
+  for (const token of tokenize(source)) {
+    if (token.kind !== "begin" && token.kind !== "end") continue;
+    const name = /\{([^}]*)\}/.exec(token.text)?.[1] ?? "";
+    const range = { start: token.start, end: token.end };
+
+    if (token.kind === "begin") {
+      stack.push({ name, range });
+      continue;
+    }
+
+    const index = stack.map((e) => e.name).lastIndexOf(name);
+    if (index === -1) {
+      const top = stack.pop();
+      diagnostics.push(
+        top
+          ? {
+              severity: "error",
+              range,
+              message: { code: "mismatched-end", name, expected: top.name },
+              fix: [{ range, text: `\\end{${top.name}}` }],
+            }
+          : { severity: "error", range, message: { code: "unmatched-end", name }, fix: [{ range, text: "" }] }
+      );
+      continue;
+    }
+
+    // Os abertos depois do que este \end fecha ficaram sem \end: fecha-os aqui
+    for (const unclosed of stack.splice(index).slice(1).reverse()) {
+      diagnostics.push({
+        severity: "error",
+        range: unclosed.range,
+        message: { code: "unclosed-environment", name: unclosed.name },
+        fix: [{ range: { start: range.start, end: range.start }, text: `\\end{${unclosed.name}}\n` }],
+      });
+    }
+  }
+
+  for (const unclosed of stack.reverse()) {
+    diagnostics.push({
+      severity: "error",
+      range: unclosed.range,
+      message: { code: "unclosed-environment", name: unclosed.name },
+      fix: [{ range: { start: source.length, end: source.length }, text: `\n\\end{${unclosed.name}}` }],
+    });
+  }
+}
+
+// --- Chaves ------------------------------------------------------------------
+
+/**
+ * Chaves sem par num trecho. A correção de uma chave aberta fecha-a em `closeAt`
+ * (o fim do trecho, ou da linha no texto comum)
+ */
+function lintBraces(tokens: Token[], closeAt: (open: Token) => number, diagnostics: LintDiagnostic[]) {
+  const open: Token[] = [];
+
+  for (const token of tokens) {
+    if (token.kind === "open") open.push(token);
+    else if (token.kind === "close" && !open.pop()) {
+      const range = { start: token.start, end: token.end };
+      diagnostics.push({ severity: "error", range, message: { code: "unmatched-brace" }, fix: [{ range, text: "" }] });
+    }
+  }
+
+  for (const token of open) {
+    const at = closeAt(token);
+    diagnostics.push({
+      severity: "error",
+      range: { start: token.start, end: token.end },
+      message: { code: "unclosed-brace" },
+      fix: [{ range: { start: at, end: at }, text: "}" }],
+    });
+  }
+}
+
+// --- Fórmulas ----------------------------------------------------------------
+
+/** Ambientes (e \substack) em que "\\" quebra a linha */
+const ALIGNMENT_ENVIRONMENTS = new Set([
+  "align",
+  "align*",
+  "aligned",
+  "alignat",
+  "alignat*",
+  "alignedat",
+  "gather",
+  "gather*",
+  "gathered",
+  "multline",
+  "multline*",
+  "split",
+  "flalign",
+  "flalign*",
+  "eqnarray",
+  "eqnarray*",
+  "array",
+  "darray",
+  "subarray",
+  "cases",
+  "dcases",
+  "rcases",
+  "drcases",
+  "matrix",
+  "pmatrix",
+  "bmatrix",
+  "Bmatrix",
+  "vmatrix",
+  "Vmatrix",
+  "smallmatrix",
+  "matrix*",
+  "pmatrix*",
+  "bmatrix*",
+  "Bmatrix*",
+  "vmatrix*",
+  "Vmatrix*",
+  "CD",
+]);
+
+/** Trocas para comandos que o KaTeX não tem, quando há um equivalente próximo */
+const KATEX_REPLACEMENTS: Record<string, string> = {
+  "\\mathbbm": "\\mathbb",
+  "\\mathds": "\\mathbb",
+  "\\textsc": "\\text",
+  "\\intertext": "\\text",
+  "\\displaylimits": "\\limits",
+  "\\ensuremath": "",
+};
+
+const katexSupport = new Map<string, boolean>();
+
+/** Pergunta ao próprio KaTeX se ele conhece o comando ou o ambiente (o resultado fica guardado) */
+function katexSupports(probe: string): boolean {
+  let supported = katexSupport.get(probe);
+  if (supported === undefined) {
+    try {
+      katex.renderToString(probe, { throwOnError: true, strict: "ignore" });
+      supported = true;
+    } catch (err) {
+      const message = err instanceof katex.ParseError ? err.message : "";
+      supported = !/Undefined control sequence|No such environment/.test(message);
+    }
+    katexSupport.set(probe, supported);
+  }
+  return supported;
+}
+
+function lintMath(segment: Segment, macroNames: Set<string>, diagnostics: LintDiagnostic[]) {
+  // O "$" na frente põe o tokenizador em modo matemático (o trecho vem sem delimitadores)
+  const tokens = tokensAt(`$${segment.content}`, segment.contentStart - 1).slice(1);
+  const local = new Set(parseMacros(segment.content).macros.map((m) => m.name));
+  const contentEnd = segment.contentStart + segment.content.length;
+
+  // Grupos abertos: ambiente (com onde o conteúdo começa) ou chaves (\substack{...})
+  const scopes: { environment: string | null; contentStart: number; breaks: boolean }[] = [];
+  let substackNext = false;
+
+  for (const token of tokens) {
+    const range = { start: token.start, end: token.end };
+
+    if (token.kind === "begin" || token.kind === "end") {
+      const name = /\{([^}]*)\}/.exec(token.text)?.[1] ?? "";
+      if (token.kind === "begin") {
+        scopes.push({ environment: name, contentStart: token.end, breaks: ALIGNMENT_ENVIRONMENTS.has(name) });
+        if (!katexSupports(`\\begin{${name}}\\end{${name}}`)) {
+          diagnostics.push({ severity: "error", range, message: { code: "katex-unsupported-environment", name } });
+        }
+      } else if (scopes.length && scopes[scopes.length - 1].environment !== null) {
+        scopes.pop();
+      }
+      continue;
+    }
+
+    if (token.kind === "open") {
+      scopes.push({ environment: null, contentStart: token.end, breaks: substackNext });
+      substackNext = false;
+      continue;
+    }
+    if (token.kind === "close") {
+      if (scopes.length && scopes[scopes.length - 1].environment === null) scopes.pop();
+      continue;
+    }
+    if (token.kind !== "space") substackNext = false;
+    if (token.kind !== "command" || token.mode !== "math") continue;
+
+    if (token.text === "\\\\") {
+      const scope = [...scopes].reverse().find((s) => s.environment !== null || s.breaks);
+      if (scope?.breaks) continue;
+
+      // Envolve em aligned o conteúdo do ambiente (ou a fórmula inteira)
+      const start = scope ? scope.contentStart : segment.contentStart;
+      const closing = scope
+        ? tokens.find((t) => t.kind === "end" && t.start >= token.end && t.text.includes(`{${scope.environment}}`))
+        : undefined;
+      const end = closing ? closing.start : contentEnd;
+      diagnostics.push({
+        severity: "warning",
+        range,
+        message: { code: "line-break-outside-alignment" },
+        fix: [
+          { range: { start, end: start }, text: "\\begin{aligned}" },
+          { range: { start: end, end }, text: "\\end{aligned}" },
+        ],
+      });
+      continue;
+    }
+
+    if (token.text === "\\substack") substackNext = true;
+    if (!/^\\[a-zA-Z]+$/.test(token.text) || macroNames.has(token.text) || local.has(token.text)) continue;
+    if (katexSupports(token.text)) continue;
+
+    const replacement = KATEX_REPLACEMENTS[token.text];
+    diagnostics.push({
+      severity: "error",
+      range,
+      message: { code: "katex-unsupported-command", command: token.text, replacement },
+      fix: replacement === undefined ? undefined : [{ range, text: replacement }],
+    });
+  }
+}
+
+// --- TikZ --------------------------------------------------------------------
+
+/** Comandos de caminho, que terminam em ";" */
+const TIKZ_STATEMENTS = new Set([
+  "\\draw",
+  "\\fill",
+  "\\filldraw",
+  "\\path",
+  "\\node",
+  "\\coordinate",
+  "\\shade",
+  "\\shadedraw",
+  "\\clip",
+  "\\pattern",
+  "\\matrix",
+  "\\pic",
+  "\\useasboundingbox",
+  "\\addplot",
+  "\\addplot3",
+]);
+
+function lintSemicolons(tokens: Token[], diagnostics: LintDiagnostic[]) {
+  tokens.forEach((token, index) => {
+    if (token.kind !== "command" || !TIKZ_STATEMENTS.has(token.text)) return;
+
+    let depth = 0;
+    let last = token;
+    for (const next of tokens.slice(index + 1)) {
+      if (next.kind === "open") depth++;
+      else if (next.kind === "close" && --depth < 0) break;
+
+      if (depth === 0) {
+        if (next.kind === "text" && next.text.includes(";")) return;
+        if (next.kind === "begin" || next.kind === "end") break;
+        if (next.kind === "command" && TIKZ_STATEMENTS.has(next.text)) break;
+      }
+      if (next.kind !== "space" && next.kind !== "comment") last = next;
+    }
+
+    diagnostics.push({
+      severity: "error",
+      range: { start: token.start, end: token.end },
+      message: { code: "missing-semicolon", command: token.text },
+      fix: [{ range: { start: last.end, end: last.end }, text: ";" }],
+    });
+  });
+}
+
+/** Trechos entre chaves e colchetes (textos dos nós, opções), que não contêm referências a nós */
+function groupRanges(code: string): SourceRange[] {
+  const ranges: SourceRange[] = [];
+  const stack: number[] = [];
+  for (let i = 0; i < code.length; i++) {
+    const ch = code[i];
+    if (ch === "\\") i++;
+    else if (ch === "{" || ch === "[") stack.push(i);
+    else if ((ch === "}" || ch === "]") && stack.length) {
+      const start = stack.pop()!;
+      if (!stack.length) ranges.push({ start, end: i + 1 });
+    }
+  }
+  return ranges;
+}
+
+/** Distância de edição até 1 (uma letra trocada, faltando ou sobrando) */
+function nearlyEqual(a: string, b: string): boolean {
+  if (Math.abs(a.length - b.length) > 1 || a === b) return false;
+  let i = 0;
+  while (i < a.length && a[i] === b[i]) i++;
+  return (
+    a.slice(i + 1) === b.slice(i + 1) || a.slice(i) === b.slice(i + 1) || a.slice(i + 1) === b.slice(i)
+  );
+}
+
+function lintNodeNames(code: string, offset: number, diagnostics: LintDiagnostic[]) {
+  // Nós criados pela biblioteca graphs ou com outro nome não dá para conferir
+  if (/\\graph\b|\\pgfnodealias/.test(code)) return;
+
+  const clean = mask(
+    code,
+    tokenize(code)
+      .filter((t) => t.kind === "comment")
+      .map((t) => ({ start: t.start, end: t.end }))
+  );
+
+  const names = new Set<string>();
+  const matrices: string[] = [];
+  for (const match of clean.matchAll(/\b(node|coordinate|matrix|pic)\b((?:\s*\[[^\]]*\]|\s*at\s*\([^)]*\))*)\s*\(([^()]+)\)/g)) {
+    const name = match[3].trim();
+    names.add(name);
+    if (match[1] === "matrix") matrices.push(`${name}-`);
+  }
+  for (const match of clean.matchAll(/\b(?:name|alias)\s*=\s*\{?([^,\]}]+)/g)) names.add(match[1].trim());
+  // Nomes gerados num \foreach (n\i) não dá para conferir
+  if ([...names].some((name) => name.includes("\\"))) return;
+
+  const masked = mask(clean, groupRanges(clean));
+  for (const match of masked.matchAll(/\(([^()]*)\)/g)) {
+    const start = match.index! + 1;
+    // (a |- b) e (a -| b): dois nós; (a.north) e (a.30): âncoras do nó
+    for (const part of match[1].matchAll(/[^|]+/g)) {
+      const reference = part[0].replace(/^-|-$/g, "");
+      const name = reference.trim().split(".")[0].trim();
+      if (!name || names.has(name) || matrices.some((prefix) => name.startsWith(prefix))) continue;
+      // Coordenadas, raios (circle (1cm)), variáveis e nós especiais não são nomes
+      if (/[,:$\\]|^current\b|\sand\s|^[-+\d.\s]+(?:pt|cm|mm|in|em|ex|bp)?$/.test(name)) continue;
+
+      const at = start + part.index! + part[0].indexOf(name);
+      // Só sugere quando há um candidato (em "c" com "a" e "b" definidos, não dá para saber)
+      const candidates = name.length > 1 ? [...names].filter((n) => nearlyEqual(n, name)) : [];
+      const suggestion = candidates.length === 1 ? candidates[0] : undefined;
+      const range = { start: offset + at, end: offset + at + name.length };
+      diagnostics.push({
+        severity: "error",
+        range,
+        message: { code: "undefined-node", name, suggestion },
+        fix: suggestion === undefined ? undefined : [{ range, text: suggestion }],
+      });
+    }
+  }
+}
+
+// --- Documento ---------------------------------------------------------------
+
+/** Problemas do documento, na ordem em que aparecem */
+export function lintLatex(source: string, macros: MacroDefinition[] = []): LintDiagnostic[] {
+  const diagnostics: LintDiagnostic[] = [];
+  const segments = splitSegments(source);
+  const macroNames = new Set([...macros, ...parseMacros(source).macros].map((m) => m.name));
+
+  lintEnvironments(source, diagnostics);
+
+  // Chaves do texto comum sem as fórmulas e diagramas no meio ("\textbf{a $x$ b}" fecha)
+  const formulas = segments.filter((s) => s.kind !== "text").map((s) => ({ start: s.start, end: s.end }));
+  const lineEnd = (open: Token) => {
+    const newline = source.indexOf("\n", open.end);
+    return newline === -1 ? source.length : newline;
+  };
+  lintBraces(tokenize(mask(source, formulas)), lineEnd, diagnostics);
+
+  for (const segment of segments) {
+    if (segment.kind === "text") continue;
+    const tokens = tokensAt(segment.content, segment.contentStart);
+    const contentEnd = segment.contentStart + segment.content.length;
+    lintBraces(tokens, () => contentEnd, diagnostics);
+
+    if (segment.kind !== "tikz") {
+      lintMath(segment, macroNames, diagnostics);
+    } else if (!/^\s*\\begin\{tikzcd\}/.test(segment.content)) {
+      lintSemicolons(tokens, diagnostics);
+      lintNodeNames(segment.content, segment.contentStart, diagnostics);
+    }
+  }
+
+  return diagnostics.sort((a, b) => a.range.start - b.range.start);
+}
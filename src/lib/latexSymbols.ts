@@ -0,0 +1,333 @@
+/**
+ * Símbolos unicode e os comandos LaTeX equivalentes. Usado pela normalização
+ * do TikZ (que só aceita ASCII, ver transforms.ts) e pelo autocomplete do editor.
+ */
+
+// Mapa de substituições: caractere unicode -> comando de modo matemático
+export const unicodeToLatex: Record<string, string> = {
+  // Símbolos matemáticos comuns
+  'ε': '\\varepsilon',
+  '→': '\\to',
+  '←': '\\leftarrow',
+  '≥': '\\geq',
+  '≤': '\\leq',
+  '≠': '\\neq',
+  '≈': '\\approx',
+  '±': '\\pm',
+  '×': '\\times',
+  '÷': '\\div',
+  '∞': '\\infty',
+  '∑': '\\sum',
+  '∏': '\\prod',
+  '∫': '\\int',
+  '√': '\\sqrt',
+  'α': '\\alpha',
+  'β': '\\beta',
+  'γ': '\\gamma',
+  'δ': '\\delta',
+  'θ': '\\theta',
+  'λ': '\\lambda',
+  'μ': '\\mu',
+  'π': '\\pi',
+  'σ': '\\sigma',
+  'φ': '\\phi',
+  'ω': '\\omega',
+  'Δ': '\\Delta',
+  'Γ': '\\Gamma',
+  'Λ': '\\Lambda',
+  'Σ': '\\Sigma',
+  'Ω': '\\Omega',
+  'Φ': '\\Phi',
+  'Ψ': '\\Psi',
+  '∈': '\\in',
+  '∉': '\\notin',
+  '⊂': '\\subset',
+  '⊃': '\\supset',
+  '⊆': '\\subseteq',
+  '⊇': '\\supseteq',
+  '∪': '\\cup',
+  '∩': '\\cap',
+  '∅': '\\emptyset',
+  '∧': '\\wedge',
+  '∨': '\\vee',
+  '¬': '\\neg',
+  '∀': '\\forall',
+  '∃': '\\exists',
+  '⇒': '\\Rightarrow',
+  '⇐': '\\Leftarrow',
+  '⇔': '\\Leftrightarrow',
+  '⊕': '\\oplus',
+  '⊗': '\\otimes',
+  '⊥': '\\perp',
+  '∥': '\\parallel',
+  '∠': '\\angle',
+
+  // Letras gregas
+  'ϵ': '\\epsilon',
+  'ζ': '\\zeta',
+  'η': '\\eta',
+  'ϑ': '\\vartheta',
+  'ι': '\\iota',
+  'κ': '\\kappa',
+  'ν': '\\nu',
+  'ξ': '\\xi',
+  'ϖ': '\\varpi',
+  'ρ': '\\rho',
+  'ϱ': '\\varrho',
+  'ς': '\\varsigma',
+  'τ': '\\tau',
+  'υ': '\\upsilon',
+  'ϕ': '\\varphi',
+  'χ': '\\chi',
+  'ψ': '\\psi',
+  'Θ': '\\Theta',
+  'Ξ': '\\Xi',
+  'Π': '\\Pi',
+  'Υ': '\\Upsilon',
+
+  // Cálculo e álgebra
+  '∂': '\\partial',
+  '∇': '\\nabla',
+  '∮': '\\oint',
+  '∬': '\\iint',
+  '∭': '\\iiint',
+  '∐': '\\coprod',
+  '⋃': '\\bigcup',
+  '⋂': '\\bigcap',
+  '⨁': '\\bigoplus',
+  '⨂': '\\bigotimes',
+  '∓': '\\mp',
+  '∘': '\\circ',
+  '∙': '\\bullet',
+  '⋅': '\\cdot',
+  '·': '\\cdot',
+  '∗': '\\ast',
+  '⋆': '\\star',
+  '⊖': '\\ominus',
+  '⊙': '\\odot',
+  '⊘': '\\oslash',
+  '⊎': '\\uplus',
+  '⊓': '\\sqcap',
+  '⊔': '\\sqcup',
+  '⋉': '\\ltimes',
+  '⋊': '\\rtimes',
+  '′': '\\prime',
+  'ℓ': '\\ell',
+  'ℏ': '\\hbar',
+  'ℵ': '\\aleph',
+  'ℶ': '\\beth',
+  '℘': '\\wp',
+  'ℑ': '\\Im',
+  'ℜ': '\\Re',
+
+  // Relações
+  '∼': '\\sim',
+  '≃': '\\simeq',
+  '≅': '\\cong',
+  '≡': '\\equiv',
+  '≪': '\\ll',
+  '≫': '\\gg',
+  '∝': '\\propto',
+  '≍': '\\asymp',
+  '≐': '\\doteq',
+  '≺': '\\prec',
+  '≻': '\\succ',
+  '≼': '\\preceq',
+  '≽': '\\succeq',
+  '⩽': '\\leqslant',
+  '⩾': '\\geqslant',
+  '≲': '\\lesssim',
+  '≳': '\\gtrsim',
+  '≮': '\\nless',
+  '≯': '\\ngtr',
+  '≰': '\\nleq',
+  '≱': '\\ngeq',
+  '∣': '\\mid',
+  '∤': '\\nmid',
+  '⊊': '\\subsetneq',
+  '⊋': '\\supsetneq',
+  '⊈': '\\nsubseteq',
+  '⊉': '\\nsupseteq',
+  '⊑': '\\sqsubseteq',
+  '⊒': '\\sqsupseteq',
+  '∋': '\\ni',
+  '∖': '\\setminus',
+  '∁': '\\complement',
+  '⊢': '\\vdash',
+  '⊣': '\\dashv',
+  '⊨': '\\models',
+  '⊤': '\\top',
+  '∄': '\\nexists',
+  '∴': '\\therefore',
+  '∵': '\\because',
+
+  // Setas
+  '↑': '\\uparrow',
+  '↓': '\\downarrow',
+  '↔': '\\leftrightarrow',
+  '↦': '\\mapsto',
+  '↗': '\\nearrow',
+  '↘': '\\searrow',
+  '↖': '\\nwarrow',
+  '↙': '\\swarrow',
+  '↪': '\\hookrightarrow',
+  '↩': '\\hookleftarrow',
+  '⇑': '\\Uparrow',
+  '⇓': '\\Downarrow',
+  '⇌': '\\rightleftharpoons',
+  '⟶': '\\longrightarrow',
+  '⟵': '\\longleftarrow',
+  '⟷': '\\longleftrightarrow',
+  '⟼': '\\longmapsto',
+  '⟹': '\\Longrightarrow',
+  '⟸': '\\Longleftarrow',
+  '⟺': '\\Longleftrightarrow',
+
+  // Delimitadores e reticências
+  '⟨': '\\langle',
+  '⟩': '\\rangle',
+  '⌊': '\\lfloor',
+  '⌋': '\\rfloor',
+  '⌈': '\\lceil',
+  '⌉': '\\rceil',
+  '…': '\\ldots',
+  '⋯': '\\cdots',
+  '⋮': '\\vdots',
+  '⋱': '\\ddots',
+
+  // Diversos
+  '∡': '\\measuredangle',
+  '□': '\\square',
+  '■': '\\blacksquare',
+  '✓': '\\checkmark',
+  '♠': '\\spadesuit',
+  '♥': '\\heartsuit',
+  '♦': '\\diamondsuit',
+  '♣': '\\clubsuit',
+  '♭': '\\flat',
+  '♮': '\\natural',
+  '♯': '\\sharp',
+};
+
+/** Caracteres que viram algo além de um comando (só em fórmulas) */
+export const unicodeToMathExpression: Record<string, string> = {
+  '°': '^{\\circ}',
+  '″': "''",
+  '‴': "'''",
+};
+
+/** Pontuação e letras que têm comando próprio no modo texto */
+export const unicodeToTextLatex: Record<string, string> = {
+  '“': '``',
+  '”': "''",
+  '‘': '`',
+  '’': "'",
+  '–': '--',
+  '—': '---',
+  '…': '\\ldots',
+  '\u00a0': '~',
+  '¿': '?`',
+  '¡': '!`',
+  'ß': '\\ss',
+  'æ': '\\ae',
+  'Æ': '\\AE',
+  'œ': '\\oe',
+  'Œ': '\\OE',
+  'ø': '\\o',
+  'Ø': '\\O',
+  'ł': '\\l',
+  'Ł': '\\L',
+  'ı': '\\i',
+  '§': '\\S',
+  '¶': '\\P',
+  '©': '\\copyright',
+  '£': '\\pounds',
+  '†': '\\dag',
+  '‡': '\\ddag',
+  '•': '\\textbullet',
+};
+
+/** Índices e expoentes unicode (x², aₙ) e o caractere que representam */
+export const unicodeSuperscripts: Record<string, string> = {
+  '⁰': '0', '¹': '1', '²': '2', '³': '3', '⁴': '4', '⁵': '5', '⁶': '6', '⁷': '7', '⁸': '8', '⁹': '9',
+  '⁺': '+', '⁻': '-', '⁼': '=', '⁽': '(', '⁾': ')', 'ⁿ': 'n', 'ⁱ': 'i',
+};
+
+export const unicodeSubscripts: Record<string, string> = {
+  '₀': '0', '₁': '1', '₂': '2', '₃': '3', '₄': '4', '₅': '5', '₆': '6', '₇': '7', '₈': '8', '₉': '9',
+  '₊': '+', '₋': '-', '₌': '=', '₍': '(', '₎': ')', 'ₐ': 'a', 'ₑ': 'e', 'ₒ': 'o', 'ₓ': 'x',
+  'ₕ': 'h', 'ₖ': 'k', 'ₗ': 'l', 'ₘ': 'm', 'ₙ': 'n', 'ₚ': 'p', 'ₛ': 's', 'ₜ': 't', 'ᵢ': 'i', 'ⱼ': 'j',
+};
+
+/**
+ * Acentos (marcas combinantes, como na forma NFD do unicode) e os comandos que
+ * os aplicam a uma letra, no texto e em fórmulas. null: sem equivalente.
+ */
+export const combiningAccents: Record<string, { text: string; math: string | null }> = {
+  '\u0300': { text: '\\`', math: '\\grave' },
+  '\u0301': { text: "\\'", math: '\\acute' },
+  '\u0302': { text: '\\^', math: '\\hat' },
+  '\u0303': { text: '\\~', math: '\\tilde' },
+  '\u0304': { text: '\\=', math: '\\bar' },
+  '\u0306': { text: '\\u', math: '\\breve' },
+  '\u0307': { text: '\\.', math: '\\dot' },
+  '\u0308': { text: '\\"', math: '\\ddot' },
+  '\u030a': { text: '\\r', math: '\\mathring' },
+  '\u030b': { text: '\\H', math: null },
+  '\u030c': { text: '\\v', math: '\\check' },
+  '\u0323': { text: '\\d', math: null },
+  '\u0327': { text: '\\c', math: null },
+  '\u0331': { text: '\\b', math: null },
+};
+
+// Letras duplas, caligráficas e góticas que ficam fora do bloco de alfanuméricos matemáticos
+const letterlikeAlphabets: Record<string, string> = {
+  'ℂ': '\\mathbb{C}',
+  'ℍ': '\\mathbb{H}',
+  'ℕ': '\\mathbb{N}',
+  'ℙ': '\\mathbb{P}',
+  'ℚ': '\\mathbb{Q}',
+  'ℝ': '\\mathbb{R}',
+  'ℤ': '\\mathbb{Z}',
+  'ℬ': '\\mathcal{B}',
+  'ℰ': '\\mathcal{E}',
+  'ℱ': '\\mathcal{F}',
+  'ℋ': '\\mathcal{H}',
+  'ℐ': '\\mathcal{I}',
+  'ℒ': '\\mathcal{L}',
+  'ℳ': '\\mathcal{M}',
+  'ℛ': '\\mathcal{R}',
+  'ℭ': '\\mathfrak{C}',
+  'ℌ': '\\mathfrak{H}',
+  'ℨ': '\\mathfrak{Z}',
+  'ℎ': 'h',
+};
+
+// Bloco de alfanuméricos matemáticos (U+1D400...): A-Z e a-z de cada estilo, em sequência.
+// \mathbb e \mathcal só têm maiúsculas.
+const mathAlphabets: { start: number; command: string | null; lowercase: boolean }[] = [
+  { start: 0x1d400, command: '\\mathbf', lowercase: true },
+  { start: 0x1d434, command: null, lowercase: true },
+  { start: 0x1d49c, command: '\\mathcal', lowercase: false },
+  { start: 0x1d504, command: '\\mathfrak', lowercase: true },
+  { start: 0x1d538, command: '\\mathbb', lowercase: false },
+  { start: 0x1d5a0, command: '\\mathsf', lowercase: true },
+  { start: 0x1d670, command: '\\mathtt', lowercase: true },
+];
+
+/** ℝ -> \mathbb{R}, 𝒜 -> \mathcal{A}, 𝐯 -> \mathbf{v}; null se não for uma dessas letras */
+export function mathAlphanumericToLatex(char: string): string | null {
+  if (char in letterlikeAlphabets) return letterlikeAlphabets[char];
+
+  const code = char.codePointAt(0) ?? 0;
+  // Dígitos em negrito (U+1D7CE...)
+  if (code >= 0x1d7ce && code < 0x1d7d8) return `\\mathbf{${code - 0x1d7ce}}`;
+
+  for (const { start, command, lowercase } of mathAlphabets) {
+    const index = code - start;
+    if (index < 0 || index >= 52 || (index >= 26 && !lowercase)) continue;
+    const letter = String.fromCharCode(index < 26 ? 65 + index : 97 + index - 26);
+    return command ? `${command}{${letter}}` : letter;
+  }
+  return null;
+}
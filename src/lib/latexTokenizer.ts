@@ -0,0 +1,228 @@
+/**
+ * Tokenizador de LaTeX, suficiente para transformar o código sem quebrá-lo:
+ * sabe se cada trecho está em modo texto ou matemático, respeita escapes
+ * (\$, \%, \{), chaves, comentários e argumentos que não podem ser alterados
+ * (\verb, \url, \special...).
+ */
+
+export type TokenKind =
+  | "command"
+  | "text"
+  | "space"
+  | "math-shift"
+  | "open"
+  | "close"
+  | "begin"
+  | "end"
+  | "comment"
+  | "verbatim";
+
+export type TokenMode = "text" | "math";
+
+export interface Token {
+  kind: TokenKind;
+  text: string;
+  /** Posição no código: [start, end) */
+  start: number;
+  end: number;
+  /** Modo em que o token aparece (delimitadores de fórmula contam como "math") */
+  mode: TokenMode;
+}
+
+/** Comandos que, dentro de uma fórmula, recebem texto como argumento */
+const TEXT_ARGUMENT_COMMANDS = new Set([
+  "\\text",
+  "\\textrm",
+  "\\textbf",
+  "\\textit",
+  "\\textsf",
+  "\\texttt",
+  "\\textnormal",
+  "\\textup",
+  "\\mbox",
+  "\\hbox",
+  "\\intertext",
+]);
+
+/** Comandos que, no texto, recebem uma fórmula como argumento */
+const MATH_ARGUMENT_COMMANDS = new Set(["\\ensuremath"]);
+
+/** Comandos cujo argumento entre chaves é copiado sem interpretação */
+const VERBATIM_ARGUMENT_COMMANDS = new Set([
+  "\\url",
+  "\\href",
+  "\\special",
+  "\\label",
+  "\\ref",
+  "\\eqref",
+  "\\input",
+  "\\include",
+  "\\includegraphics",
+  "\\usepackage",
+  "\\usetikzlibrary",
+]);
+
+const MATH_ENVIRONMENTS = new Set([
+  "equation",
+  "equation*",
+  "align",
+  "align*",
+  "gather",
+  "gather*",
+  "multline",
+  "multline*",
+  "displaymath",
+  "math",
+]);
+
+const SPECIAL = /[\\{}$%\s]/;
+
+// Regexes ancoradas na posição atual (lastIndex), sem copiar o resto do código a cada "\"
+const ENVIRONMENT = /\\(begin|end)\s*\{([^}]*)\}/y;
+const VERB = /\\verb\*?([^a-zA-Z\s*])/y;
+const COMMAND_NAME = /\\(?:[a-zA-Z@]+\*?|.)/y;
+
+/** Casa `pattern` (com a flag y) exatamente na posição `index` */
+function matchAt(pattern: RegExp, source: string, index: number): RegExpExecArray | null {
+  pattern.lastIndex = index;
+  return pattern.exec(source);
+}
+
+export function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let mode: TokenMode = "text";
+  // Modo a restaurar em cada "}" e em cada \end de ambiente matemático
+  const groups: TokenMode[] = [];
+  const environments: TokenMode[] = [];
+  // Modo do próximo grupo, quando ele é argumento de \text, \ensuremath...
+  let nextGroupMode: TokenMode | null = null;
+  let verbatimNext = false;
+  let i = 0;
+
+  const push = (kind: TokenKind, end: number, tokenMode: TokenMode = mode) => {
+    tokens.push({ kind, text: source.slice(i, end), start: i, end, mode: tokenMode });
+    i = end;
+  };
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (/\s/.test(ch)) {
+      let end = i + 1;
+      while (end < source.length && /\s/.test(source[end])) end++;
+      push("space", end);
+      continue;
+    }
+
+    if (ch === "%") {
+      const newline = source.indexOf("\n", i);
+      push("comment", newline === -1 ? source.length : newline);
+      continue;
+    }
+
+    if (ch === "{" && verbatimNext) {
+      verbatimNext = false;
+      let depth = 0;
+      let end = i;
+      for (; end < source.length; end++) {
+        if (source[end] === "\\") end++;
+        else if (source[end] === "{") depth++;
+        else if (source[end] === "}" && --depth === 0) break;
+      }
+      push("verbatim", Math.min(end + 1, source.length));
+      continue;
+    }
+    verbatimNext = false;
+
+    if (ch === "{") {
+      groups.push(mode);
+      push("open", i + 1);
+      mode = nextGroupMode ?? mode;
+      nextGroupMode = null;
+      continue;
+    }
+    nextGroupMode = null;
+
+    if (ch === "}") {
+      push("close", i + 1);
+      mode = groups.pop() ?? mode;
+      continue;
+    }
+
+    if (ch === "$") {
+      push("math-shift", source.startsWith("$$", i) ? i + 2 : i + 1, "math");
+      mode = mode === "math" ? "text" : "math";
+      continue;
+    }
+
+    if (ch === "\\") {
+      const next = source[i + 1] ?? "";
+
+      // \( \) \[ \] abrem e fecham fórmulas
+      if (next === "(" || next === "[") {
+        push("math-shift", i + 2, "math");
+        mode = "math";
+        continue;
+      }
+      if (next === ")" || next === "]") {
+        push("math-shift", i + 2, "math");
+        mode = "text";
+        continue;
+      }
+
+      const environment = matchAt(ENVIRONMENT, source, i);
+      if (environment) {
+        const [text, which, name] = environment;
+        const isMath = MATH_ENVIRONMENTS.has(name);
+        if (which === "begin") {
+          push("begin", i + text.length);
+          if (isMath) {
+            environments.push(mode);
+            mode = "math";
+          }
+        } else {
+          push("end", i + text.length);
+          if (isMath) mode = environments.pop() ?? "text";
+        }
+        continue;
+      }
+
+      // \verb|...| com qualquer delimitador
+      const verb = matchAt(VERB, source, i);
+      if (verb) {
+        const close = source.indexOf(verb[1], i + verb[0].length);
+        push("verbatim", close === -1 ? source.length : close + 1);
+        continue;
+      }
+
+      const name = matchAt(COMMAND_NAME, source, i);
+      const command = name ? name[0] : "\\";
+      push("command", i + command.length);
+
+      if (mode === "math" && TEXT_ARGUMENT_COMMANDS.has(command)) nextGroupMode = "text";
+      else if (mode === "text" && MATH_ARGUMENT_COMMANDS.has(command)) nextGroupMode = "math";
+      verbatimNext = VERBATIM_ARGUMENT_COMMANDS.has(command);
+      continue;
+    }
+
+    let end = i + 1;
+    while (end < source.length && !SPECIAL.test(source[end])) end++;
+    push("text", end);
+  }
+
+  return tokens;
+}
+
+/** Junta os tokens de volta no código */
+export function untokenize(tokens: Token[]): string {
+  return tokens.map((t) => t.text).join("");
+}
+
+/** A posição está depois de um "%" (não escapado) na mesma linha */
+export function inComment(code: string, index: number): boolean {
+  for (let i = code.lastIndexOf("\n", index - 1) + 1; i < index; i++) {
+    if (code[i] === "\\") i++;
+    else if (code[i] === "%") return true;
+  }
+  return false;
+}
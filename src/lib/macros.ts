@@ -0,0 +1,173 @@
+/**
+ * Macros do usuário (\newcommand e afins), compartilhadas pelo KaTeX e pelo TikZ.
+ * A biblioteca é guardada como texto no formato de um .sty.
+ */
+
+import { SourceRange } from "./sourcePosition";
+
+export interface MacroDefinition {
+  /** Nome com a barra invertida, ex.: "\\R" */
+  name: string;
+  /** Número de argumentos (#1, #2...) */
+  params: number;
+  /** Valor padrão do primeiro argumento, quando ele é opcional */
+  defaultArg?: string;
+  body: string;
+}
+
+export interface ParsedMacros {
+  macros: MacroDefinition[];
+  /** Onde cada definição está no texto, na mesma ordem de `macros` */
+  ranges: SourceRange[];
+}
+
+const DEFINITION = /\\(?:re)?newcommand\*?|\\providecommand\*?|\\DeclareMathOperator\*?/y;
+
+/** Lê um grupo {...} com chaves balanceadas a partir de `i` (ignorando espaços) */
+function readGroup(text: string, i: number): { content: string; end: number } | null {
+  while (/\s/.test(text[i] ?? "")) i++;
+  if (text[i] !== "{") return null;
+
+  let depth = 0;
+  for (let j = i; j < text.length; j++) {
+    if (text[j] === "\\") {
+      j++;
+    } else if (text[j] === "{") {
+      depth++;
+    } else if (text[j] === "}" && --depth === 0) {
+      return { content: text.slice(i + 1, j), end: j + 1 };
+    }
+  }
+  return null;
+}
+
+/** Lê um argumento opcional [...] a partir de `i` (ignorando espaços) */
+function readOptional(text: string, i: number): { content: string; end: number } | null {
+  const match = /\s*\[([^\]]*)\]/y;
+  match.lastIndex = i;
+  const result = match.exec(text);
+  return result ? { content: result[1], end: match.lastIndex } : null;
+}
+
+/** Nome da macro: "{\nome}" ou "\nome" */
+function readName(text: string, i: number): { name: string; end: number } | null {
+  const group = readGroup(text, i);
+  if (group) {
+    const name = group.content.trim();
+    return /^\\[a-zA-Z@]+$/.test(name) ? { name, end: group.end } : null;
+  }
+
+  const bare = /\s*(\\[a-zA-Z@]+)/y;
+  bare.lastIndex = i;
+  const match = bare.exec(text);
+  return match ? { name: match[1], end: bare.lastIndex } : null;
+}
+
+/** Encontra as definições de macros no texto (comentários com % são ignorados) */
+export function parseMacros(text: string): ParsedMacros {
+  const macros: MacroDefinition[] = [];
+  const ranges: SourceRange[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "%") {
+      const newline = text.indexOf("\n", i);
+      i = newline === -1 ? text.length : newline;
+      continue;
+    }
+    if (text[i] !== "\\") continue;
+
+    DEFINITION.lastIndex = i;
+    const command = DEFINITION.exec(text);
+    if (!command) {
+      i++; // pula o caractere escapado
+      continue;
+    }
+
+    const name = readName(text, DEFINITION.lastIndex);
+    if (!name) continue;
+
+    let end = name.end;
+    let params = 0;
+    let defaultArg: string | undefined;
+
+    const isOperator = command[0].startsWith("\\DeclareMathOperator");
+    if (!isOperator) {
+      const count = readOptional(text, end);
+      if (count && /^\d$/.test(count.content.trim())) {
+        params = Number(count.content.trim());
+        end = count.end;
+
+        const optional = readOptional(text, end);
+        if (optional) {
+          defaultArg = optional.content;
+          end = optional.end;
+        }
+      }
+    }
+
+    const body = readGroup(text, end);
+    if (!body) continue;
+
+    macros.push({
+      name: name.name,
+      params,
+      defaultArg,
+      // \DeclareMathOperator*{\argmax}{arg\,max} vira \operatorname*{arg\,max}
+      body: isOperator
+        ? `\\operatorname${command[0].endsWith("*") ? "*" : ""}{${body.content}}`
+        : body.content,
+    });
+    ranges.push({ start: i, end: body.end });
+    i = body.end - 1;
+  }
+
+  return { macros, ranges };
+}
+
+/** Junta listas de macros; em nomes repetidos, vale a última definição */
+export function mergeMacros(...lists: MacroDefinition[][]): MacroDefinition[] {
+  const byName = new Map<string, MacroDefinition>();
+  for (const macro of lists.flat()) {
+    byName.set(macro.name, macro);
+  }
+  return [...byName.values()];
+}
+
+/**
+ * Formato da opção `macros` do KaTeX. O KaTeX conta os argumentos pelos #n
+ * do corpo; argumento opcional com valor padrão não é suportado e vira obrigatório.
+ */
+export function macrosToKatex(macros: MacroDefinition[]): Record<string, string> {
+  return Object.fromEntries(macros.map((m) => [m.name, m.body]));
+}
+
+export function formatMacro({ name, params, defaultArg, body }: MacroDefinition): string {
+  const count = params ? `[${params}]` : "";
+  const optional = defaultArg !== undefined ? `[${defaultArg}]` : "";
+  return `\\newcommand{${name}}${count}${optional}{${body}}`;
+}
+
+/**
+ * Preâmbulo para o TikZ. Usa \providecommand para não falhar em nomes que
+ * já existem no LaTeX (como faria um \newcommand), e \renewcommand em seguida
+ * para que a definição do usuário prevaleça.
+ */
+export function macrosToPreamble(macros: MacroDefinition[]): string {
+  return macros
+    .map((m) => {
+      const definition = formatMacro(m).slice("\\newcommand".length);
+      return `\\providecommand${definition}\\renewcommand${definition}`;
+    })
+    .join("\n");
+}
+
+/** Biblioteca no formato de um .sty, para exportar e compartilhar */
+export function serializeLibrary(macros: MacroDefinition[]): string {
+  return [
+    "% Biblioteca de macros do LaTeX Live Preview",
+    "\\ProvidesPackage{macros}",
+    "",
+    ...macros.map(formatMacro),
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,26 @@
+/**
+ * Links compartilháveis: o código LaTeX vai comprimido no hash da URL
+ * (#code=...), então nada sai do navegador de quem compartilha.
+ */
+
+import { compressToEncodedURIComponent, decompressFromEncodedURIComponent } from "lz-string";
+
+const HASH_PREFIX = "#code=";
+
+export function buildPermalink(source: string): string {
+  const url = new URL(window.location.href);
+  url.hash = `${HASH_PREFIX.slice(1)}${compressToEncodedURIComponent(source)}`;
+  return url.href;
+}
+
+/** Código do hash atual, ou null se a URL não tem um link compartilhado válido */
+export function readPermalink(hash = window.location.hash): string | null {
+  if (!hash.startsWith(HASH_PREFIX)) return null;
+  // Retorna null (e não "") quando o conteúdo está corrompido
+  return decompressFromEncodedURIComponent(hash.slice(HASH_PREFIX.length)) || null;
+}
+
+/** Remove o hash sem recarregar nem criar entrada no histórico */
+export function clearPermalink() {
+  history.replaceState(null, "", window.location.pathname + window.location.search);
+}
@@ -0,0 +1,105 @@
+/**
+ * Parâmetros numéricos dos gráficos do pgfplots, que o preview mostra como
+ * controles deslizantes:
+ *   \def\a{1.5}   \pgfmathsetmacro{\k}{2}   \pgfmathsetmacro\k{2}
+ * Um comentário na mesma linha define o intervalo (e o passo) do controle:
+ *   \def\a{1.5} % -5..5 step 0.5
+ * Só valem as definições dentro do código do diagrama; as posições são
+ * relativas a ele.
+ */
+
+import { inComment } from "./latexTokenizer";
+import { SourceRange, TextEdit } from "./sourcePosition";
+
+export interface SliderBounds {
+  min: number;
+  max: number;
+  step: number;
+}
+
+export interface PlotParameter {
+  /** Nome com a barra invertida, ex.: "\\a" */
+  name: string;
+  value: number;
+  /** O número entre as chaves */
+  valueRange: SourceRange;
+  /** Intervalo escrito no comentário da linha, se houver */
+  bounds: SliderBounds | null;
+}
+
+const NUMBER = String.raw`-?(?:\d+\.?\d*|\.\d+)`;
+
+const parameterPattern = new RegExp(
+  String.raw`\\(?:def\s*(\\[a-zA-Z@]+)|pgfmathsetmacro\s*(?:\{\s*(\\[a-zA-Z@]+)\s*\}|(\\[a-zA-Z@]+)))\s*\{\s*(${NUMBER})\s*\}`,
+  "g"
+);
+
+const boundsPattern = new RegExp(String.raw`^[^%]*%\s*(${NUMBER})\s*\.\.\s*(${NUMBER})(?:\s+step\s+(${NUMBER}))?`);
+
+/** O diagrama desenha gráficos do pgfplots (\addplot fora de comentários) */
+export function isPlot(code: string): boolean {
+  for (const match of code.matchAll(/\\addplot\b/g)) {
+    if (!inComment(code, match.index!)) return true;
+  }
+  return false;
+}
+
+/** Passo de um controle: cerca de cem posições no intervalo, numa potência de 10 */
+function defaultStep(min: number, max: number): number {
+  return 10 ** Math.floor(Math.log10((max - min || 1) / 100));
+}
+
+/** Intervalo de um controle sem comentário: de 0 ao dobro do valor (ou de -1 a 1, para 0) */
+export function sliderBounds(value: number): SliderBounds {
+  const span = Math.max(Math.abs(value), 1) * 2;
+  const [min, max] = value > 0 ? [0, span] : value < 0 ? [-span, 0] : [-1, 1];
+  return { min, max, step: defaultStep(min, max) };
+}
+
+export function parsePlotParameters(code: string): PlotParameter[] {
+  const parameters: PlotParameter[] = [];
+  const seen = new Set<string>();
+
+  for (const match of code.matchAll(parameterPattern)) {
+    if (inComment(code, match.index!)) continue;
+    const name = match[1] ?? match[2] ?? match[3];
+    // Redefinições (\pgfmathsetmacro dentro de um \foreach...) ficam com a primeira
+    if (seen.has(name)) continue;
+    seen.add(name);
+
+    const end = match.index! + match[0].length;
+    const start = code.lastIndexOf(match[4], end);
+    const lineEnd = code.indexOf("\n", end);
+    const rest = code.slice(end, lineEnd === -1 ? undefined : lineEnd);
+    const annotation = boundsPattern.exec(rest);
+
+    let bounds: SliderBounds | null = null;
+    if (annotation) {
+      const [min, max] = [Number(annotation[1]), Number(annotation[2])].sort((a, b) => a - b);
+      bounds = { min, max, step: annotation[3] ? Math.abs(Number(annotation[3])) : defaultStep(min, max) };
+    }
+
+    parameters.push({
+      name,
+      value: Number(match[4]),
+      valueRange: { start, end: start + match[4].length },
+      bounds,
+    });
+  }
+  return parameters;
+}
+
+/** Casas decimais de um número como o JavaScript o escreve (0.25 -> 2, 1e-7 -> 7) */
+function decimalPlaces(value: number): number {
+  const [mantissa, exponent = "0"] = String(value).split("e");
+  return Math.max(0, (mantissa.split(".")[1]?.length ?? 0) - Number(exponent));
+}
+
+/** Escreve o número com as casas decimais do passo (0.30000000000000004 -> 0.3; passo 0.25 -> 0.75) */
+export function formatParameterValue(value: number, step: number): string {
+  return String(Number(value.toFixed(Math.min(decimalPlaces(step), 100))));
+}
+
+export function setParameterValue(parameter: PlotParameter, value: number, step: number): TextEdit {
+  return { range: parameter.valueRange, text: formatParameterValue(value, step) };
+}
@@ -0,0 +1,140 @@
+/**
+ * Preparação do código antes de renderizar: delimitadores das fórmulas,
+ * correções do TikZ (transforms.ts), preâmbulo e macros. Não depende de React
+ * nem do DOM, e é a mesma no preview e na linha de comando (scripts/render.ts).
+ */
+
+import { MacroDefinition, macrosToKatex, macrosToPreamble, mergeMacros, parseMacros } from "./macros";
+import {
+  TikzPreambleConfig,
+  detectPreamble,
+  emptyTikzPreamble,
+  mergePreambles,
+  parseDocumentPreamble,
+} from "./tikzPreamble";
+import { instrumentedTikz } from "./sourceMap";
+import { TransformPass, runTransforms, transformPasses } from "./transforms";
+
+export interface NormalizedLatex {
+  math: string;
+  /** Onde `math` começa dentro da entrada original */
+  offset: number;
+  /** Modo indicado pelos delimitadores ou pelo ambiente; null se não houver nenhum */
+  displayMode: boolean | null;
+}
+
+const MATH_DELIMITERS: [open: string, close: string, displayMode: boolean][] = [
+  ["\\[", "\\]", true],
+  ["$$", "$$", true],
+  ["\\(", "\\)", false],
+  ["$", "$", false],
+];
+
+// Ambientes que o KaTeX só aceita em modo display
+const DISPLAY_ENVIRONMENT = /^\\begin\{(?:equation|align|alignat|gather|multline|flalign|CD)\*?\}/;
+
+export function normalizeLatex(input: string): NormalizedLatex {
+  let start = 0;
+  let end = input.length;
+  let displayMode: boolean | null = null;
+
+  const trim = () => {
+    while (start < end && /\s/.test(input[start])) start++;
+    while (end > start && /\s/.test(input[end - 1])) end--;
+  };
+
+  trim();
+
+  // Remove delimitadores \[ ... \], $$ ... $$, \( ... \), $ ... $
+  // para que o KaTeX receba só o conteúdo interno, guardando o modo que eles indicam.
+  // Trabalha com índices (e não com slices) para saber onde o conteúdo
+  // começa no texto original e assim apontar a posição dos erros.
+  for (const [open, close, display] of MATH_DELIMITERS) {
+    const s = input.slice(start, end);
+    if (s.length < open.length + close.length || !s.startsWith(open) || !s.endsWith(close)) continue;
+    // "$a$ e $b$" são duas fórmulas, não uma
+    if (open === "$" && s.slice(1, -1).includes("$")) continue;
+
+    start += open.length;
+    end -= close.length;
+    displayMode ??= display;
+    trim();
+  }
+
+  const math = input.slice(start, end);
+  if (displayMode === null && DISPLAY_ENVIRONMENT.test(math)) displayMode = true;
+
+  return { math, offset: start, displayMode };
+}
+
+/**
+ * Macros no formato do KaTeX. As redefinidas na própria fórmula ficam de fora:
+ * o \newcommand do KaTeX falha se o nome já existe. E o KaTeX grava no objeto
+ * o que o \gdef definir, então cada render precisa de um objeto novo.
+ */
+export function katexMacros(math: string, macros: MacroDefinition[]): Record<string, string> {
+  const local = new Set(parseMacros(math).macros.map((m) => m.name));
+  return macrosToKatex(macros.filter((m) => !local.has(m.name)));
+}
+
+export interface TikzOptions {
+  /** Correções aplicadas ao código (padrão: todas) */
+  transforms?: TransformPass[];
+  /** Bibliotecas, pacotes e estilos do documento */
+  preamble?: TikzPreambleConfig;
+  macros?: MacroDefinition[];
+}
+
+export interface PreparedTikz {
+  /** Código corrigido para o TikZJax */
+  code: string;
+  /**
+   * O que o TeX compila: o mesmo código, com a posição de cada nó marcada no
+   * SVG (ver sourceMap.ts). É a entrada do preview, dos testes e da linha de comando.
+   */
+  texCode: string;
+  /** Caracteres que ficaram sem equivalente em LaTeX */
+  unmapped: string[];
+  /** Preâmbulo do documento somado ao que o código exige */
+  config: TikzPreambleConfig;
+  /** O que vai no preâmbulo além de bibliotecas e pacotes: macros e \tikzset */
+  texPreamble: string;
+}
+
+export function prepareTikz(
+  code: string,
+  { transforms = transformPasses, preamble = emptyTikzPreamble, macros = [] }: TikzOptions = {}
+): PreparedTikz {
+  const transformed = runTransforms(code.trim(), transforms);
+  const config = mergePreambles(preamble, detectPreamble(transformed.output));
+
+  const parts = [macrosToPreamble(macros)];
+  if (config.tikzset.trim()) parts.push(`\\tikzset{${config.tikzset.trim()}}`);
+
+  return {
+    code: transformed.output,
+    texCode: instrumentedTikz(code, transforms),
+    unmapped: transformed.unmapped,
+    config,
+    texPreamble: parts.filter(Boolean).join("\n"),
+  };
+}
+
+export interface DocumentContext {
+  /** Macros da biblioteca + \newcommand do documento (que prevalecem) */
+  macros: MacroDefinition[];
+  /** \usetikzlibrary/\usepackage/\tikzset escritos no texto, somados ao preâmbulo fixado */
+  preamble: TikzPreambleConfig;
+}
+
+/** O que o documento declara para todos os seus trechos, como o App monta para o preview */
+export function documentContext(
+  source: string,
+  libraryMacros: MacroDefinition[] = [],
+  pinnedPreamble = emptyTikzPreamble
+): DocumentContext {
+  return {
+    macros: mergeMacros(libraryMacros, parseMacros(source).macros),
+    preamble: mergePreambles(pinnedPreamble, parseDocumentPreamble(source).config),
+  };
+}
@@ -0,0 +1,125 @@
+/**
+ * Divide a entrada do editor em trechos (segmentos) na ordem do documento,
+ * para que cada um seja renderizado pelo motor adequado (KaTeX ou TikZJax).
+ */
+
+export type SegmentKind = "text" | "inline-math" | "display-math" | "tikz";
+
+export interface Segment {
+  kind: SegmentKind;
+  /** Trecho original, incluindo os delimitadores */
+  raw: string;
+  /** Conteúdo a ser renderizado (sem delimitadores quando aplicável) */
+  content: string;
+  /** Posição de `raw` na entrada: [start, end) */
+  start: number;
+  end: number;
+  /** Posição onde `content` começa na entrada */
+  contentStart: number;
+}
+
+interface Delimiter {
+  open: string;
+  close: string;
+  kind: Exclude<SegmentKind, "text">;
+  /** Ambientes completos (\begin...\end) são enviados inteiros ao renderizador */
+  keepDelimiters: boolean;
+}
+
+// Ordem importa: "$$" precisa ser testado antes de "$"
+const delimiters: Delimiter[] = [
+  { open: "\\begin{tikzpicture}", close: "\\end{tikzpicture}", kind: "tikz", keepDelimiters: true },
+  { open: "\\begin{tikzcd}", close: "\\end{tikzcd}", kind: "tikz", keepDelimiters: true },
+  ...["equation", "equation*", "align", "align*"].map((env) => ({
+    open: `\\begin{${env}}`,
+    close: `\\end{${env}}`,
+    kind: "display-math" as const,
+    keepDelimiters: true,
+  })),
+  { open: "\\[", close: "\\]", kind: "display-math", keepDelimiters: false },
+  { open: "\\(", close: "\\)", kind: "inline-math", keepDelimiters: false },
+  { open: "$$", close: "$$", kind: "display-math", keepDelimiters: false },
+  { open: "$", close: "$", kind: "inline-math", keepDelimiters: false },
+];
+
+/**
+ * Procura `close` a partir de `from`, ignorando caracteres escapados (\$, \\ ...).
+ * Retorna -1 se o delimitador não for fechado.
+ */
+function findClosing(input: string, close: string, from: number): number {
+  let i = from;
+  while (i < input.length) {
+    if (input.startsWith(close, i)) {
+      return i;
+    }
+    // Um comando de barra invertida consome o caractere seguinte,
+    // exceto quando o próprio fechamento começa com "\" (ex.: "\]")
+    i += input[i] === "\\" ? 2 : 1;
+  }
+  return -1;
+}
+
+function matchDelimiter(input: string, i: number): Delimiter | undefined {
+  return delimiters.find((d) => input.startsWith(d.open, i));
+}
+
+export function splitSegments(input: string): Segment[] {
+  const segments: Segment[] = [];
+  let textStart = 0;
+  let i = 0;
+
+  const pushText = (end: number) => {
+    if (end > textStart) {
+      const raw = input.slice(textStart, end);
+      segments.push({ kind: "text", raw, content: raw, start: textStart, end, contentStart: textStart });
+    }
+  };
+
+  while (i < input.length) {
+    const delimiter = matchDelimiter(input, i);
+
+    if (!delimiter) {
+      // \$, \\ e demais comandos não abrem segmentos
+      i += input[i] === "\\" ? 2 : 1;
+      continue;
+    }
+
+    pushText(i);
+
+    const contentStart = i + delimiter.open.length;
+    const closeAt = findClosing(input, delimiter.close, contentStart);
+    // Delimitador sem fechamento: o resto da entrada pertence ao segmento,
+    // como o LaTeX faria (e o erro aparece no preview)
+    const contentEnd = closeAt === -1 ? input.length : closeAt;
+    const end = closeAt === -1 ? input.length : closeAt + delimiter.close.length;
+    const raw = input.slice(i, end);
+
+    segments.push(
+      delimiter.keepDelimiters
+        ? { kind: delimiter.kind, raw, content: raw, start: i, end, contentStart: i }
+        : {
+            kind: delimiter.kind,
+            raw,
+            content: input.slice(contentStart, contentEnd),
+            start: i,
+            end,
+            contentStart,
+          }
+    );
+
+    i = end;
+    textStart = end;
+  }
+
+  pushText(input.length);
+
+  // Sem nenhum delimitador, mantém o comportamento antigo:
+  // a entrada inteira é tratada como uma equação em modo display
+  if (input.trim() && segments.every((s) => s.kind === "text")) {
+    return [
+      { kind: "display-math", raw: input, content: input, start: 0, end: input.length, contentStart: 0 },
+    ];
+  }
+
+  return segments;
+}
@@ -0,0 +1,302 @@
+/**
+ * Navegação entre o código e o preview (no estilo do SyncTeX). Cada trecho
+ * renderizado que sabe de onde veio carrega o atributo data-src="início-fim",
+ * com posições relativas ao código que foi renderizado:
+ * - no KaTeX, via \htmlData em volta de cada elemento da fórmula;
+ * - no TikZ, via \special{dvisvgm:raw} em volta do texto de cada nó.
+ */
+
+import katex, { KatexOptions } from "katex";
+import { SourceRange } from "./sourcePosition";
+import { TransformPass, runTransforms, transformPasses } from "./transforms";
+
+export const SOURCE_ATTRIBUTE = "data-src";
+
+interface KatexParseNode {
+  type: string;
+  loc?: { lexer: { input: string }; start: number; end: number } | null;
+}
+
+// API interna do KaTeX (exportada, mas fora da tipagem): a árvore traz a posição de cada nó.
+// A versão do katex é fixa no package.json; se uma atualização tirar a função, as
+// fórmulas são renderizadas sem as marcas
+const parseKatex = (katex as unknown as {
+  __parse?: (expression: string, options: KatexOptions) => KatexParseNode[];
+}).__parse;
+
+// Quantos trechos uma fórmula pode reanalisar para inferir posições (ver inferRange);
+// acima disso os comandos restantes ficam sem marca, mas a fórmula continua rápida
+const MAX_INFERENCE_PARSES = 64;
+
+// Nós que não podem ser envolvidos num grupo sem mudar o resultado
+const unwrappable = new Set(["cr", "styling", "sizing", "tag", "internal", "infix", "array", "environment"]);
+// Nós cujo conteúdo não é marcado (o nó inteiro já é)
+const opaque = new Set(["text", "verb", "url", "href"]);
+
+function isParseNode(value: unknown): value is KatexParseNode {
+  return typeof value === "object" && value !== null && typeof (value as KatexParseNode).type === "string";
+}
+
+/** Envolve os trechos [start, end) de `text` com `open(range)` e `close` */
+function wrapRanges(text: string, ranges: SourceRange[], open: (range: SourceRange) => string, close: string) {
+  // Abre os externos antes e fecha os internos antes
+  const opens = [...ranges].sort((a, b) => a.start - b.start || b.end - a.end);
+  const closes = [...ranges].sort((a, b) => a.end - b.end || b.start - a.start);
+
+  let result = "";
+  let at = 0;
+  let i = 0;
+  let j = 0;
+  while (i < opens.length || j < closes.length) {
+    const closeNext = j < closes.length && (i === opens.length || closes[j].end <= opens[i].start);
+    const position = closeNext ? closes[j].end : opens[i].start;
+    result += text.slice(at, position);
+    at = position;
+    if (closeNext) {
+      result += close;
+      j++;
+    } else {
+      result += open(opens[i++]);
+    }
+  }
+  return result + text.slice(at);
+}
+
+/**
+ * Marca cada elemento da fórmula com \htmlData{src=início-fim}. Exige a opção
+ * `trust` para \htmlData no render. Retorna null se a fórmula não compila.
+ */
+export function instrumentMath(math: string, options: KatexOptions): string | null {
+  if (typeof parseKatex !== "function") return null;
+  const parse = parseKatex;
+
+  let tree: KatexParseNode[];
+  try {
+    tree = parse(math, { ...options, macros: { ...options.macros } });
+  } catch {
+    return null;
+  }
+
+  const ranges: SourceRange[] = [];
+  const own = (node: KatexParseNode) =>
+    node.loc && node.loc.lexer.input === math && node.loc.end > node.loc.start ? node.loc : null;
+
+  // Maior fim entre as posições conhecidas dentro do nó
+  const extentEnd = (value: unknown): number => {
+    if (Array.isArray(value)) return Math.max(-1, ...value.map(extentEnd));
+    if (!isParseNode(value)) return -1;
+    const children = Object.entries(value).filter(([key, child]) => key !== "loc" && typeof child === "object");
+    return Math.max(own(value)?.end ?? -1, ...children.map(([, child]) => extentEnd(child)));
+  };
+
+  // Trechos já analisados: um nó e o primeiro filho dele costumam testar os mesmos
+  const slices = new Map<string, KatexParseNode[] | null>();
+  let parses = 0;
+  const parseSlice = (start: number, end: number): KatexParseNode[] | null => {
+    const key = `${start}-${end}`;
+    if (!slices.has(key)) {
+      if (parses >= MAX_INFERENCE_PARSES) return null;
+      parses++;
+      try {
+        slices.set(key, parse(math.slice(start, end), { ...options, macros: { ...options.macros } }));
+      } catch {
+        slices.set(key, null);
+      }
+    }
+    return slices.get(key)!;
+  };
+
+  // Comandos (\frac, \left...) não trazem posição: o nó vai de onde o anterior
+  // terminou até o fim do último argumento, mais o que o fecha (chaves, \right, \end)
+  const inferRange = (node: KatexParseNode, start: number): SourceRange | null => {
+    const environment = /^\\begin\{([^}]+)\}/.exec(math.slice(start));
+    const closing = environment
+      ? new RegExp(`^\\s*\\\\end\\{${environment[1].replace(/\*/g, "\\*")}\\}`)
+      : /^\s*\\right\s*(\\[a-zA-Z]+|\\.|[^\s])/;
+
+    // Confere cada palpite: o trecho sozinho precisa virar o mesmo nó
+    const matches = (end: number) => {
+      const alone = parseSlice(start, end);
+      return alone !== null && alone.length === 1 && alone[0].type === node.type;
+    };
+
+    let end = extentEnd(node);
+    if (end <= start) return null;
+    for (;;) {
+      const closed = end + (closing.exec(math.slice(end))?.[0].length ?? 0);
+      if (matches(closed)) return { start, end: closed };
+      if (math[end] !== "}" && math[end] !== "]") return null;
+      if (parses >= MAX_INFERENCE_PARSES) return null;
+      end++;
+    }
+  };
+
+  const visitList = (list: unknown[], from: number | null) => {
+    let cursor = from;
+    for (const item of list) {
+      if (!isParseNode(item)) {
+        visit(item);
+        cursor = null;
+        continue;
+      }
+
+      let range: SourceRange | null = own(item);
+      if (!range && cursor !== null) {
+        let start = cursor;
+        while (/\s/.test(math[start] ?? "")) start++;
+        range = inferRange(item, start);
+      }
+      if (range && !unwrappable.has(item.type)) ranges.push(range);
+      cursor = range?.end ?? null;
+      visit(item);
+    }
+  };
+
+  const visit = (value: unknown) => {
+    if (Array.isArray(value)) {
+      visitList(value, null);
+      return;
+    }
+    if (!isParseNode(value) || opaque.has(value.type)) return;
+
+    const loc = own(value);
+    for (const [key, child] of Object.entries(value)) {
+      if (key === "loc" || typeof child !== "object") continue;
+      // O conteúdo de um {grupo} começa depois da chave
+      if (Array.isArray(child) && value.type === "ordgroup" && loc) visitList(child, loc.start + 1);
+      else visit(child);
+    }
+  };
+  visitList(tree, 0);
+
+  return wrapRanges(math, ranges, ({ start, end }) => `\\htmlData{src=${start}-${end}}{`, "}");
+}
+
+/** Permite só o \htmlData, usado pelas marcas de posição */
+export const trustSourceMarks: KatexOptions["trust"] = (context) => context.command === "\\htmlData";
+
+// Os mesmos escapes do KaTeX (utils.escape)
+const htmlEscapes: Record<string, string> = { "&": "&amp;", ">": "&gt;", "<": "&lt;", '"': "&quot;", "'": "&#x27;" };
+
+/**
+ * Devolve ao MathML o código que o usuário escreveu: o KaTeX copia para a
+ * anotação application/x-tex o que recebeu, ou seja, a fórmula com as marcas
+ * de instrumentMath. Quem lê a anotação (copiar como TeX, leitores de tela,
+ * exportação) não pode ver as marcas.
+ */
+export function restoreTexAnnotation(html: string, math: string): string {
+  const escaped = math.replace(/[&><"']/g, (char) => htmlEscapes[char]);
+  return html.replace(
+    /(<annotation encoding="application\/x-tex">)[\s\S]*?(<\/annotation>)/,
+    (_, open: string, close: string) => open + escaped + close
+  );
+}
+
+/**
+ * Posições dos textos de nós do TikZ: "\node[...] (nome) at (x,y) {texto}" e
+ * "node[...] {texto}" no meio de um caminho. Cada faixa vai do "node" ao "}".
+ */
+export function findTikzNodes(code: string): { statement: SourceRange; text: SourceRange }[] {
+  const nodes: { statement: SourceRange; text: SourceRange }[] = [];
+  const keyword = /\\?\bnode\b/g;
+
+  for (let match = keyword.exec(code); match; match = keyword.exec(code)) {
+    // Pula opções [...], nome (...) e "at (...)" até o texto entre chaves
+    let i = keyword.lastIndex;
+    const skip = (open: string, close: string) => {
+      let depth = 0;
+      do {
+        if (code[i] === open) depth++;
+        else if (code[i] === close) depth--;
+        i++;
+      } while (depth > 0 && i < code.length);
+    };
+    for (;;) {
+      while (/\s/.test(code[i] ?? "")) i++;
+      if (code[i] === "[") skip("[", "]");
+      else if (code[i] === "(") skip("(", ")");
+      else if (code.startsWith("at", i) && /[\s(]/.test(code[i + 2] ?? "")) i += 2;
+      else break;
+    }
+    if (code[i] !== "{") continue;
+
+    const textStart = i;
+    let depth = 0;
+    for (; i < code.length; i++) {
+      if (code[i] === "\\") i++;
+      else if (code[i] === "{") depth++;
+      else if (code[i] === "}" && --depth === 0) break;
+    }
+    if (depth > 0) continue;
+
+    nodes.push({ statement: { start: match.index, end: i + 1 }, text: { start: textStart + 1, end: i } });
+    keyword.lastIndex = i + 1;
+  }
+
+  return nodes;
+}
+
+/** Marca o texto de cada nó do TikZ com um <g data-src="início-fim"> no SVG */
+export function instrumentTikz(code: string): string {
+  const nodes = findTikzNodes(code);
+  const byText = new Map(nodes.map((n) => [`${n.text.start}-${n.text.end}`, n.statement]));
+
+  return wrapRanges(
+    code,
+    nodes.map((n) => n.text),
+    (text) => {
+      const { start, end } = byText.get(`${text.start}-${text.end}`)!;
+      return `\\special{dvisvgm:raw <g ${SOURCE_ATTRIBUTE}="${start}-${end}">}`;
+    },
+    "\\special{dvisvgm:raw </g>}"
+  );
+}
+
+/**
+ * O que o preview compila: o código marcado e depois corrigido. As posições
+ * das marcas são relativas a `code`, antes das correções.
+ */
+export function instrumentedTikz(code: string, transforms: TransformPass[] = transformPasses): string {
+  return runTransforms(instrumentTikz(code).trim(), transforms).output;
+}
+
+export function parseSourceAttribute(value: string | null): SourceRange | null {
+  const match = value?.match(/^(\d+)-(\d+)$/);
+  return match ? { start: Number(match[1]), end: Number(match[2]) } : null;
+}
+
+/** O elemento marcado mais interno que contém `offset` */
+export function innermostAt(root: ParentNode, offset: number): Element | null {
+  let best: Element | null = null;
+  let bestLength = Infinity;
+
+  for (const element of root.querySelectorAll(`[${SOURCE_ATTRIBUTE}]`)) {
+    const range = parseSourceAttribute(element.getAttribute(SOURCE_ATTRIBUTE));
+    if (!range || offset < range.start || offset > range.end) continue;
+    if (range.end - range.start <= bestLength) {
+      best = element;
+      bestLength = range.end - range.start;
+    }
+  }
+  return best;
+}
+
+/**
+ * Rola o contêiner rolável mais próximo (ex.: o painel do preview) até o elemento,
+ * se ele estiver fora de vista. A janela em si não rola: isso tiraria o editor da tela.
+ */
+export function revealInScrollParent(element: Element) {
+  let parent = element.parentElement;
+  while (parent && !/(auto|scroll)/.test(getComputedStyle(parent).overflowY)) {
+    parent = parent.parentElement;
+  }
+  if (!parent || parent === document.scrollingElement) return;
+
+  const view = parent.getBoundingClientRect();
+  const rect = element.getBoundingClientRect();
+  if (rect.top >= view.top && rect.bottom <= view.bottom) return;
+
+  // Centraliza; elementos maiores que o painel ficam alinhados pelo topo
+  const margin = rect.height > view.height ? 8 : (view.height - rect.height) / 2;
+  parent.scrollBy({ top: rect.top - view.top - margin, behavior: "smooth" });
+}
@@ -0,0 +1,34 @@
+/**
+ * Posições no texto do editor, usadas para apontar erros e seleções.
+ */
+
+/** Intervalo [start, end) de caracteres na entrada do editor */
+export interface SourceRange {
+  start: number;
+  end: number;
+}
+
+/** Troca do trecho `range` por `text` */
+export interface TextEdit {
+  range: SourceRange;
+  text: string;
+}
+
+/** Linha e coluna, ambas começando em 1 */
+export interface LineColumn {
+  line: number;
+  column: number;
+}
+
+export function offsetToLineColumn(text: string, offset: number): LineColumn {
+  const before = text.slice(0, Math.max(0, Math.min(offset, text.length)));
+  const lines = before.split("\n");
+  return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+}
+
+/** Retorna o texto da linha (sem a quebra) que contém `offset` e onde ela começa */
+export function lineAt(text: string, offset: number): { text: string; start: number } {
+  const start = text.lastIndexOf("\n", offset - 1) + 1;
+  const newline = text.indexOf("\n", offset);
+  return { text: text.slice(start, newline === -1 ? text.length : newline), start };
+}
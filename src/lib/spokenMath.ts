@@ -0,0 +1,310 @@
+/**
+ * Leitura de fórmulas LaTeX por extenso ("fração de x ao quadrado sobre 2"),
+ * usada como texto alternativo das equações e dos rótulos dos diagramas para
+ * leitores de tela. Cobre o que aparece em aula: frações, raízes, potências,
+ * índices, somatórios, integrais, limites, matrizes, casos, letras gregas e
+ * relações. Símbolos unicode (≥, ℝ, x²) são lidos como o comando equivalente,
+ * e um comando desconhecido é lido pelo nome.
+ */
+
+import {
+  mathAlphanumericToLatex,
+  unicodeSubscripts,
+  unicodeSuperscripts,
+  unicodeToLatex,
+  unicodeToMathExpression,
+} from "./latexSymbols";
+
+/** Os textos da leitura num idioma; ficam nos catálogos de src/locales (spoken) */
+export interface SpokenPhrases {
+  /** Pelo nome do comando: alpha, beta... */
+  greek: Record<string, string>;
+  /** Relações, operadores, setas e pontuação, pelo nome do comando */
+  symbols: Record<string, string>;
+  /** Funções lidas como "seno de ..." */
+  functions: Record<string, string>;
+  /** Operadores com limites: \sum, \int, \lim... */
+  bigOperators: Record<string, string>;
+  accents: Record<string, string>;
+  /** Conjuntos em \mathbb */
+  blackboard: Record<string, string>;
+  /** Caracteres fora de comandos: +, =, parênteses... */
+  characters: Record<string, string>;
+  matrixEnvironments: Record<string, string>;
+  /** Letra grega maiúscula (\Gamma) */
+  capital: (letter: string) => string;
+  squared: string;
+  cubed: string;
+  degrees: string;
+  prime: string;
+  /** `simple`: um símbolo ou número, que dispensa marcar o fim */
+  power: (exponent: string, simple: boolean) => string;
+  subscript: (index: string, simple: boolean) => string;
+  fraction: (numerator: string, denominator: string, simple: boolean) => string;
+  binomial: (n: string, k: string) => string;
+  squareRoot: (radicand: string) => string;
+  cubeRoot: (radicand: string) => string;
+  root: (index: string, radicand: string) => string;
+  rootEnd: string;
+  /** Uma linha do cases: o valor e, se houver, a condição */
+  caseLine: (value: string, condition: string) => string;
+  cases: (lines: string[]) => string;
+  /** Células já lidas, linha por linha */
+  matrix: (name: string, rows: string[][], columns: number) => string;
+  tag: (tag: string) => string;
+  vector: (argument: string) => string;
+  accent: (argument: string, accent: string) => string;
+  function: (name: string) => string;
+  /** \lim e afins: "limite quando x tende a 0 de" */
+  limit: (operator: string, lower: string | null) => string;
+  bigOperator: (operator: string, lower: string | null, upper: string | null) => string;
+}
+
+// Comandos que não são lidos (tamanho, espaçamento, estilo)
+const SILENT = /^(?:left|right|middle|[bB]igg?[lr]?|displaystyle|textstyle|scriptstyle|limits|nolimits|label|nonumber|notag)$/;
+
+// Comandos cujo argumento é lido como está (nome de operador, texto)
+const TEXT_COMMANDS = /^(?:text(?:rm|bf|it|sf|tt|normal|up)?|mbox|operatorname\*?|mathrm|textup)$/;
+
+// Estilos de letra: lê só o conteúdo
+const STYLE_COMMANDS = /^(?:math(?:bf|it|sf|tt|cal|scr|frak)|boldsymbol|bm|pmb)$/;
+
+class Reader {
+  i = 0;
+
+  constructor(readonly source: string) {}
+
+  done(): boolean {
+    return this.i >= this.source.length;
+  }
+
+  skipSpaces() {
+    while (/\s/.test(this.source[this.i] ?? "")) this.i++;
+  }
+
+  peek(): string {
+    this.skipSpaces();
+    return this.source[this.i] ?? "";
+  }
+
+  /** Comando na posição atual ("frac" para "\frac"), sem avançar; null se não houver */
+  peekCommand(): string | null {
+    this.skipSpaces();
+    const match = /^\\([a-zA-Z]+\*?|.)/.exec(this.source.slice(this.i));
+    return match ? match[1] : null;
+  }
+
+  /** Conteúdo de um grupo {...} (ou um único caractere/comando) */
+  argument(): string {
+    this.skipSpaces();
+    if (this.source[this.i] === "{") {
+      const start = ++this.i;
+      let depth = 1;
+      for (; this.i < this.source.length; this.i++) {
+        const char = this.source[this.i];
+        if (char === "\\") this.i++;
+        else if (char === "{") depth++;
+        else if (char === "}" && --depth === 0) break;
+      }
+      return this.source.slice(start, this.i++);
+    }
+    const command = /^\\([a-zA-Z]+|.)/.exec(this.source.slice(this.i));
+    if (command) {
+      this.i += command[0].length;
+      return command[0];
+    }
+    return this.source[this.i++] ?? "";
+  }
+
+  /** Argumento opcional [...], ou null */
+  optional(): string | null {
+    if (this.peek() !== "[") return null;
+    const end = this.source.indexOf("]", this.i);
+    if (end === -1) return null;
+    const value = this.source.slice(this.i + 1, end);
+    this.i = end + 1;
+    return value;
+  }
+}
+
+/** Frase curta (um símbolo ou número) dispensa pausa depois */
+function isSimple(latex: string): boolean {
+  return /^\s*(?:[a-zA-Z]|\d+(?:[.,]\d+)?|\\[a-zA-Z]+)\s*$/.test(latex);
+}
+
+function power(exponent: string, phrases: SpokenPhrases): string {
+  const trimmed = exponent.trim();
+  if (trimmed === "2") return phrases.squared;
+  if (trimmed === "3") return phrases.cubed;
+  if (trimmed === "\\circ") return phrases.degrees;
+  if (/^'+$/.test(trimmed) || trimmed === "\\prime") return phrases.prime;
+  return phrases.power(speak(trimmed, phrases), isSimple(trimmed));
+}
+
+function subscript(index: string, phrases: SpokenPhrases): string {
+  return phrases.subscript(speak(index, phrases), isSimple(index));
+}
+
+/**
+ * Caractere unicode (≥, ℝ, x², aₙ...) lido como o LaTeX equivalente (ver
+ * latexSymbols.ts); índices e expoentes seguidos formam um só
+ */
+function unicodeSymbol(symbol: string, reader: Reader, phrases: SpokenPhrases): string {
+  for (const [scripts, read] of [
+    [unicodeSuperscripts, power],
+    [unicodeSubscripts, subscript],
+  ] as const) {
+    if (!(symbol in scripts)) continue;
+    let text = scripts[symbol];
+    while (reader.source[reader.i] in scripts) text += scripts[reader.source[reader.i++]];
+    return read(text, phrases);
+  }
+
+  const latex = unicodeToLatex[symbol] ?? unicodeToMathExpression[symbol] ?? mathAlphanumericToLatex(symbol);
+  return latex ? speak(latex, phrases) : symbol;
+}
+
+function environment(name: string, body: string, phrases: SpokenPhrases): string {
+  const base = name.replace(/\*$/, "");
+  const rows = body
+    .split(/\\\\(?:\[[^\]]*\])?/)
+    .map((row) => row.trim())
+    .filter(Boolean);
+
+  if (base === "cases") {
+    const cases = rows.map((row) => {
+      const [value, condition = ""] = row.split("&");
+      const spokenCondition = speak(condition.replace(/^\s*\\text\{\s*(?:se|si|if)\s*\}/, ""), phrases);
+      return phrases.caseLine(speak(value, phrases), spokenCondition);
+    });
+    return phrases.cases(cases);
+  }
+
+  if (base in phrases.matrixEnvironments) {
+    const cells = rows.map((row) => row.split("&").map((cell) => speak(cell, phrases)));
+    const columns = Math.max(...cells.map((row) => row.length));
+    return phrases.matrix(phrases.matrixEnvironments[base], cells, columns);
+  }
+
+  // align, gather, aligned... uma linha por vez; o & só marca o alinhamento
+  return rows.map((row) => speak(row.replace(/&/g, " "), phrases)).join("; ");
+}
+
+function command(name: string, reader: Reader, phrases: SpokenPhrases): string {
+  if (name === "frac" || name === "dfrac" || name === "tfrac" || name === "cfrac") {
+    const numerator = reader.argument();
+    const denominator = reader.argument();
+    const simple = isSimple(numerator) && isSimple(denominator);
+    return phrases.fraction(speak(numerator, phrases), speak(denominator, phrases), simple);
+  }
+  if (name === "binom" || name === "dbinom" || name === "tbinom") {
+    const n = speak(reader.argument(), phrases);
+    return phrases.binomial(n, speak(reader.argument(), phrases));
+  }
+  if (name === "sqrt") {
+    const index = reader.optional();
+    const radicand = speak(reader.argument(), phrases);
+    const end = isSimple(radicand) ? "" : phrases.rootEnd;
+    if (!index || index.trim() === "2") return phrases.squareRoot(radicand) + end;
+    if (index.trim() === "3") return phrases.cubeRoot(radicand) + end;
+    return phrases.root(speak(index, phrases), radicand) + end;
+  }
+  if (name === "begin") {
+    const env = reader.argument();
+    // Colunas do array: {cc|c}
+    if (env === "array") reader.argument();
+    const close = `\\end{${env}}`;
+    const end = reader.source.indexOf(close, reader.i);
+    const body = reader.source.slice(reader.i, end === -1 ? undefined : end);
+    reader.i = end === -1 ? reader.source.length : end + close.length;
+    return environment(env, body, phrases);
+  }
+  if (name === "tag" || name === "tag*") return phrases.tag(speak(reader.argument(), phrases));
+  if (name === "mathbb") {
+    const letter = reader.argument().trim();
+    return phrases.blackboard[letter] ?? letter;
+  }
+  if (TEXT_COMMANDS.test(name)) return reader.argument().replace(/[{}$\\]/g, "").trim();
+  if (STYLE_COMMANDS.test(name)) return speak(reader.argument(), phrases);
+  if (name === "vec" || name === "overrightarrow") return phrases.vector(speak(reader.argument(), phrases));
+  if (name in phrases.accents) return phrases.accent(speak(reader.argument(), phrases), phrases.accents[name]);
+  if (name in phrases.bigOperators) {
+    let lower: string | null = null;
+    let upper: string | null = null;
+    for (let k = 0; k < 2; k++) {
+      const next = reader.peek();
+      if (next === "_" && lower === null) {
+        reader.i++;
+        lower = reader.argument();
+      } else if (next === "^" && upper === null) {
+        reader.i++;
+        upper = reader.argument();
+      } else if (reader.peekCommand() === "limits") {
+        reader.i += "\\limits".length;
+        k--;
+      }
+    }
+    const operator = phrases.bigOperators[name];
+    const spokenLower = lower === null ? null : speak(lower, phrases);
+    if (name === "lim" || name === "limsup" || name === "liminf") {
+      return phrases.limit(operator, spokenLower || null);
+    }
+    return phrases.bigOperator(operator, spokenLower, upper === null ? null : speak(upper, phrases));
+  }
+  if (name in phrases.functions) return phrases.function(phrases.functions[name]);
+  if (name in phrases.greek) return phrases.greek[name];
+  if (/^[A-Z][a-z]+$/.test(name) && name.toLowerCase() in phrases.greek) {
+    return phrases.capital(phrases.greek[name.toLowerCase()]);
+  }
+  if (name in phrases.symbols) return phrases.symbols[name];
+  if (SILENT.test(name)) return "";
+  return name;
+}
+
+/** A fórmula (sem delimitadores) por extenso, no idioma de `phrases` */
+export function speak(latex: string, phrases: SpokenPhrases): string {
+  const reader = new Reader(latex);
+  const words: string[] = [];
+
+  while (!reader.done()) {
+    reader.skipSpaces();
+    if (reader.done()) break;
+    const char = reader.source[reader.i];
+
+    if (char === "%") {
+      const newline = reader.source.indexOf("\n", reader.i);
+      reader.i = newline === -1 ? reader.source.length : newline;
+    } else if (char === "{") {
+      words.push(speak(reader.argument(), phrases));
+    } else if (char === "^") {
+      reader.i++;
+      words.push(power(reader.argument(), phrases));
+    } else if (char === "_") {
+      reader.i++;
+      words.push(subscript(reader.argument(), phrases));
+    } else if (char === "\\") {
+      const match = /^\\([a-zA-Z]+\*?|.)/.exec(reader.source.slice(reader.i))!;
+      reader.i += match[0].length;
+      words.push(command(match[1], reader, phrases));
+    } else if (/\d/.test(char)) {
+      const number = /^\d+(?:[.,]\d+)?/.exec(reader.source.slice(reader.i))![0];
+      reader.i += number.length;
+      words.push(number);
+    } else if (char === "&" || char === "~") {
+      reader.i++;
+    } else {
+      const symbol = String.fromCodePoint(reader.source.codePointAt(reader.i)!);
+      reader.i += symbol.length;
+      words.push(phrases.characters[symbol] ?? unicodeSymbol(symbol, reader, phrases));
+    }
+  }
+
+  return words
+    .filter(Boolean)
+    .join(" ")
+    .replace(/\s+([,;.])/g, "$1")
+    .replace(/([,;])(?:\s*[,;])+/g, "$1")
+    .replace(/\s+/g, " ")
+    .replace(/^[,;]\s*|[,;]\s*$/g, "")
+    .trim();
+}
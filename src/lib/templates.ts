@@ -0,0 +1,253 @@
+/**
+ * Modelos de diagramas e equações para inserir no editor: os que vêm com o app
+ * e os da equipe, que são salvos pelo usuário e trocados como JSON.
+ */
+
+export type TemplateCategory =
+  | "commutative"
+  | "automata"
+  | "trees"
+  | "plots"
+  | "matrices"
+  | "piecewise"
+  | "proofs"
+  | "team";
+
+export const TEMPLATE_CATEGORIES: TemplateCategory[] = [
+  "commutative",
+  "automata",
+  "trees",
+  "plots",
+  "matrices",
+  "piecewise",
+  "proofs",
+  "team",
+];
+
+export interface Template {
+  id: string;
+  name: string;
+  category: TemplateCategory;
+  description?: string;
+  code: string;
+}
+
+export const builtInTemplates: Template[] = [
+  {
+    id: "commutative-square",
+    name: "Quadrado comutativo",
+    category: "commutative",
+    description: "g ∘ f = k ∘ h",
+    code: String.raw`\begin{tikzcd}
+A \arrow[r, "f"] \arrow[d, "h"'] & B \arrow[d, "g"] \\
+C \arrow[r, "k"'] & D
+\end{tikzcd}`,
+  },
+  {
+    id: "commutative-triangle",
+    name: "Triângulo comutativo",
+    category: "commutative",
+    code: String.raw`\begin{tikzcd}
+A \arrow[r, "f"] \arrow[dr, "h"'] & B \arrow[d, "g"] \\
+& C
+\end{tikzcd}`,
+  },
+  {
+    id: "automaton-dfa",
+    name: "Autômato finito",
+    category: "automata",
+    description: "Estados, transições e laço",
+    code: String.raw`\begin{tikzpicture}[shorten >=1pt, node distance=2.5cm, auto]
+  \node[state, initial] (q0) {$q_0$};
+  \node[state] (q1) [right=of q0] {$q_1$};
+  \node[state, accepting] (q2) [right=of q1] {$q_2$};
+  \path[->]
+    (q0) edge node {a} (q1)
+    (q1) edge [loop above] node {b} ()
+         edge node {a} (q2)
+    (q2) edge [bend left] node {b} (q0);
+\end{tikzpicture}`,
+  },
+  {
+    id: "graph-nodes",
+    name: "Grafo com nós posicionados",
+    category: "automata",
+    description: "Editável pelo editor visual",
+    code: String.raw`\begin{tikzpicture}
+  \node[draw, circle] (a) at (0,0) {A};
+  \node[draw, circle] (b) at (2,1) {B};
+  \node[draw, circle] (c) at (2,-1) {C};
+  \draw[->] (a) -- (b);
+  \draw[->] (a) -- (c);
+  \draw[->] (b) -- (c);
+\end{tikzpicture}`,
+  },
+  {
+    id: "binary-tree",
+    name: "Árvore binária",
+    category: "trees",
+    code: String.raw`\begin{tikzpicture}[level distance=1.5cm,
+  level 1/.style={sibling distance=3cm},
+  level 2/.style={sibling distance=1.5cm},
+  every node/.style={circle, draw, minimum size=7mm}]
+  \node {8}
+    child { node {3}
+      child { node {1} }
+      child { node {6} } }
+    child { node {10}
+      child[missing]
+      child { node {14} } };
+\end{tikzpicture}`,
+  },
+  {
+    id: "tree-horizontal",
+    name: "Árvore de decisão",
+    category: "trees",
+    code: String.raw`\begin{tikzpicture}[grow=right, level distance=2.5cm,
+  level 1/.style={sibling distance=2cm},
+  every node/.style={draw, rounded corners}]
+  \node {Início}
+    child { node {Não} }
+    child { node {Sim} };
+\end{tikzpicture}`,
+  },
+  {
+    id: "pgfplots-function",
+    name: "Gráfico de função (pgfplots)",
+    category: "plots",
+    code: String.raw`\begin{tikzpicture}
+  \begin{axis}[axis lines=middle, xlabel=$x$, ylabel=$y$, domain=-2:2, samples=50]
+    \addplot[blue, thick] {x^2};
+  \end{axis}
+\end{tikzpicture}`,
+  },
+  {
+    id: "tikz-plot",
+    name: "Gráfico com eixos (TikZ)",
+    category: "plots",
+    code: String.raw`\begin{tikzpicture}[scale=1.2]
+  \draw[->] (-0.5,0) -- (4,0) node[right] {$x$};
+  \draw[->] (0,-0.5) -- (0,3) node[above] {$y$};
+  \draw[domain=0:3.5, smooth, variable=\x, blue, thick] plot ({\x}, {0.2*\x*\x});
+\end{tikzpicture}`,
+  },
+  {
+    id: "matrix-general",
+    name: "Matriz m × n",
+    category: "matrices",
+    code: String.raw`\[
+A = \begin{pmatrix}
+a_{11} & a_{12} & \cdots & a_{1n} \\
+a_{21} & a_{22} & \cdots & a_{2n} \\
+\vdots & \vdots & \ddots & \vdots \\
+a_{m1} & a_{m2} & \cdots & a_{mn}
+\end{pmatrix}
+\]`,
+  },
+  {
+    id: "matrix-augmented",
+    name: "Matriz aumentada",
+    category: "matrices",
+    code: String.raw`\[
+\left[\begin{array}{cc|c}
+1 & 2 & 3 \\
+4 & 5 & 6
+\end{array}\right]
+\]`,
+  },
+  {
+    id: "piecewise",
+    name: "Função definida por partes",
+    category: "piecewise",
+    code: String.raw`\[
+f(x) = \begin{cases}
+x^2, & \text{se } x \geq 0 \\
+-x, & \text{se } x < 0
+\end{cases}
+\]`,
+  },
+  {
+    id: "absolute-value",
+    name: "Valor absoluto",
+    category: "piecewise",
+    code: String.raw`\[
+|x| = \begin{cases}
+x & \text{se } x \geq 0 \\
+-x & \text{se } x < 0
+\end{cases}
+\]`,
+  },
+  {
+    id: "induction",
+    name: "Demonstração por indução",
+    category: "proofs",
+    code: String.raw`Teorema. Para todo $n \geq 1$, $\sum_{k=1}^{n} k = \frac{n(n+1)}{2}$.
+
+Demonstração. Por indução em $n$. Para $n = 1$, os dois lados valem $1$. Supondo que vale para $n$:
+\[
+\sum_{k=1}^{n+1} k = \frac{n(n+1)}{2} + (n+1) = \frac{(n+1)(n+2)}{2}. \qquad \blacksquare
+\]`,
+  },
+  {
+    id: "equation-chain",
+    name: "Cadeia de igualdades",
+    category: "proofs",
+    code: String.raw`\begin{align*}
+(a+b)^2 &= (a+b)(a+b) \\
+&= a^2 + ab + ba + b^2 \\
+&= a^2 + 2ab + b^2
+\end{align*}`,
+  },
+];
+
+/** Versão do formato do arquivo de modelos da equipe */
+const FILE_VERSION = 1;
+
+export function serializeTemplates(templates: Template[]): string {
+  return JSON.stringify({ version: FILE_VERSION, templates }, null, 2);
+}
+
+function isTemplate(value: unknown): value is Template {
+  const template = value as Template;
+  return (
+    typeof template === "object" &&
+    template !== null &&
+    typeof template.id === "string" &&
+    typeof template.name === "string" &&
+    typeof template.code === "string"
+  );
+}
+
+/** Modelos válidos de um arquivo exportado (ou de uma lista solta); [] se não houver nenhum */
+export function parseTemplates(json: string): Template[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return [];
+  }
+
+  const list = Array.isArray(data) ? data : (data as { templates?: unknown })?.templates;
+  if (!Array.isArray(list)) return [];
+
+  const categories = new Set<string>(TEMPLATE_CATEGORIES);
+  return list.filter(isTemplate).map((t) => ({
+    id: t.id,
+    name: t.name,
+    category: categories.has(t.category) ? t.category : "team",
+    description: typeof t.description === "string" ? t.description : undefined,
+    code: t.code,
+  }));
+}
+
+/** Busca sem diferenciar maiúsculas nem acentos, no nome, na descrição e no código */
+export function matchesTemplate(template: Template, query: string): boolean {
+  const normalize = (text: string) =>
+    text
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .toLowerCase();
+  const words = normalize(query).split(/\s+/).filter(Boolean);
+  const haystack = normalize([template.name, template.description ?? "", template.code].join(" "));
+  return words.every((word) => haystack.includes(word));
+}
@@ -0,0 +1,112 @@
+/**
+ * Cache dos diagramas compilados, indexado pelo hash do que foi compilado
+ * (código + preâmbulo). Fica em memória e no IndexedDB, para que desfazer uma
+ * edição ou voltar a um documento mostre o SVG sem rodar o TeX de novo.
+ */
+
+import { TikzBBox } from "./tikzMessages";
+
+export interface CachedRender {
+  svg: string;
+  bbox: TikzBBox;
+}
+
+interface StoredRender extends CachedRender {
+  key: string;
+  savedAt: number;
+}
+
+const DB_NAME = "latex-preview";
+/** Mudar a versão descarta os SVGs salvos (ex.: ao atualizar o TikZJax) */
+const DB_VERSION = 1;
+const STORE = "tikz-renders";
+
+const MEMORY_LIMIT = 100;
+const STORED_LIMIT = 500;
+
+const memory = new Map<string, CachedRender>();
+
+function remember(key: string, render: CachedRender) {
+  // Map mantém a ordem de inserção: reinserir marca como usado recentemente
+  memory.delete(key);
+  memory.set(key, render);
+  if (memory.size > MEMORY_LIMIT) {
+    memory.delete(memory.keys().next().value as string);
+  }
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  database ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (db.objectStoreNames.contains(STORE)) db.deleteObjectStore(STORE);
+      db.createObjectStore(STORE, { keyPath: "key" }).createIndex("savedAt", "savedAt");
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }).catch((err) => {
+    // Sem IndexedDB (navegação privada, cota...): o cache fica só em memória
+    database = null;
+    throw err;
+  });
+  return database;
+}
+
+/** Busca só na memória, para mostrar o resultado sem esperar */
+export function peekCachedRender(key: string): CachedRender | undefined {
+  const render = memory.get(key);
+  if (render) remember(key, render);
+  return render;
+}
+
+export async function getCachedRender(key: string): Promise<CachedRender | undefined> {
+  const cached = peekCachedRender(key);
+  if (cached) return cached;
+
+  try {
+    const db = await openDatabase();
+    const stored = await promisify<StoredRender | undefined>(
+      db.transaction(STORE).objectStore(STORE).get(key)
+    );
+    if (!stored) return undefined;
+
+    const render = { svg: stored.svg, bbox: stored.bbox };
+    remember(key, render);
+    return render;
+  } catch {
+    return undefined;
+  }
+}
+
+export async function cacheRender(key: string, render: CachedRender) {
+  remember(key, render);
+
+  try {
+    const db = await openDatabase();
+    const store = db.transaction(STORE, "readwrite").objectStore(STORE);
+    await promisify(store.put({ key, ...render, savedAt: Date.now() } satisfies StoredRender));
+
+    // Descarta os mais antigos além do limite
+    let excess = (await promisify(store.count())) - STORED_LIMIT;
+    if (excess <= 0) return;
+    const cursors = store.index("savedAt").openCursor();
+    cursors.onsuccess = () => {
+      const cursor = cursors.result;
+      if (!cursor || excess-- <= 0) return;
+      cursor.delete();
+      cursor.continue();
+    };
+  } catch {
+    // Sem IndexedDB ou sem cota: o resultado continua na memória
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * Parte do TikZ que o editor visual entende: nós com posição explícita,
+ *   \node[opções] (nome) at (x,y) {texto};
+ * e ligações retas entre nós,
+ *   \draw[opções] (a) -- (b);   \draw[opções] (a) to[bend left] (b);
+ * O resto do código fica como está: cada edição troca só o trecho afetado
+ * (a coordenada, o texto, o comando), e o código continua editável à mão.
+ * As posições são relativas ao código do diagrama.
+ */
+
+import { inComment } from "./latexTokenizer";
+import { SourceRange, TextEdit } from "./sourcePosition";
+
+export interface GraphNode {
+  name: string;
+  x: number;
+  y: number;
+  label: string;
+  options: string;
+  /** O comando inteiro, do \node ao ";" */
+  range: SourceRange;
+  /** A coordenada "(x,y)" */
+  coordinateRange: SourceRange;
+  /** O texto entre as chaves */
+  labelRange: SourceRange;
+}
+
+export interface GraphEdge {
+  /** Nós das pontas, como escritos (podem ter âncora: "a.east") */
+  from: string;
+  to: string;
+  options: string;
+  range: SourceRange;
+}
+
+export interface TikzGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+const NUMBER = String.raw`(-?(?:\d+\.?\d*|\.\d+))\s*(?:cm)?`;
+const NAME = String.raw`\(([^()\s,]+)\)`;
+
+const nodePattern = new RegExp(
+  String.raw`\\node\s*(?:\[([^\]]*)\])?\s*${NAME}\s*(?:\[([^\]]*)\])?\s*at\s*(\(\s*${NUMBER}\s*,\s*${NUMBER}\s*\))\s*\{`,
+  "g"
+);
+
+const edgePattern = new RegExp(
+  String.raw`\\draw\s*(?:\[([^\]]*)\])?\s*${NAME}\s*(?:--|to\s*(?:\[[^\]]*\])?)\s*${NAME}\s*;`,
+  "g"
+);
+
+/** Fim do grupo que abre em `open` (posição do "}"), ou -1 */
+function closingBrace(code: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < code.length; i++) {
+    if (code[i] === "\\") i++;
+    else if (code[i] === "{") depth++;
+    else if (code[i] === "}" && --depth === 0) return i;
+  }
+  return -1;
+}
+
+export function parseTikzGraph(code: string): TikzGraph {
+  const nodes: GraphNode[] = [];
+  const edges: GraphEdge[] = [];
+
+  for (const match of code.matchAll(nodePattern)) {
+    const start = match.index!;
+    if (inComment(code, start)) continue;
+
+    const open = start + match[0].length - 1;
+    const close = closingBrace(code, open);
+    const semicolon = close === -1 ? null : /^\s*;/.exec(code.slice(close + 1));
+    if (!semicolon) continue;
+
+    const coordinateStart = start + match[0].lastIndexOf(match[4]);
+    nodes.push({
+      name: match[2],
+      x: Number(match[5]),
+      y: Number(match[6]),
+      label: code.slice(open + 1, close),
+      options: match[1] ?? match[3] ?? "",
+      range: { start, end: close + 1 + semicolon[0].length },
+      coordinateRange: { start: coordinateStart, end: coordinateStart + match[4].length },
+      labelRange: { start: open + 1, end: close },
+    });
+  }
+
+  for (const match of code.matchAll(edgePattern)) {
+    const start = match.index!;
+    if (inComment(code, start)) continue;
+    edges.push({
+      from: match[2],
+      to: match[3],
+      options: match[1] ?? "",
+      range: { start, end: start + match[0].length },
+    });
+  }
+
+  return { nodes, edges };
+}
+
+/** Nome do nó de uma ponta de ligação ("a.east" -> "a") */
+export function endpointNode(graph: TikzGraph, endpoint: string): GraphNode | undefined {
+  return graph.nodes.find((n) => n.name === endpoint || endpoint.startsWith(`${n.name}.`));
+}
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function formatOptions(options: string): string {
+  return options.trim() ? `[${options.trim()}]` : "";
+}
+
+/** Onde entram comandos novos: depois do último do grafo, ou antes do \end{tikzpicture} */
+function insertion(code: string, graph: TikzGraph, statement: string): TextEdit {
+  const last = Math.max(-1, ...[...graph.nodes, ...graph.edges].map((s) => s.range.end));
+  if (last >= 0) {
+    const lineStart = code.lastIndexOf("\n", last - 1) + 1;
+    const indent = /^[ \t]*/.exec(code.slice(lineStart))![0];
+    return { range: { start: last, end: last }, text: `\n${indent}${statement}` };
+  }
+
+  const end = code.lastIndexOf("\\end{tikzpicture}");
+  if (end === -1) return { range: { start: code.length, end: code.length }, text: `\n${statement}` };
+  const lineStart = code.lastIndexOf("\n", end - 1) + 1;
+  const at = code.slice(lineStart, end).trim() ? end : lineStart;
+  return { range: { start: at, end: at }, text: `  ${statement}\n` };
+}
+
+/** Remove o comando e, se ele estava sozinho na linha, a linha inteira */
+function removal(code: string, range: SourceRange): TextEdit {
+  const lineStart = code.lastIndexOf("\n", range.start - 1) + 1;
+  const lineEnd = code.indexOf("\n", range.end);
+  const end = lineEnd === -1 ? code.length : lineEnd;
+  if (!code.slice(lineStart, range.start).trim() && !code.slice(range.end, end).trim()) {
+    return { range: { start: lineStart, end: lineEnd === -1 ? end : end + 1 }, text: "" };
+  }
+  return { range, text: "" };
+}
+
+export function moveNode(node: GraphNode, x: number, y: number): TextEdit {
+  return { range: node.coordinateRange, text: `(${formatNumber(x)},${formatNumber(y)})` };
+}
+
+export function setNodeLabel(node: GraphNode, label: string): TextEdit {
+  return { range: node.labelRange, text: label };
+}
+
+/** Nó novo com as opções do último nó (ou só com borda), e um nome livre */
+export function addNode(code: string, graph: TikzGraph, x: number, y: number): TextEdit {
+  const names = new Set(graph.nodes.map((n) => n.name));
+  let index = graph.nodes.length + 1;
+  while (names.has(`n${index}`)) index++;
+  const name = `n${index}`;
+
+  const options = graph.nodes.length ? graph.nodes[graph.nodes.length - 1].options : "draw";
+  return insertion(
+    code,
+    graph,
+    `\\node${formatOptions(options)} (${name}) at (${formatNumber(x)},${formatNumber(y)}) {${name}};`
+  );
+}
+
+/** Ligação nova com as opções da última ligação (ou uma seta) */
+export function addEdge(code: string, graph: TikzGraph, from: string, to: string): TextEdit {
+  const options = graph.edges.length ? graph.edges[graph.edges.length - 1].options : "->";
+  return insertion(code, graph, `\\draw${formatOptions(options)} (${from}) -- (${to});`);
+}
+
+/** Remove o nó e as ligações que chegam nele */
+export function deleteNode(code: string, graph: TikzGraph, name: string): TextEdit[] {
+  const node = graph.nodes.find((n) => n.name === name);
+  if (!node) return [];
+  const edges = graph.edges.filter(
+    (e) => endpointNode(graph, e.from) === node || endpointNode(graph, e.to) === node
+  );
+  return [node, ...edges].map((s) => removal(code, s.range));
+}
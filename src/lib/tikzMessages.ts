@@ -0,0 +1,108 @@
+/**
+ * Protocolo de mensagens (postMessage) entre o script do iframe do
+ * TikzPreview e o componente React.
+ */
+
+import { SourceRange } from "./sourcePosition";
+import { TikzView, TikzViewerLabels } from "./tikzViewer";
+
+/** Identifica as mensagens do preview entre outras que a janela possa receber */
+export const TIKZ_MESSAGE_SOURCE = "tikz-preview";
+
+/** Tempo máximo de compilação antes de reportar timeout (o 1º carregamento do TeX é lento) */
+export const TIKZ_COMPILE_TIMEOUT_MS = 20000;
+
+export interface TikzBBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Espera depois da última edição antes de compilar */
+export const TIKZ_COMPILE_DEBOUNCE_MS = 400;
+
+/** Intervalo mínimo entre as compilações enquanto um controle de gráfico é arrastado */
+export const TIKZ_PREVIEW_THROTTLE_MS = 250;
+
+interface TikzMessageBase {
+  source: typeof TIKZ_MESSAGE_SOURCE;
+}
+
+/** Identifica a renderização, para descartar resultados de códigos antigos */
+interface TikzRenderRef {
+  renderId: string;
+}
+
+/** Ferramenta do editor visual: mover nós, criar nós ou ligar dois nós */
+export type TikzGraphTool = "move" | "node" | "edge";
+
+/** O que o editor visual desenha sobre o diagrama (ver tikzGraph.ts) */
+export interface TikzGraphOverlay {
+  tool: TikzGraphTool;
+  /** Renderização do código de onde os nós vieram: só ela serve para calibrar as posições */
+  renderId: string;
+  /** `start`: início do \node no código, o mesmo do atributo data-src do texto do nó */
+  nodes: { name: string; x: number; y: number; start: number }[];
+}
+
+/** Do iframe para o React */
+export type TikzMessage = TikzMessageBase &
+  (
+    | { type: "ready" }
+    /** Clique num nó do diagrama: trecho do código (relativo ao código do diagrama) */
+    | { type: "locate"; range: SourceRange }
+    /** Zoom ou pan feito pelo usuário no visualizador */
+    | { type: "view-change"; view: TikzView }
+    /** Edições do editor visual, em coordenadas do TikZ */
+    | { type: "graph-move"; name: string; x: number; y: number }
+    | { type: "graph-add-node"; x: number; y: number }
+    | { type: "graph-add-edge"; from: string; to: string }
+    | { type: "graph-label"; name: string }
+    | { type: "graph-delete"; name: string }
+    | (TikzRenderRef &
+        (
+          | { type: "compile-start" }
+          | { type: "compile-success"; bbox: TikzBBox; svg: string }
+          | { type: "compile-timeout"; log: string[] }
+          | { type: "compile-error"; log: string[] }
+        ))
+  );
+
+/** Do React para o iframe */
+export type TikzFrameRequest = TikzMessageBase &
+  (
+    | (TikzRenderRef &
+        (
+          | {
+              type: "compile";
+              code: string;
+              /** Valores dos atributos data-tikz-libraries, data-tex-packages e data-add-to-preamble */
+              libraries: string;
+              packages: string;
+              preamble: string;
+            }
+          /** Mostra um SVG já compilado (vindo do cache) */
+          | { type: "show"; svg: string }
+        ))
+    /** Destaca o nó na posição do cursor do editor (null: nenhum) */
+    | { type: "highlight"; offset: number | null }
+    /** Liga o editor visual com os nós do código (null: desliga) */
+    | { type: "graph"; overlay: TikzGraphOverlay | null }
+    /** Texto alternativo do diagrama, lido pelos leitores de tela (ver tikzSummary.ts) */
+    | { type: "describe"; description: string }
+    /** Idioma da interface (atributo lang) e os textos do visualizador */
+    | { type: "labels"; lang: string; labels: TikzViewerLabels }
+    /** Zoom e pan escolhidos fora do iframe (ou lembrados de antes) */
+    | { type: "view"; view: TikzView }
+  );
+
+export type TikzCompileStatus = "idle" | "compiling" | "success" | "error" | "timeout";
+
+export function isTikzMessage(data: unknown): data is TikzMessage {
+  return (
+    typeof data === "object" &&
+    data !== null &&
+    (data as { source?: unknown }).source === TIKZ_MESSAGE_SOURCE
+  );
+}
@@ -0,0 +1,187 @@
+/**
+ * Preâmbulo do TikZ: bibliotecas, pacotes e estilos (\tikzset) de cada render.
+ * O TikZJax recebe bibliotecas e pacotes pelos atributos data-tikz-libraries e
+ * data-tex-packages, que também disponibilizam os arquivos TeX necessários.
+ */
+
+import { SourceRange } from "./sourcePosition";
+import { splitSegments } from "./segments";
+
+export interface TikzPreambleConfig {
+  /** Bibliotecas do TikZ, ex.: "arrows.meta" */
+  libraries: string[];
+  /** Pacotes TeX: nome → opções ("" sem opções) */
+  packages: Record<string, string>;
+  /** Estilos compartilhados: conteúdo de um \tikzset{...} */
+  tikzset: string;
+}
+
+export const emptyTikzPreamble: TikzPreambleConfig = { libraries: [], packages: {}, tikzset: "" };
+
+/** Pacotes cujos arquivos o TikZJax distribui (além do próprio TikZ) */
+export const AVAILABLE_TEX_PACKAGES = [
+  "amsmath",
+  "amssymb",
+  "amsfonts",
+  "array",
+  "etoolbox",
+  "hf-tikz",
+  "pgfplots",
+  "tikz-3dplot",
+  "tikz-cd",
+  "xparse",
+];
+
+/** Bibliotecas oferecidas para fixar na interface (qualquer outra pode ser digitada) */
+export const COMMON_TIKZ_LIBRARIES = [
+  "arrows.meta",
+  "positioning",
+  "calc",
+  "shapes.geometric",
+  "automata",
+  "matrix",
+  "decorations.pathmorphing",
+  "decorations.pathreplacing",
+  "decorations.markings",
+  "fit",
+  "backgrounds",
+  "patterns",
+  "intersections",
+  "quotes",
+  "angles",
+  "3d",
+];
+
+interface DetectionRule {
+  pattern: RegExp;
+  library?: string;
+  texPackage?: string;
+}
+
+// Construções que só compilam com a biblioteca (ou pacote) correspondente
+const detectionRules: DetectionRule[] = [
+  { pattern: /-\s*(?:Stealth|Latex|Triangle|Kite|Straight Barb|Rays|To)\b|\b(?:Stealth|Latex)\s*\[/, library: "arrows.meta" },
+  { pattern: /\b(?:above|below|left|right)(?:\s+(?:left|right))?\s*=\s*[^,\]]*\bof\b/, library: "positioning" },
+  { pattern: /\(\s*\$/, library: "calc" },
+  { pattern: /\b(?:diamond|ellipse|regular polygon|star|trapezium|cylinder|kite|dart)\b/, library: "shapes.geometric" },
+  { pattern: /\brectangle split\b/, library: "shapes.multipart" },
+  { pattern: /\b(?:state|initial|accepting)\b(?=[^\]]*\])/, library: "automata" },
+  { pattern: /\bmatrix of (?:math )?nodes\b/, library: "matrix" },
+  { pattern: /\bdecoration\s*=\s*\{?\s*(?:snake|zigzag|coil|saw|random steps|bumps)/, library: "decorations.pathmorphing" },
+  { pattern: /\bdecoration\s*=\s*\{?\s*(?:brace|ticks|expanding waves)/, library: "decorations.pathreplacing" },
+  { pattern: /\bdecoration\s*=\s*\{?\s*markings/, library: "decorations.markings" },
+  { pattern: /\bfit\s*=/, library: "fit" },
+  { pattern: /\bon background layer\b/, library: "backgrounds" },
+  { pattern: /\bpattern\s*=/, library: "patterns" },
+  { pattern: /\bname (?:path|intersections)\b/, library: "intersections" },
+  { pattern: /\bpic\s*(?:\[[^\]]*\])?\s*\{(?:right )?angle\b/, library: "angles" },
+  { pattern: /\bedge\s*\["|--\s*node\s*\["|\bto\s*\["/, library: "quotes" },
+  { pattern: /\bcanvas is [xyz]{2} plane\b/, library: "3d" },
+  { pattern: /\bdrop shadow\b/, library: "shadows" },
+  { pattern: /\\begin\{tikzcd\}/, texPackage: "tikz-cd" },
+  {
+    pattern:
+      /\\(?:mathbb|mathfrak|leqslant|geqslant|lesssim|gtrsim|nless|ngtr|nleq|ngeq|nmid|subsetneq|supsetneq|nsubseteq|nsupseteq|complement|nexists|therefore|because|beth|ltimes|rtimes|measuredangle|square|blacksquare|checkmark)\b/,
+    texPackage: "amssymb",
+  },
+  { pattern: /\\(?:iint|iiint|text)\b/, texPackage: "amsmath" },
+  { pattern: /\\begin\{(?:semilog[xy]?|loglog)?axis\}|\\addplot\b/, texPackage: "pgfplots" },
+];
+
+export function detectPreamble(source: string): TikzPreambleConfig {
+  const libraries = new Set<string>();
+  const packages: Record<string, string> = {};
+
+  for (const rule of detectionRules) {
+    if (!rule.pattern.test(source)) continue;
+    if (rule.library) libraries.add(rule.library);
+    if (rule.texPackage) packages[rule.texPackage] = "";
+  }
+
+  return { libraries: [...libraries], packages, tikzset: "" };
+}
+
+export interface DocumentPreamble {
+  config: TikzPreambleConfig;
+  /** Onde estão as declarações no texto (não aparecem como prosa) */
+  ranges: SourceRange[];
+}
+
+/**
+ * Lê \usetikzlibrary, \usepackage e \tikzset escritos no documento,
+ * fora dos ambientes tikzpicture, como num preâmbulo LaTeX.
+ */
+export function parseDocumentPreamble(source: string): DocumentPreamble {
+  const config: TikzPreambleConfig = { libraries: [], packages: {}, tikzset: "" };
+  const ranges: SourceRange[] = [];
+  const declaration = /\\(usetikzlibrary|usepackage|tikzset)\s*(?:\[([^\]]*)\])?\s*\{/g;
+  const textSegments = splitSegments(source).filter((s) => s.kind === "text");
+
+  for (let match = declaration.exec(source); match; match = declaration.exec(source)) {
+    const at = match.index;
+    if (!textSegments.some((s) => s.start <= at && at < s.end)) continue;
+
+    // Conteúdo com chaves balanceadas (o \tikzset costuma ter chaves internas)
+    let depth = 1;
+    let end = declaration.lastIndex;
+    while (end < source.length && depth > 0) {
+      if (source[end] === "\\") end++;
+      else if (source[end] === "{") depth++;
+      else if (source[end] === "}") depth--;
+      end++;
+    }
+    if (depth > 0) break;
+
+    const [, command, options = ""] = match;
+    const content = source.slice(declaration.lastIndex, end - 1);
+    const names = content.split(",").map((n) => n.trim()).filter(Boolean);
+
+    if (command === "usetikzlibrary") {
+      config.libraries.push(...names);
+    } else if (command === "usepackage") {
+      // O TikZ já vem carregado
+      for (const name of names) if (name !== "tikz") config.packages[name] = options;
+    } else {
+      config.tikzset += (config.tikzset ? ",\n" : "") + content.trim();
+    }
+
+    ranges.push({ start: match.index, end });
+    declaration.lastIndex = end;
+  }
+
+  return { config, ranges };
+}
+
+/** Junta configurações; bibliotecas e pacotes se somam, estilos se concatenam */
+export function mergePreambles(...configs: TikzPreambleConfig[]): TikzPreambleConfig {
+  const libraries = new Set<string>();
+  const packages: Record<string, string> = {};
+  const tikzsets: string[] = [];
+
+  for (const config of configs) {
+    config.libraries.forEach((l) => libraries.add(l));
+    Object.assign(packages, config.packages);
+    if (config.tikzset.trim()) tikzsets.push(config.tikzset.trim());
+  }
+
+  return { libraries: [...libraries], packages, tikzset: tikzsets.join(",\n") };
+}
+
+/** O preâmbulo em LaTeX, para o .tex exportado */
+export function formatPreamble(config: TikzPreambleConfig): string {
+  const lines = Object.entries(config.packages).map(([name, options]) =>
+    options ? `\\usepackage[${options}]{${name}}` : `\\usepackage{${name}}`
+  );
+  if (config.libraries.length) {
+    lines.push(`\\usetikzlibrary{${config.libraries.join(",")}}`);
+  }
+  if (config.tikzset.trim()) {
+    lines.push(`\\tikzset{${config.tikzset.trim()}}`);
+  }
+  return lines.join("\n");
+}
+
+/** Pacotes pedidos que o TikZJax não tem como carregar */
+export function unavailablePackages(config: TikzPreambleConfig): string[] {
+  return Object.keys(config.packages).filter((name) => !AVAILABLE_TEX_PACKAGES.includes(name));
+}
@@ -0,0 +1,173 @@
+/**
+ * Descrição em texto de um diagrama, tirada do código TikZ, para leitores de
+ * tela: os nós (com os rótulos lidos por extenso) e as ligações entre eles.
+ * Entende \node, caminhos com "--", "to" e "edge" entre nós nomeados, árvores
+ * (child) e diagramas comutativos (tikzcd com \arrow).
+ */
+
+import { findTikzNodes } from "./sourceMap";
+import { SpokenPhrases, speak } from "./spokenMath";
+
+/** Os textos da descrição num idioma; ficam nos catálogos de src/locales (tikzSummary) */
+export interface TikzSummaryPhrases {
+  /** Conjunção antes do último item de uma lista: "a, b e c" */
+  and: string;
+  commutativeDiagram: (objects: number, list: string) => string;
+  arrows: (arrows: number, list: string) => string;
+  /** Uma seta ou ligação entre dois nós */
+  fromTo: (from: string, to: string) => string;
+  plot: (curves: number) => string;
+  tree: (nodes: number, list: string) => string;
+  diagram: (nodes: number, list: string) => string;
+  /** Desenho sem nós nem gráfico */
+  empty: string;
+  edges: (edges: number, list: string) => string;
+  loop: (node: string) => string;
+  texts: (texts: number, list: string) => string;
+}
+
+interface SummaryNode {
+  name: string | null;
+  label: string;
+}
+
+interface SummaryEdge {
+  from: string;
+  to: string;
+  label: string;
+}
+
+/** Rótulo de um nó por extenso: texto como está, fórmulas ($...$) lidas */
+function speakLabel(label: string, spoken: SpokenPhrases): string {
+  return label
+    .split(/(\$[^$]*\$)/)
+    .map((part) => (part.startsWith("$") ? speak(part.slice(1, -1), spoken) : part.replace(/\\\\/g, " ").replace(/[{}]/g, "")))
+    .join(" ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function list(items: string[], phrases: TikzSummaryPhrases): string {
+  if (items.length <= 1) return items.join("");
+  return `${items.slice(0, -1).join(", ")} ${phrases.and} ${items[items.length - 1]}`;
+}
+
+function describeTikzcd(code: string, phrases: TikzSummaryPhrases, spoken: SpokenPhrases): string {
+  const body = code.replace(/^\s*\\begin\{tikzcd\}(?:\[[^\]]*\])?|\\end\{tikzcd\}\s*$/g, "");
+  const rows = body.split(/\\\\/).map((row) => row.split("&"));
+
+  const cells: string[][] = rows.map((row) =>
+    row.map((cell) => speakLabel(`$${cell.replace(/\\(?:arrow|ar)\s*\[[^\]]*\](?:\s*\{[^}]*\})?/g, "")}$`, spoken))
+  );
+  const objects = cells.flat().filter(Boolean);
+
+  const arrows: SummaryEdge[] = [];
+  rows.forEach((row, r) =>
+    row.forEach((cell, c) => {
+      for (const match of cell.matchAll(/\\(?:arrow|ar)\s*\[([^\]]*)\]/g)) {
+        const [direction = "", ...rest] = match[1].split(",").map((o) => o.trim());
+        const count = (letter: string) => direction.split(letter).length - 1;
+        const target = cells[r + count("d") - count("u")]?.[c + count("r") - count("l")];
+        const label = rest.find((o) => o.startsWith('"'))?.replace(/^"|"'?$/g, "") ?? "";
+        if (cells[r][c] && target) arrows.push({ from: cells[r][c], to: target, label: label && speakLabel(`$${label}$`, spoken) });
+      }
+    })
+  );
+
+  const parts = [phrases.commutativeDiagram(objects.length, list(objects, phrases))];
+  if (arrows.length) {
+    const items = arrows.map((a) => `${phrases.fromTo(a.from, a.to)}${a.label ? ` (${a.label})` : ""}`);
+    parts.push(phrases.arrows(arrows.length, list(items, phrases)));
+  }
+  return parts.join(" ");
+}
+
+/** Ligações entre nós nomeados nos caminhos (\draw, \path), com o texto que levam */
+function findEdges(code: string, names: Set<string>, spoken: SpokenPhrases): SummaryEdge[] {
+  const edges: SummaryEdge[] = [];
+
+  for (const statement of code.matchAll(/\\(?:draw|path)\b[^;]*;/g)) {
+    let current: string | null = null;
+    let connector: "edge" | "move" | null = null;
+    let label = "";
+
+    for (const match of statement[0].matchAll(/\(([^()]*)\)|\bedge\b|--|\bto\b|\bnode\s*(?:\[[^\]]*\])?\s*\{([^}]*)\}/g)) {
+      const token = match[0];
+      if (token === "edge") connector = "edge";
+      else if (token === "--" || token === "to") connector = "move";
+      else if (token.startsWith("node")) {
+        if (connector) label = speakLabel(match[2], spoken);
+      } else {
+        // Âncoras ("a.east") contam como o próprio nó; "()" é um laço
+        const name = match[1].trim().split(".")[0];
+        const target: string | null = name === "" && connector === "edge" ? current : names.has(name) ? name : null;
+        if (connector && current && target) edges.push({ from: current, to: target, label });
+        if (connector !== "edge" || !current) current = target;
+        connector = null;
+        label = "";
+      }
+    }
+  }
+
+  return edges;
+}
+
+/** Texto alternativo do diagrama, no idioma de `phrases`; "" se o código estiver vazio */
+export function describeTikz(code: string, phrases: TikzSummaryPhrases, spoken: SpokenPhrases): string {
+  if (!code.trim()) return "";
+  if (/\\begin\{tikzcd\}/.test(code)) return describeTikzcd(code, phrases, spoken);
+
+  // Nós são os \node e os filhos das árvores; um "node" no meio de um caminho é um texto
+  // (o rótulo de uma ligação, o nome de um eixo...)
+  const nodes: SummaryNode[] = [];
+  const texts: string[] = [];
+  for (const { statement, text } of findTikzNodes(code)) {
+    const label = speakLabel(code.slice(text.start, text.end), spoken);
+    const before = code.slice(0, statement.start);
+    if (code[statement.start] !== "\\" && !/\bchild\s*(?:\[[^\]]*\])?\s*\{\s*$/.test(before)) {
+      texts.push(label);
+      continue;
+    }
+    const head = code.slice(statement.start, text.start).replace(/\bat\s*\([^)]*\)/, "");
+    nodes.push({ name: /\(([^()\s,]+)\)/.exec(head)?.[1] ?? null, label });
+  }
+
+  const names = new Set(nodes.flatMap((n) => (n.name ? [n.name] : [])));
+  const labelOf = (name: string) => {
+    const node = nodes.find((n) => n.name === name);
+    return node?.label || name;
+  };
+
+  const edges = findEdges(code, names, spoken);
+  const children = (code.match(/\bchild\b/g) ?? []).length;
+  const labels = nodes.map((n) => n.label).filter(Boolean);
+  // Textos soltos: os que não são rótulos de ligações
+  for (const edge of edges) {
+    const index = texts.indexOf(edge.label);
+    if (index !== -1) texts.splice(index, 1);
+  }
+
+  const plot = /\\begin\{(?:semilog[xy]?|loglog)?axis\}/.test(code);
+
+  const parts: string[] = [];
+  if (plot) {
+    const plots = (code.match(/\\addplot\b/g) ?? []).length;
+    parts.push(phrases.plot(plots));
+  }
+  if (children) parts.push(phrases.tree(nodes.length, list(labels, phrases)));
+  else if (nodes.length) parts.push(phrases.diagram(nodes.length, list(labels, phrases)));
+  else if (!plot) parts.push(phrases.empty);
+
+  if (edges.length) {
+    const items = edges.map((e) => {
+      const path = e.from === e.to ? phrases.loop(labelOf(e.from)) : phrases.fromTo(labelOf(e.from), labelOf(e.to));
+      return e.label ? `${path} (${e.label})` : path;
+    });
+    parts.push(phrases.edges(edges.length, list(items, phrases)));
+  }
+
+  const freeTexts = texts.filter(Boolean);
+  if (freeTexts.length) parts.push(phrases.texts(freeTexts.length, list(freeTexts, phrases)));
+
+  return parts.join(" ");
+}
@@ -0,0 +1,507 @@
+/**
+ * Visualizador dos diagramas no iframe do TikzPreview: zoom, pan, modos de
+ * ajuste, minimapa, porcentagem do zoom, destaque dos nós e clique para
+ * localizar no código.
+ *
+ * O iframe (srcDoc, origem opaca) não carrega módulos: `installTikzViewer` vai
+ * para o documento como texto (ver `viewerScript`). Por isso ela não usa nada
+ * de fora da própria função; os tipos deste arquivo somem na compilação.
+ */
+
+import { SourceRange } from "./sourcePosition";
+
+/**
+ * Como o diagrama ocupa a janela: inteiro, pela largura, pela altura ou no
+ * tamanho do SVG (1pt do TeX = 1px)
+ */
+export type FitMode = "fit" | "fit-width" | "fit-height" | "actual-size";
+
+export const FIT_MODES: FitMode[] = ["fit", "fit-width", "fit-height", "actual-size"];
+
+/** Zoom e pan do visualizador */
+export interface TikzView {
+  /**
+   * Modo seguido a cada diagrama novo e a cada mudança de tamanho da janela;
+   * null depois de um zoom ou pan manual, que então continuam valendo
+   */
+  fit: FitMode | null;
+  /** 1 = tamanho real */
+  zoom: number;
+  /** Deslocamento do centro do diagrama em relação ao centro da janela, em px */
+  x: number;
+  y: number;
+}
+
+export const defaultTikzView: TikzView = { fit: "fit", zoom: 1, x: 0, y: 0 };
+
+export function isTikzView(value: unknown): value is TikzView {
+  const view = value as Partial<TikzView> | null;
+  return (
+    typeof view === "object" &&
+    view !== null &&
+    (view.fit === null || FIT_MODES.includes(view.fit as FitMode)) &&
+    [view.zoom, view.x, view.y].every((n) => typeof n === "number" && Number.isFinite(n)) &&
+    view.zoom! > 0
+  );
+}
+
+export function sameTikzView(a: TikzView, b: TikzView): boolean {
+  return a.fit === b.fit && a.zoom === b.zoom && a.x === b.x && a.y === b.y;
+}
+
+/** Textos do visualizador do iframe, no idioma da interface */
+export interface TikzViewerLabels {
+  /** aria-roledescription do visualizador */
+  roleDescription: string;
+  /** Rótulo do visualizador, com as teclas que ele aceita */
+  instructions: string;
+  /** Rótulo do diagrama enquanto não há descrição */
+  diagram: string;
+  toolbar: string;
+  zoomIn: string;
+  zoomOut: string;
+  fit: string;
+  fitWidth: string;
+  fitHeight: string;
+  actualSize: string;
+  minimap: string;
+  /** Início do anúncio do nível de zoom ("Zoom 150%") */
+  zoom: string;
+}
+
+/** O que o visualizador chama fora dele, no iframe */
+export interface TikzViewerHost {
+  /** Clique num nó: trecho do código (relativo ao código do diagrama) */
+  locate: (range: SourceRange) => void;
+  /** Zoom ou pan feito pelo usuário (agrupado: só depois de uma pausa) */
+  viewChange: (view: TikzView) => void;
+  /** O diagrama mudou de posição ou de tamanho na tela (o editor visual redesenha as alças) */
+  layout: () => void;
+  /** Diagrama novo na tela */
+  refresh: () => void;
+}
+
+export interface TikzViewer {
+  /** Troca o diagrama exibido (um <svg> ou seu código) e guarda de qual renderização ele é */
+  show: (svg: SVGSVGElement | string, renderId: string) => void;
+  renderId: () => string | null;
+  /** Destaca o nó na posição do cursor do editor (null: nenhum) */
+  highlight: (offset: number | null) => void;
+  describe: (text: string) => void;
+  setLabels: (lang: string, labels: TikzViewerLabels) => void;
+  /** Zoom e pan vindos do React; não voltam como viewChange */
+  setView: (view: TikzView) => void;
+}
+
+/**
+ * Liga o visualizador aos elementos do srcDoc (tikzContainer, tikzContent,
+ * zoomControls, minimap...). O conteúdo fica centralizado na janela e recebe
+ * translate(x, y) scale(zoom) com origem no centro.
+ */
+export function installTikzViewer(doc: Document, host: TikzViewerHost): TikzViewer {
+  const MIN_ZOOM = 0.1;
+  const MAX_ZOOM = 50;
+  // Margem em volta do diagrama nos modos de ajuste
+  const MARGIN = 20;
+  const MINIMAP_WIDTH = 140;
+  const MINIMAP_HEIGHT = 100;
+  // Pausa depois do último zoom ou pan antes de avisar o React
+  const REPORT_DELAY_MS = 250;
+
+  const byId = <T extends HTMLElement>(id: string) => doc.getElementById(id) as T;
+  const container = byId<HTMLDivElement>("tikzContainer");
+  const content = byId<HTMLDivElement>("tikzContent");
+  const toolbar = byId<HTMLDivElement>("zoomControls");
+  const zoomLevel = byId<HTMLSpanElement>("zoomLevel");
+  const viewerStatus = byId<HTMLDivElement>("viewerStatus");
+  const minimap = byId<HTMLDivElement>("minimap");
+  const minimapView = byId<HTMLDivElement>("minimapView");
+  const buttons: Record<string, HTMLButtonElement> = {};
+  for (const button of Array.from(toolbar.querySelectorAll<HTMLButtonElement>("button[data-action]"))) {
+    buttons[button.dataset.action!] = button;
+  }
+
+  let view: TikzView = { fit: "fit", zoom: 1, x: 0, y: 0 };
+  let reportTimer: ReturnType<typeof setTimeout> | undefined;
+  // Textos no idioma da interface (setLabels) e a descrição do diagrama (describe)
+  let labels: TikzViewerLabels | null = null;
+  let description = "";
+
+  function shownSvg(): SVGSVGElement | null {
+    return content.querySelector("svg");
+  }
+
+  /** Tamanho do diagrama sem zoom (o layout do <svg> não conta o transform) */
+  function diagramSize(): { width: number; height: number } | null {
+    const svg = shownSvg();
+    if (!svg || !svg.clientWidth || !svg.clientHeight) return null;
+    return { width: svg.clientWidth, height: svg.clientHeight };
+  }
+
+  function clampZoom(zoom: number): number {
+    return Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom));
+  }
+
+  function apply() {
+    content.style.transform = `translate(${view.x}px, ${view.y}px) scale(${view.zoom})`;
+    zoomLevel.textContent = `${Math.round(view.zoom * 100)}%`;
+    for (const mode of ["fit", "fit-width", "fit-height", "actual-size"]) {
+      buttons[mode]?.setAttribute("aria-pressed", String(view.fit === mode));
+    }
+    updateMinimap();
+    host.layout();
+  }
+
+  /** Zoom e pan do modo para o diagrama e a janela atuais */
+  function fitTo(mode: FitMode) {
+    const size = diagramSize();
+    if (!size) {
+      view = { ...view, fit: mode };
+      apply();
+      return;
+    }
+    const box = container.getBoundingClientRect();
+    const scaleX = Math.max(1, box.width - 2 * MARGIN) / size.width;
+    const scaleY = Math.max(1, box.height - 2 * MARGIN) / size.height;
+    const zoom = clampZoom(
+      mode === "fit" ? Math.min(scaleX, scaleY) : mode === "fit-width" ? scaleX : mode === "fit-height" ? scaleY : 1
+    );
+
+    // Pela largura, um diagrama mais alto que a janela começa pelo topo; pela altura, pela esquerda
+    let x = 0;
+    let y = 0;
+    if (mode === "fit-width" && zoom * size.height > box.height - 2 * MARGIN) {
+      y = (zoom * size.height - box.height) / 2 + MARGIN;
+    }
+    if (mode === "fit-height" && zoom * size.width > box.width - 2 * MARGIN) {
+      x = (zoom * size.width - box.width) / 2 + MARGIN;
+    }
+    view = { fit: mode, zoom, x, y };
+    apply();
+  }
+
+  /** Avisa o React do zoom e do pan escolhidos pelo usuário, depois de uma pausa */
+  function report() {
+    clearTimeout(reportTimer);
+    reportTimer = setTimeout(() => host.viewChange(view), REPORT_DELAY_MS);
+  }
+
+  /** Zoom ou pan manual: sai do modo de ajuste */
+  function change(next: Omit<TikzView, "fit">) {
+    view = { ...next, fit: null };
+    apply();
+    report();
+  }
+
+  function userFit(mode: FitMode) {
+    fitTo(mode);
+    report();
+  }
+
+  /** Zoom mantendo parado o ponto sob o cursor (padrão: o centro da janela) */
+  function zoomBy(factor: number, clientX?: number, clientY?: number) {
+    const zoom = clampZoom(view.zoom * factor);
+    let { x, y } = view;
+    if (clientX !== undefined && clientY !== undefined) {
+      const box = container.getBoundingClientRect();
+      const px = clientX - box.left - box.width / 2;
+      const py = clientY - box.top - box.height / 2;
+      x = px - (px - x) * (zoom / view.zoom);
+      y = py - (py - y) * (zoom / view.zoom);
+    } else {
+      x *= zoom / view.zoom;
+      y *= zoom / view.zoom;
+    }
+    change({ zoom, x, y });
+  }
+
+  function panBy(dx: number, dy: number) {
+    change({ zoom: view.zoom, x: view.x + dx, y: view.y + dy });
+  }
+
+  function announce() {
+    if (labels) viewerStatus.textContent = `${labels.zoom} ${Math.round(view.zoom * 100)}%`;
+  }
+
+  // Minimapa: uma cópia do diagrama com o retângulo da parte visível. Só aparece
+  // quando parte do diagrama está fora da janela; clicar ou arrastar move a janela.
+  let minimapScale = 1;
+
+  function updateMinimap() {
+    const size = diagramSize();
+    const box = container.getBoundingClientRect();
+    const left = box.width / 2 + view.x - (view.zoom * (size?.width ?? 0)) / 2;
+    const top = box.height / 2 + view.y - (view.zoom * (size?.height ?? 0)) / 2;
+    const hidden =
+      !!size &&
+      (left < 0 ||
+        top < 0 ||
+        left + view.zoom * size.width > box.width ||
+        top + view.zoom * size.height > box.height);
+    minimap.hidden = !hidden || !minimap.querySelector("svg");
+    if (minimap.hidden || !size) return;
+
+    minimapScale = Math.min(MINIMAP_WIDTH / size.width, MINIMAP_HEIGHT / size.height);
+    minimap.style.width = `${size.width * minimapScale}px`;
+    minimap.style.height = `${size.height * minimapScale}px`;
+
+    // Parte visível, em coordenadas do diagrama, limitada a ele
+    const x0 = Math.max(0, -left / view.zoom);
+    const y0 = Math.max(0, -top / view.zoom);
+    const x1 = Math.min(size.width, (box.width - left) / view.zoom);
+    const y1 = Math.min(size.height, (box.height - top) / view.zoom);
+    minimapView.style.left = `${x0 * minimapScale}px`;
+    minimapView.style.top = `${y0 * minimapScale}px`;
+    minimapView.style.width = `${Math.max(0, x1 - x0) * minimapScale}px`;
+    minimapView.style.height = `${Math.max(0, y1 - y0) * minimapScale}px`;
+  }
+
+  /** Centraliza a janela no ponto do minimapa */
+  function centerOnMinimap(clientX: number, clientY: number) {
+    const size = diagramSize();
+    if (!size) return;
+    const rect = minimap.getBoundingClientRect();
+    const u = (clientX - rect.left) / minimapScale;
+    const v = (clientY - rect.top) / minimapScale;
+    change({ zoom: view.zoom, x: view.zoom * (size.width / 2 - u), y: view.zoom * (size.height / 2 - v) });
+  }
+
+  let minimapDrag = false;
+  minimap.addEventListener("mousedown", (e) => {
+    if (e.button !== 0) return;
+    // Não inicia o pan do diagrama
+    e.stopPropagation();
+    e.preventDefault();
+    minimapDrag = true;
+    centerOnMinimap(e.clientX, e.clientY);
+  });
+  doc.addEventListener("mousemove", (e) => {
+    if (minimapDrag) centerOnMinimap(e.clientX, e.clientY);
+  });
+  doc.addEventListener("mouseup", () => {
+    minimapDrag = false;
+  });
+
+  // Zoom com scroll
+  container.addEventListener(
+    "wheel",
+    (e) => {
+      e.preventDefault();
+      zoomBy(e.deltaY > 0 ? 0.9 : 1.1, e.clientX, e.clientY);
+    },
+    { passive: false }
+  );
+
+  // Pan com mouse
+  let drag: { x: number; y: number; viewX: number; viewY: number } | null = null;
+  container.addEventListener("mousedown", (e) => {
+    if (e.button !== 0) return;
+    drag = { x: e.clientX, y: e.clientY, viewX: view.x, viewY: view.y };
+    container.classList.add("dragging");
+  });
+  doc.addEventListener("mousemove", (e) => {
+    if (!drag) return;
+    change({ zoom: view.zoom, x: drag.viewX + e.clientX - drag.x, y: drag.viewY + e.clientY - drag.y });
+  });
+  doc.addEventListener("mouseup", () => {
+    drag = null;
+    container.classList.remove("dragging");
+  });
+
+  // Toque: um dedo move, dois dedos fazem zoom
+  let lastTouchDistance = 0;
+  let lastTouchCenter = { x: 0, y: 0 };
+  const touchCenter = (touches: TouchList) => ({
+    x: (touches[0].clientX + touches[1].clientX) / 2,
+    y: (touches[0].clientY + touches[1].clientY) / 2,
+  });
+  const touchDistance = (touches: TouchList) =>
+    Math.hypot(touches[1].clientX - touches[0].clientX, touches[1].clientY - touches[0].clientY);
+
+  container.addEventListener(
+    "touchstart",
+    (e) => {
+      if (e.touches.length === 1) {
+        drag = { x: e.touches[0].clientX, y: e.touches[0].clientY, viewX: view.x, viewY: view.y };
+      } else if (e.touches.length === 2) {
+        drag = null;
+        lastTouchDistance = touchDistance(e.touches);
+        lastTouchCenter = touchCenter(e.touches);
+      }
+    },
+    { passive: false }
+  );
+  container.addEventListener(
+    "touchmove",
+    (e) => {
+      e.preventDefault();
+      if (e.touches.length === 1 && drag) {
+        const touch = e.touches[0];
+        change({ zoom: view.zoom, x: drag.viewX + touch.clientX - drag.x, y: drag.viewY + touch.clientY - drag.y });
+      } else if (e.touches.length === 2) {
+        const distance = touchDistance(e.touches);
+        if (lastTouchDistance > 0) zoomBy(distance / lastTouchDistance, lastTouchCenter.x, lastTouchCenter.y);
+        lastTouchDistance = distance;
+        lastTouchCenter = touchCenter(e.touches);
+      }
+    },
+    { passive: false }
+  );
+  container.addEventListener("touchend", () => {
+    drag = null;
+    lastTouchDistance = 0;
+  });
+
+  // Botões da barra
+  const actions: Record<string, () => void> = {
+    "zoom-in": () => zoomBy(1.2),
+    "zoom-out": () => zoomBy(0.8),
+    fit: () => userFit("fit"),
+    "fit-width": () => userFit("fit-width"),
+    "fit-height": () => userFit("fit-height"),
+    "actual-size": () => userFit("actual-size"),
+  };
+  toolbar.addEventListener("mousedown", (e) => e.stopPropagation());
+  toolbar.addEventListener("click", (e) => {
+    const button = (e.target as Element).closest<HTMLButtonElement>("button[data-action]");
+    if (button) actions[button.dataset.action!]?.();
+  });
+
+  // Teclado: + e − para zoom, setas para mover (Shift: passo maior), 0 para ajustar,
+  // W e H para ajustar à largura e à altura, 1 para o tamanho real.
+  // O nível de zoom é anunciado aos leitores de tela.
+  const keyActions: Record<string, string> = {
+    "+": "zoom-in",
+    "=": "zoom-in",
+    "-": "zoom-out",
+    _: "zoom-out",
+    "0": "fit",
+    w: "fit-width",
+    h: "fit-height",
+    "1": "actual-size",
+  };
+  container.addEventListener("keydown", (e) => {
+    if (e.ctrlKey || e.metaKey || e.altKey) return;
+    const step = e.shiftKey ? 120 : 40;
+    const action = keyActions[e.key.toLowerCase()];
+    if (action) {
+      actions[action]();
+      announce();
+    } else if (e.key === "ArrowLeft") {
+      panBy(step, 0);
+    } else if (e.key === "ArrowRight") {
+      panBy(-step, 0);
+    } else if (e.key === "ArrowUp") {
+      panBy(0, step);
+    } else if (e.key === "ArrowDown") {
+      panBy(0, -step);
+    } else {
+      return;
+    }
+    e.preventDefault();
+  });
+
+  // A janela mudou de tamanho: o modo de ajuste é refeito
+  new ResizeObserver(() => (view.fit ? fitTo(view.fit) : apply())).observe(container);
+
+  // Navegação com o editor: o cursor destaca o nó do código em que está,
+  // e clicar num nó seleciona o código dele
+  let highlightOffset: number | null = null;
+
+  function highlight() {
+    content.querySelector(".sync-highlight")?.classList.remove("sync-highlight");
+    if (highlightOffset === null) return;
+
+    let best: Element | null = null;
+    let bestLength = Infinity;
+    for (const element of Array.from(content.querySelectorAll("[data-src]"))) {
+      const [start, end] = element.getAttribute("data-src")!.split("-").map(Number);
+      if (highlightOffset < start || highlightOffset > end || end - start > bestLength) continue;
+      best = element;
+      bestLength = end - start;
+    }
+    best?.classList.add("sync-highlight");
+  }
+
+  let clickStart: { x: number; y: number } | null = null;
+  container.addEventListener("mousedown", (e) => {
+    clickStart = { x: e.clientX, y: e.clientY };
+  });
+  container.addEventListener("click", (e) => {
+    // Arrastar (pan) não conta como clique
+    if (!clickStart || Math.hypot(e.clientX - clickStart.x, e.clientY - clickStart.y) > 3) return;
+    const element = (e.target as Element).closest("[data-src]");
+    if (!element) return;
+    const [start, end] = element.getAttribute("data-src")!.split("-").map(Number);
+    host.locate({ start, end });
+  });
+
+  let shownRenderId: string | null = null;
+
+  function show(svg: SVGSVGElement | string, renderId: string) {
+    const element =
+      typeof svg === "string"
+        ? (doc.createRange().createContextualFragment(svg).firstElementChild as SVGSVGElement)
+        : svg;
+    content.replaceChildren(element);
+    minimap.replaceChildren(element.cloneNode(true), minimapView);
+    shownRenderId = renderId;
+    highlight();
+    host.refresh();
+
+    // Pequeno delay para o SVG novo ter layout. O zoom e o pan do diagrama anterior
+    // continuam, a não ser num modo de ajuste
+    setTimeout(() => (view.fit ? fitTo(view.fit) : apply()), 50);
+  }
+
+  return {
+    show,
+    renderId: () => shownRenderId,
+    highlight: (offset) => {
+      highlightOffset = offset;
+      highlight();
+    },
+    describe: (text) => {
+      description = text;
+      content.setAttribute("aria-label", description || labels?.diagram || "");
+    },
+    setLabels: (lang, next) => {
+      labels = next;
+      doc.documentElement.lang = lang;
+      container.setAttribute("aria-roledescription", next.roleDescription);
+      container.setAttribute("aria-label", next.instructions);
+      toolbar.setAttribute("aria-label", next.toolbar);
+      minimap.setAttribute("aria-label", next.minimap);
+      const buttonLabels: [string, string, string][] = [
+        ["zoom-in", next.zoomIn, "+"],
+        ["zoom-out", next.zoomOut, "−"],
+        ["fit", next.fit, "0"],
+        ["fit-width", next.fitWidth, "W"],
+        ["fit-height", next.fitHeight, "H"],
+        ["actual-size", next.actualSize, "1"],
+      ];
+      for (const [action, label, key] of buttonLabels) {
+        buttons[action]?.setAttribute("aria-label", label);
+        if (buttons[action]) buttons[action].title = `${label} (${key})`;
+      }
+      content.setAttribute("aria-label", description || next.diagram);
+    },
+    setView: (next) => {
+      clearTimeout(reportTimer);
+      if (next.fit) {
+        fitTo(next.fit);
+      } else {
+        view = { ...next, zoom: clampZoom(next.zoom) };
+        apply();
+      }
+    },
+  };
+}
+
+/**
+ * Script do srcDoc que instala o visualizador em window.tikzViewer; `host` é o
+ * código (no iframe) do objeto TikzViewerHost
+ */
+export function viewerScript(host: string): string {
+  return `window.tikzViewer = (${installTikzViewer.toString()})(document, ${host});`;
+}
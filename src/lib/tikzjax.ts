@@ -0,0 +1,13 @@
+/**
+ * Onde o preview carrega o TikZJax. Por padrão os arquivos são servidos pelo
+ * próprio app (ver vite.config.ts); VITE_TIKZJAX_BASE_URL aponta para outro servidor.
+ *
+ * A URL precisa ser absoluta: o preview roda num iframe srcDoc com origem opaca.
+ */
+export const TIKZJAX_BASE_URL = new URL(
+  import.meta.env.VITE_TIKZJAX_BASE_URL ?? `${import.meta.env.BASE_URL}tikzjax`,
+  window.location.href
+).href.replace(/\/$/, "");
+
+export const TIKZJAX_SCRIPT_URL = `${TIKZJAX_BASE_URL}/tikzjax.js`;
+export const TIKZJAX_FONTS_URL = `${TIKZJAX_BASE_URL}/fonts.css`;
@@ -0,0 +1,153 @@
+/**
+ * Correções aplicadas ao código do TikZ antes de compilar. Cada passo recebe o
+ * código já tokenizado (ver latexTokenizer.ts), então sabe o que é fórmula, o
+ * que é texto e o que não pode ser tocado (comentários, \verb, \url...).
+ * Os passos rodam na ordem da lista, cada um sobre o resultado do anterior.
+ */
+
+import { Token, TokenMode, tokenize, untokenize } from "./latexTokenizer";
+import {
+  combiningAccents,
+  mathAlphanumericToLatex,
+  unicodeSubscripts,
+  unicodeSuperscripts,
+  unicodeToLatex,
+  unicodeToMathExpression,
+  unicodeToTextLatex,
+} from "./latexSymbols";
+
+/** Nome e descrição de cada passo ficam nos catálogos de idioma (transforms.passes) */
+export interface TransformPass {
+  id: string;
+  apply: (tokens: Token[]) => string;
+}
+
+export interface TransformStep {
+  id: string;
+  /** Código depois do passo */
+  output: string;
+}
+
+export interface TransformResult {
+  output: string;
+  steps: TransformStep[];
+  /** Caracteres que nenhum passo conseguiu converter */
+  unmapped: string[];
+}
+
+/** Reescreve só o texto comum (não toca em comandos, comentários e argumentos literais) */
+function mapText(tokens: Token[], replace: (text: string, token: Token) => string): string {
+  return untokenize(tokens.map((t) => (t.kind === "text" ? { ...t, text: replace(t.text, t) } : t)));
+}
+
+const unicodeCommas: TransformPass = {
+  id: "unicode-commas",
+  apply: (tokens) => mapText(tokens, (text) => text.replace(/[\u201A\uFF0C]/g, ",")),
+};
+
+const mathCommas: TransformPass = {
+  id: "math-commas",
+  apply: (tokens) =>
+    mapText(tokens, (text, token) => (token.mode === "math" ? text.replace(/,/g, "\\text{,}") : text)),
+};
+
+/** Escreve um comando no lugar de um caractere, sem grudar na letra seguinte */
+function command(latex: string, mode: TokenMode, next: string): string {
+  if (!/\\[a-zA-Z]+$/.test(latex)) return latex;
+  // No texto, "{}" preserva o espaço seguinte (\ldots{} e); na fórmula basta um espaço (\alpha x)
+  if (mode === "text") return `${latex}{}`;
+  return /[a-zA-Z]/.test(next) ? `${latex} ` : latex;
+}
+
+/** Equivalente LaTeX de um símbolo unicode no modo do token, ou null */
+function symbolToLatex(char: string, mode: TokenMode): string | null {
+  if (mode === "text" && char in unicodeToTextLatex) return unicodeToTextLatex[char];
+
+  const math = unicodeToLatex[char] ?? unicodeToMathExpression[char] ?? mathAlphanumericToLatex(char);
+  if (math !== null) return mode === "math" ? math : `\\ensuremath{${math}}`;
+
+  // Pontuação de texto dentro de fórmula
+  return char in unicodeToTextLatex ? `\\text{${unicodeToTextLatex[char]}}` : null;
+}
+
+const scriptPattern = new RegExp(
+  `([${Object.keys(unicodeSuperscripts).join("")}]+)|([${Object.keys(unicodeSubscripts).join("")}]+)`,
+  "g"
+);
+
+const unicodeSymbols: TransformPass = {
+  id: "unicode-symbols",
+  apply: (tokens) =>
+    mapText(tokens, (text, token) => {
+      // Índices e expoentes seguidos viram um grupo só: x₁₂ -> x_{12}
+      const scripted = text.replace(scriptPattern, (_match, superscript?: string, subscript?: string) => {
+        const script = superscript
+          ? `^{${[...superscript].map((c) => unicodeSuperscripts[c]).join("")}}`
+          : `_{${[...subscript!].map((c) => unicodeSubscripts[c]).join("")}}`;
+        return token.mode === "math" ? script : `\\ensuremath{${script}}`;
+      });
+
+      const chars = [...scripted];
+      return chars
+        .map((char, index) => {
+          if (char.charCodeAt(0) < 0x80) return char;
+          const latex = symbolToLatex(char, token.mode);
+          return latex === null ? char : command(latex, token.mode, chars[index + 1] ?? "");
+        })
+        .join("");
+    }),
+};
+
+const accents: TransformPass = {
+  id: "accents",
+  apply: (tokens) =>
+    mapText(tokens, (text, token) =>
+      text
+        .normalize("NFD")
+        .replace(/([a-zA-Z])([\u0300-\u036f]+)/g, (match, letter: string, marks: string) => {
+          const commands = [...marks].map((mark) => combiningAccents[mark]?.[token.mode] ?? null);
+          // Algum acento sem equivalente: o caractere fica como está (e é avisado)
+          if (commands.includes(null)) return match;
+
+          // Sem o pingo: \'{\i} e \acute{\imath}
+          let result = letter;
+          if (letter === "i" || letter === "j") {
+            result = token.mode === "text" ? `\\${letter}` : `\\${letter}math`;
+          }
+          for (const accent of commands) result = `${accent}{${result}}`;
+          return result;
+        })
+        .normalize("NFC")
+    ),
+};
+
+/**
+ * Os passos, na ordem em que rodam. Os símbolos vêm antes dos acentos: a
+ * decomposição de "≠" é "=" mais uma marca combinante, como a de um acento.
+ */
+export const transformPasses: TransformPass[] = [unicodeCommas, mathCommas, unicodeSymbols, accents];
+
+/** Símbolos unicode de uma fórmula (sem delimitadores) trocados pelos comandos: x² ≤ α -> x^{2} \leq \alpha */
+export function unicodeMathToLatex(formula: string): string {
+  return unicodeSymbols.apply(tokenize(`$${formula}$`)).slice(1, -1);
+}
+
+/** Caracteres não-ASCII que continuam no código (o TikZJax não os aceita) */
+export function findUnmapped(code: string): string[] {
+  const chars = new Set<string>();
+  for (const token of tokenize(code)) {
+    if (token.kind === "comment") continue;
+    for (const char of token.text) if (char.charCodeAt(0) >= 0x80) chars.add(char);
+  }
+  return [...chars];
+}
+
+export function runTransforms(source: string, passes: TransformPass[] = transformPasses): TransformResult {
+  const steps: TransformStep[] = [];
+  let output = source;
+  for (const pass of passes) {
+    output = pass.apply(tokenize(output));
+    steps.push({ id: pass.id, output });
+  }
+  return { output, steps, unmapped: findUnmapped(output) };
+}
@@ -0,0 +1,113 @@
+/**
+ * Documentos do usuário, salvos no localStorage com histórico de revisões.
+ */
+
+import { TikzPreambleConfig } from "./tikzPreamble";
+import { KatexSettings } from "./katexSettings";
+
+const STORAGE_KEY = "latex-preview:workspace";
+
+/** Quantas revisões cada documento guarda (as mais antigas são descartadas) */
+export const MAX_REVISIONS = 50;
+
+export interface Revision {
+  content: string;
+  savedAt: number;
+}
+
+export interface WorkspaceDocument {
+  id: string;
+  name: string;
+  content: string;
+  createdAt: number;
+  updatedAt: number;
+  /** Da mais antiga para a mais recente */
+  revisions: Revision[];
+  /** Bibliotecas, pacotes e estilos fixados para os diagramas do documento */
+  tikzPreamble?: TikzPreambleConfig;
+  /** Opções do KaTeX nas equações do documento */
+  katexSettings?: KatexSettings;
+}
+
+export interface Workspace {
+  documents: WorkspaceDocument[];
+  activeId: string;
+}
+
+export function createDocument(name: string, content: string): WorkspaceDocument {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    name,
+    content,
+    createdAt: now,
+    updatedAt: now,
+    revisions: [],
+  };
+}
+
+function isWorkspace(value: unknown): value is Workspace {
+  const workspace = value as Workspace;
+  return (
+    typeof workspace === "object" &&
+    workspace !== null &&
+    Array.isArray(workspace.documents) &&
+    workspace.documents.length > 0 &&
+    typeof workspace.activeId === "string"
+  );
+}
+
+/** Nomes que o app dá aos documentos, no idioma da interface */
+export interface WorkspaceNames {
+  untitled: string;
+  copyOf: (name: string) => string;
+}
+
+export function loadWorkspace(defaultContent: string, untitled: string): Workspace {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null");
+    if (isWorkspace(stored)) {
+      // Garante que o documento ativo existe (ex.: storage editado à mão)
+      const activeId = stored.documents.some((d) => d.id === stored.activeId)
+        ? stored.activeId
+        : stored.documents[0].id;
+      return { ...stored, activeId };
+    }
+  } catch {
+    // JSON inválido: começa um workspace novo
+  }
+
+  const document = createDocument(untitled, defaultContent);
+  return { documents: [document], activeId: document.id };
+}
+
+/** Retorna false se não conseguiu salvar (cota do localStorage esgotada): o trabalho fica só em memória */
+export function saveWorkspace(workspace: Workspace): boolean {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(workspace));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Registra o conteúdo atual como revisão, se ele mudou desde a última */
+export function addRevision(document: WorkspaceDocument): WorkspaceDocument {
+  const last = document.revisions[document.revisions.length - 1];
+  if (last?.content === document.content) {
+    return document;
+  }
+
+  const revisions = [...document.revisions, { content: document.content, savedAt: Date.now() }];
+  return { ...document, revisions: revisions.slice(-MAX_REVISIONS) };
+}
+
+/** Nome livre no estilo "Cópia de X", "Cópia de X (2)"... */
+export function uniqueName(base: string, documents: WorkspaceDocument[]): string {
+  const names = new Set(documents.map((d) => d.name));
+  if (!names.has(base)) return base;
+
+  let n = 2;
+  while (names.has(`${base} (${n})`)) n++;
+  return `${base} (${n})`;
+}
@@ -0,0 +1,529 @@
+import { Messages } from "./pt-BR";
+
+export const en: Messages = {
+  app: {
+    paste: "Paste",
+    share: "Share",
+    templates: "Templates",
+    clear: "Clear",
+    stacked: "Stack",
+    split: "Side by side",
+    language: "Language",
+    preview: (engines) => `Preview (${engines})`,
+    clipboardDenied: "Could not read from the clipboard (browser permission).",
+    linkCopied: "Link copied to the clipboard.",
+    copyLink: "Copy the link:",
+    resizePanes: "Resize editor and preview",
+  },
+  workspace: {
+    untitled: "Untitled",
+    copyOf: (name) => `Copy of ${name}`,
+    shared: "Shared",
+    documents: "Documents",
+    create: "+ New",
+    rename: "Rename",
+    renamePrompt: "New document name:",
+    duplicate: "Duplicate",
+    remove: "Delete",
+    confirmRemove: (name) => `Delete "${name}"? This cannot be undone.`,
+    history: (count) => `History (${count})`,
+    hideHistory: "Hide history",
+    noRevisions: "No saved revisions yet.",
+    restore: "Restore",
+    saveFailed:
+      "Could not save in the browser (out of space?). Your changes are only in this tab: copy the code before closing it.",
+  },
+  preview: {
+    empty: "Type LaTeX above…",
+  },
+  error: {
+    title: "LaTeX error",
+    position: (line, column) => ` (line ${line}, column ${column})`,
+    locate: "Go to error",
+  },
+  lint: {
+    summary: (errors, warnings) =>
+      `Problems (${errors} error${errors === 1 ? "" : "s"}, ${warnings} warning${warnings === 1 ? "" : "s"})`,
+    none: "No problems found.",
+    error: "Error",
+    warning: "Warning",
+    position: (line, column) => `${line}:${column}`,
+    locate: "Go to this spot in the editor",
+    fix: "Fix",
+    messages: {
+      "unclosed-environment": ({ name }) => `The \`${name}\` environment is not closed with \`\\end{${name}}\`.`,
+      "unmatched-end": ({ name }) => `\`\\end{${name}}\` without a matching \`\\begin{${name}}\`.`,
+      "mismatched-end": ({ name, expected }) => `\`\\end{${name}}\` closes the \`${expected}\` environment.`,
+      "unclosed-brace": () => "Brace `{` without a matching `}`.",
+      "unmatched-brace": () => "Brace `}` without a matching `{`.",
+      "missing-semicolon": ({ command }) => `Missing \`;\` at the end of \`${command}\`.`,
+      "line-break-outside-alignment": () =>
+        "`\\\\` outside an alignment environment (`aligned`, `cases`, matrices...) is ignored by KaTeX.",
+      "undefined-node": ({ name, suggestion }) =>
+        `The node \`(${name})\` is not defined in this diagram${suggestion ? ` (did you mean \`(${suggestion})\`?)` : ""}.`,
+      "katex-unsupported-command": ({ command }) => `KaTeX does not have the \`${command}\` command.`,
+      "katex-unsupported-environment": ({ name }) => `KaTeX does not have the \`${name}\` environment.`,
+    },
+    fixes: {
+      "unclosed-environment": ({ name }) => `Insert \`\\end{${name}}\``,
+      "unmatched-end": () => "Remove",
+      "mismatched-end": ({ expected }) => `Replace with \`\\end{${expected}}\``,
+      "unclosed-brace": () => "Close the brace",
+      "unmatched-brace": () => "Remove",
+      "missing-semicolon": () => "Insert `;`",
+      "line-break-outside-alignment": () => "Wrap in `aligned`",
+      "undefined-node": ({ suggestion }) => `Replace with \`(${suggestion})\``,
+      "katex-unsupported-command": ({ replacement }) =>
+        replacement ? `Replace with \`${replacement}\`` : "Remove the command",
+    },
+  },
+  export: {
+    label: "Export:",
+    embedFonts: "embed fonts",
+    nothingRendered: "Nothing has been rendered to export yet.",
+    failed: (message) => `Could not export: ${message}`,
+    errors: {
+      stylesheet: (detail) => `could not download the fonts at ${detail}`,
+      noSvg: "no <svg> found to export",
+      canvas: "the browser does not support Canvas 2D",
+      png: "could not generate the PNG",
+      drawSvg: "the browser could not draw the SVG",
+    },
+    equationFilename: "equation",
+    diagramFilename: "diagram",
+  },
+  macros: {
+    summary: (library, detected) =>
+      `Macros (${library} in the library${detected > 0 ? `, ${detected} in the document` : ""})`,
+    help: "One definition per line (`\\newcommand`, `\\DeclareMathOperator`...). They apply to KaTeX and TikZ in every document.",
+    importSty: "Import .sty",
+    exportSty: "Export .sty",
+    addDetected: "Add the document's macros to the library",
+    noneFound: "No macro definitions found in the file.",
+  },
+  katex: {
+    summary: (changed) => `Equation options (${changed ? `${changed} changed` : "default"})`,
+    help: "They apply to the formulas in this document. The mode (display or inline) comes from the delimiters: `\\[` and `$$` for display, `\\(` and `$` for inline.",
+    output: "Output:",
+    outputs: {
+      htmlAndMathml: "HTML + MathML",
+      html: "HTML only",
+      mathml: "MathML only (accessibility)",
+    },
+    leqno: "Equation numbers (`\\tag`) on the left (`leqno`)",
+    fleqn: "Left-aligned equations (`fleqn`)",
+    strict: "Non-standard LaTeX constructs:",
+    strictModes: {
+      ignore: "Accept",
+      warn: "Warn in the console",
+      error: "Treat as an error",
+    },
+    trust: "Trust the document (`\\href`, `\\url`, `\\includegraphics`...)",
+    maxExpand: "Macro expansion limit:",
+    reset: "Restore defaults",
+  },
+  tikzPreamble: {
+    summary: (pinned, fromDocument) =>
+      `TikZ preamble (${pinned} pinned${fromDocument > 0 ? `, ${fromDocument} from the document` : ""})`,
+    help: "Libraries and packages used by the diagrams in this document. The ones the code requires (such as `-Stealth` or `right=of`) and the ones declared with `\\usetikzlibrary`, `\\usepackage` and `\\tikzset` in the text are added automatically.",
+    fromDocument: "From the document:",
+    pinnedLibraries: "Pinned libraries",
+    otherLibraries: "other libraries, comma-separated",
+    pin: "Pin",
+    packages: "Packages",
+    inUse: " (in use)",
+    sharedStyles: "Shared styles (`\\tikzset`)",
+  },
+  transforms: {
+    summary: (enabled, total) => `TikZ fixes (${enabled} of ${total} enabled)`,
+    help: "Adjustments made to the diagram code before compiling, in this order. Comments and literal arguments (`\\verb`, `\\url`...) are never changed.",
+    passes: {
+      "unicode-commas": {
+        label: "Unicode commas",
+        description: "Replaces look-alike commas (‚ and ，), which TeX does not recognize, with the regular comma.",
+      },
+      "math-commas": {
+        label: "Commas in formulas",
+        description: "Writes the commas inside `$...$` as `\\text{,}`, working around a TikZJax font bug.",
+      },
+      "unicode-symbols": {
+        label: "Unicode symbols",
+        description: "Replaces symbols such as α, →, ℝ and x² with LaTeX commands (outside formulas, with `\\ensuremath`).",
+      },
+      accents: {
+        label: "Accents",
+        description:
+          "Writes accented letters with TeX commands (ç → `\\c{c}`, é → `\\'{e}`), since TikZJax only accepts ASCII.",
+      },
+    },
+    showOutput: "Show transformed code",
+    noDiagrams: "The document has no TikZ diagrams.",
+    after: "After:",
+    allPasses: "all fixes",
+  },
+  clipboard: {
+    title: "Paste from the clipboard",
+    formats: {
+      word: "Word equations converted to LaTeX.",
+      mathml: "MathML formulas converted to LaTeX.",
+      image: "LaTeX taken from the alt text of formula images.",
+      unicode: "Unicode symbols replaced with LaTeX commands.",
+      text: "Copied text, unchanged.",
+    },
+    help: "Review the code before inserting it: it goes in at the cursor position, without erasing the rest of the document.",
+    code: "Code",
+    preview: "Result",
+    insert: "Insert at cursor",
+    cancel: "Cancel",
+    empty: "The clipboard is empty.",
+    imageOnly:
+      "The clipboard only has an image, and images are not converted to LaTeX. Copy the formula as text, from Word or from a page with MathML.",
+  },
+  templates: {
+    title: "Templates",
+    search: "Search (e.g. matrix, automaton, cases)",
+    close: "Close",
+    all: "All",
+    categories: {
+      commutative: "Commutative diagrams",
+      automata: "Automata",
+      trees: "Trees",
+      plots: "Plots",
+      matrices: "Matrices",
+      piecewise: "Piecewise functions",
+      proofs: "Proofs",
+      team: "Team",
+    },
+    builtIn: {
+      "commutative-square": { name: "Commutative square" },
+      "commutative-triangle": { name: "Commutative triangle" },
+      "automaton-dfa": { name: "Finite automaton", description: "States, transitions and a loop" },
+      "graph-nodes": { name: "Graph with positioned nodes", description: "Editable in the visual editor" },
+      "binary-tree": { name: "Binary tree" },
+      "tree-horizontal": { name: "Decision tree" },
+      "pgfplots-function": { name: "Function plot (pgfplots)" },
+      "tikz-plot": { name: "Plot with axes (TikZ)" },
+      "matrix-general": { name: "m × n matrix" },
+      "matrix-augmented": { name: "Augmented matrix" },
+      piecewise: { name: "Piecewise function" },
+      "absolute-value": { name: "Absolute value" },
+      induction: { name: "Proof by induction" },
+      "equation-chain": { name: "Chain of equalities" },
+    },
+    noneFound: "No templates found.",
+    insertHint: "Insert at the cursor position",
+    remove: "Delete",
+    confirmRemove: (name) => `Delete the template "${name}"?`,
+    saveCurrent: "Save current document as a template",
+    saveIn: "in",
+    emptyDocument: "The document is empty.",
+    namePrompt: "Template name:",
+    importJson: "Import .json",
+    exportTeam: "Export team templates",
+    noneInFile: "No templates found in the file.",
+    noTeamTemplates: "There are no team templates to export yet.",
+    exportFilename: "templates.json",
+  },
+  tikz: {
+    empty: "Type code with `\\begin{tikzpicture}` to see the diagram here.",
+    frameTitle: "TikZ diagram",
+    unmapped: "Characters with no LaTeX equivalent (TikZJax only accepts ASCII):",
+    missingPackages: (packages) => `TikZJax does not have the packages: ${packages}.`,
+    status: {
+      idle: "",
+      compiling: "Compiling…",
+      success: "Done",
+      error: "TeX error",
+      timeout: "Timed out",
+    },
+    nodeLabelPrompt: "Node text:",
+    openGraphEditor: "Edit visually",
+    closeGraphEditor: "Close visual editor",
+    graphTools: {
+      move: { label: "Move", hint: "Drag a node; double-click edits its text; Delete removes the selected one." },
+      node: { label: "Node", hint: "Click the background to create a node (with the options of the last one)." },
+      edge: { label: "Edge", hint: "Drag from one node to another to connect them." },
+    },
+    noEditableNodes: " Only nodes written as `\\node (name) at (x,y) {text};` are editable.",
+    plot: {
+      title: "Plot parameters",
+      value: (name) => `Value of ${name}`,
+      help: "The chosen values are written into the code. To change a slider's range, add a comment to the definition line: `\\def\\a{1} % -5..5 step 0.5`.",
+    },
+    viewer: {
+      roleDescription: "diagram viewer",
+      instructions:
+        "Diagram. Keys: plus and minus to zoom, arrows to move, zero to fit the window, " +
+        "W and H to fit the width and the height, one for actual size.",
+      diagram: "Diagram",
+      toolbar: "Diagram zoom",
+      zoomIn: "Zoom in",
+      zoomOut: "Zoom out",
+      fit: "Fit to window",
+      fitWidth: "Fit width",
+      fitHeight: "Fit height",
+      actualSize: "Actual size",
+      minimap: "Minimap: click or drag to move the view",
+      zoom: "Zoom",
+    },
+  },
+  spoken: {
+    greek: {
+      alpha: "alpha",
+      beta: "beta",
+      gamma: "gamma",
+      delta: "delta",
+      epsilon: "epsilon",
+      varepsilon: "epsilon",
+      zeta: "zeta",
+      eta: "eta",
+      theta: "theta",
+      vartheta: "theta",
+      iota: "iota",
+      kappa: "kappa",
+      lambda: "lambda",
+      mu: "mu",
+      nu: "nu",
+      xi: "xi",
+      pi: "pi",
+      varpi: "pi",
+      rho: "rho",
+      varrho: "rho",
+      sigma: "sigma",
+      varsigma: "sigma",
+      tau: "tau",
+      upsilon: "upsilon",
+      phi: "phi",
+      varphi: "phi",
+      chi: "chi",
+      psi: "psi",
+      omega: "omega",
+    },
+    symbols: {
+      cdot: "times",
+      times: "times",
+      div: "divided by",
+      pm: "plus or minus",
+      mp: "minus or plus",
+      leq: "less than or equal to",
+      le: "less than or equal to",
+      leqslant: "less than or equal to",
+      geq: "greater than or equal to",
+      ge: "greater than or equal to",
+      geqslant: "greater than or equal to",
+      neq: "not equal to",
+      ne: "not equal to",
+      approx: "approximately equal to",
+      sim: "similar to",
+      simeq: "approximately equal to",
+      cong: "congruent to",
+      equiv: "equivalent to",
+      propto: "proportional to",
+      ll: "much less than",
+      gg: "much greater than",
+      in: "in",
+      notin: "not in",
+      ni: "contains",
+      subset: "subset of",
+      subseteq: "subset of or equal to",
+      supset: "superset of",
+      supseteq: "superset of or equal to",
+      cup: "union",
+      cap: "intersection",
+      setminus: "minus",
+      emptyset: "empty set",
+      varnothing: "empty set",
+      to: "tends to",
+      rightarrow: "arrow to",
+      leftarrow: "arrow from",
+      mapsto: "maps to",
+      Rightarrow: "implies",
+      implies: "implies",
+      Leftarrow: "is implied by",
+      Leftrightarrow: "if and only if",
+      iff: "if and only if",
+      infty: "infinity",
+      partial: "partial",
+      nabla: "nabla",
+      forall: "for all",
+      exists: "there exists",
+      nexists: "there does not exist",
+      neg: "not",
+      lnot: "not",
+      land: "and",
+      wedge: "and",
+      lor: "or",
+      vee: "or",
+      circ: "composed with",
+      perp: "perpendicular to",
+      parallel: "parallel to",
+      angle: "angle",
+      triangle: "triangle",
+      degree: "degrees",
+      ldots: "dot dot dot",
+      cdots: "dot dot dot",
+      dots: "dot dot dot",
+      vdots: "dot dot dot",
+      ddots: "dot dot dot",
+      therefore: "therefore",
+      because: "because",
+      mid: "such that",
+      vert: "bar",
+      lvert: "bar",
+      rvert: "bar",
+      langle: "open angle bracket",
+      rangle: "close angle bracket",
+      lfloor: "floor of",
+      rfloor: "end floor",
+      lceil: "ceiling of",
+      rceil: "end ceiling",
+      qquad: "",
+      quad: "",
+      ",": "",
+      ";": "",
+      ":": "",
+      "!": "",
+      " ": "",
+      "{": "open brace",
+      "}": "close brace",
+      "%": "percent",
+      "$": "dollar",
+      "#": "hash",
+      "&": "and",
+      "\\": ",",
+      blacksquare: "end of proof",
+      qed: "end of proof",
+    },
+    functions: {
+      sin: "sine",
+      cos: "cosine",
+      tan: "tangent",
+      cot: "cotangent",
+      sec: "secant",
+      csc: "cosecant",
+      arcsin: "arc sine",
+      arccos: "arc cosine",
+      arctan: "arc tangent",
+      sinh: "hyperbolic sine",
+      cosh: "hyperbolic cosine",
+      tanh: "hyperbolic tangent",
+      log: "log",
+      ln: "natural log",
+      exp: "exponential",
+      det: "determinant",
+      dim: "dimension",
+      ker: "kernel",
+      gcd: "greatest common divisor",
+      deg: "degree",
+    },
+    bigOperators: {
+      sum: "sum",
+      prod: "product",
+      coprod: "coproduct",
+      int: "integral",
+      iint: "double integral",
+      iiint: "triple integral",
+      oint: "contour integral",
+      bigcup: "union",
+      bigcap: "intersection",
+      lim: "limit",
+      limsup: "limit superior",
+      liminf: "limit inferior",
+      max: "maximum",
+      min: "minimum",
+      sup: "supremum",
+      inf: "infimum",
+    },
+    accents: {
+      hat: "hat",
+      widehat: "hat",
+      bar: "bar",
+      overline: "bar",
+      tilde: "tilde",
+      widetilde: "tilde",
+      dot: "dot",
+      ddot: "double dot",
+      underline: "underlined",
+    },
+    blackboard: {
+      N: "natural numbers",
+      Z: "integers",
+      Q: "rationals",
+      R: "reals",
+      C: "complex numbers",
+    },
+    characters: {
+      "+": "plus",
+      "-": "minus",
+      "=": "equals",
+      "<": "less than",
+      ">": "greater than",
+      "*": "times",
+      "/": "over",
+      "!": "factorial",
+      "'": "prime",
+      "|": "bar",
+      "(": "open paren",
+      ")": "close paren",
+      "[": "open bracket",
+      "]": "close bracket",
+      ":": "colon",
+      ";": ";",
+      ",": ",",
+      ".": ".",
+    },
+    matrixEnvironments: {
+      matrix: "matrix",
+      pmatrix: "matrix",
+      bmatrix: "matrix",
+      Bmatrix: "matrix",
+      smallmatrix: "matrix",
+      vmatrix: "determinant of the matrix",
+      Vmatrix: "norm of the matrix",
+      array: "array",
+    },
+    capital: (letter) => `capital ${letter}`,
+    squared: "squared",
+    cubed: "cubed",
+    degrees: "degrees",
+    prime: "prime",
+    power: (exponent, simple) => (simple ? `to the power ${exponent}` : `to the power ${exponent}, end exponent`),
+    subscript: (index, simple) => (simple ? `sub ${index}` : `sub ${index}, end subscript`),
+    fraction: (numerator, denominator, simple) =>
+      simple ? `${numerator} over ${denominator}` : `fraction ${numerator}, over ${denominator}, end fraction`,
+    binomial: (n, k) => `${n} choose ${k}`,
+    squareRoot: (radicand) => `square root of ${radicand}`,
+    cubeRoot: (radicand) => `cube root of ${radicand}`,
+    root: (index, radicand) => `root of index ${index} of ${radicand}`,
+    rootEnd: ", end root",
+    caseLine: (value, condition) => (condition ? `${value} if ${condition}` : value),
+    cases: (lines) => `cases: ${lines.join("; ")}; end cases`,
+    matrix: (name, rows, columns) =>
+      `${name}, ${rows.length} by ${columns}; ${rows
+        .map((row, i) => `row ${i + 1}: ${row.join(", ")}`)
+        .join("; ")}; end matrix`,
+    tag: (tag) => `(equation ${tag})`,
+    vector: (argument) => `vector ${argument}`,
+    accent: (argument, accent) => `${argument} ${accent}`,
+    function: (name) => `${name} of`,
+    limit: (operator, lower) => (lower ? `${operator} as ${lower} of` : `${operator} of`),
+    bigOperator: (operator, lower, upper) => {
+      if (lower !== null && upper !== null) return `${operator} from ${lower} to ${upper} of`;
+      if (lower !== null) return `${operator} over ${lower} of`;
+      return `${operator} of`;
+    },
+  },
+  tikzSummary: {
+    and: "and",
+    commutativeDiagram: (objects, list) => `Commutative diagram with ${objects} object${objects === 1 ? "" : "s"}: ${list}.`,
+    arrows: (arrows, list) => `${arrows} arrow${arrows === 1 ? "" : "s"}: ${list}.`,
+    fromTo: (from, to) => `from ${from} to ${to}`,
+    plot: (curves) => `Plot with ${curves} curve${curves === 1 ? "" : "s"}.`,
+    tree: (nodes, list) => `Tree with ${nodes} node${nodes === 1 ? "" : "s"}: ${list}.`,
+    diagram: (nodes, list) => `Diagram with ${nodes} node${nodes === 1 ? "" : "s"}: ${list}.`,
+    empty: "TikZ drawing with no nodes.",
+    edges: (edges, list) => `${edges} edge${edges === 1 ? "" : "s"}: ${list}.`,
+    loop: (node) => `loop at ${node}`,
+    texts: (texts, list) => `${texts === 1 ? "Text" : "Texts"}: ${list}.`,
+  },
+};
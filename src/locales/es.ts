@@ -0,0 +1,531 @@
+import { Messages } from "./pt-BR";
+
+export const es: Messages = {
+  app: {
+    paste: "Pegar",
+    share: "Compartir",
+    templates: "Plantillas",
+    clear: "Borrar",
+    stacked: "Apilar",
+    split: "Lado a lado",
+    language: "Idioma",
+    preview: (engines) => `Vista previa (${engines})`,
+    clipboardDenied: "No se pudo leer el portapapeles (permiso del navegador).",
+    linkCopied: "Enlace copiado al portapapeles.",
+    copyLink: "Copia el enlace:",
+    resizePanes: "Redimensionar editor y vista previa",
+  },
+  workspace: {
+    untitled: "Sin título",
+    copyOf: (name) => `Copia de ${name}`,
+    shared: "Compartido",
+    documents: "Documentos",
+    create: "+ Nuevo",
+    rename: "Renombrar",
+    renamePrompt: "Nuevo nombre del documento:",
+    duplicate: "Duplicar",
+    remove: "Eliminar",
+    confirmRemove: (name) => `¿Eliminar "${name}"? Esta acción no se puede deshacer.`,
+    history: (count) => `Historial (${count})`,
+    hideHistory: "Ocultar historial",
+    noRevisions: "Todavía no hay revisiones guardadas.",
+    restore: "Restaurar",
+    saveFailed:
+      "No se pudo guardar en el navegador (¿sin espacio?). Los cambios solo están en esta pestaña: copia el código antes de cerrarla.",
+  },
+  preview: {
+    empty: "Escribe LaTeX arriba…",
+  },
+  error: {
+    title: "Error de LaTeX",
+    position: (line, column) => ` (línea ${line}, columna ${column})`,
+    locate: "Ir al error",
+  },
+  lint: {
+    summary: (errors, warnings) =>
+      `Problemas (${errors} error${errors === 1 ? "" : "es"}, ${warnings} aviso${warnings === 1 ? "" : "s"})`,
+    none: "No se encontró ningún problema.",
+    error: "Error",
+    warning: "Aviso",
+    position: (line, column) => `${line}:${column}`,
+    locate: "Ir a este punto del editor",
+    fix: "Corregir",
+    messages: {
+      "unclosed-environment": ({ name }) => `El entorno \`${name}\` no se cerró con \`\\end{${name}}\`.`,
+      "unmatched-end": ({ name }) => `\`\\end{${name}}\` sin el \`\\begin{${name}}\` correspondiente.`,
+      "mismatched-end": ({ name, expected }) => `\`\\end{${name}}\` cierra el entorno \`${expected}\`.`,
+      "unclosed-brace": () => "Llave `{` sin la `}` correspondiente.",
+      "unmatched-brace": () => "Llave `}` sin la `{` correspondiente.",
+      "missing-semicolon": ({ command }) => `Falta el \`;\` al final de \`${command}\`.`,
+      "line-break-outside-alignment": () =>
+        "KaTeX ignora `\\\\` fuera de un entorno de alineación (`aligned`, `cases`, matrices...).",
+      "undefined-node": ({ name, suggestion }) =>
+        `El nodo \`(${name})\` no está definido en este diagrama${suggestion ? ` (¿quisiste decir \`(${suggestion})\`?)` : ""}.`,
+      "katex-unsupported-command": ({ command }) => `KaTeX no tiene el comando \`${command}\`.`,
+      "katex-unsupported-environment": ({ name }) => `KaTeX no tiene el entorno \`${name}\`.`,
+    },
+    fixes: {
+      "unclosed-environment": ({ name }) => `Insertar \`\\end{${name}}\``,
+      "unmatched-end": () => "Eliminar",
+      "mismatched-end": ({ expected }) => `Reemplazar por \`\\end{${expected}}\``,
+      "unclosed-brace": () => "Cerrar la llave",
+      "unmatched-brace": () => "Eliminar",
+      "missing-semicolon": () => "Insertar `;`",
+      "line-break-outside-alignment": () => "Envolver en `aligned`",
+      "undefined-node": ({ suggestion }) => `Reemplazar por \`(${suggestion})\``,
+      "katex-unsupported-command": ({ replacement }) =>
+        replacement ? `Reemplazar por \`${replacement}\`` : "Eliminar el comando",
+    },
+  },
+  export: {
+    label: "Exportar:",
+    embedFonts: "fuentes incrustadas",
+    nothingRendered: "Todavía no hay nada renderizado para exportar.",
+    failed: (message) => `No se pudo exportar: ${message}`,
+    errors: {
+      stylesheet: (detail) => `no se pudieron descargar las fuentes en ${detail}`,
+      noSvg: "no se encontró ningún <svg> para exportar",
+      canvas: "el navegador no admite Canvas 2D",
+      png: "no se pudo generar el PNG",
+      drawSvg: "el navegador no pudo dibujar el SVG",
+    },
+    equationFilename: "ecuacion",
+    diagramFilename: "diagrama",
+  },
+  macros: {
+    summary: (library, detected) =>
+      `Macros (${library} en la biblioteca${detected > 0 ? `, ${detected} en el documento` : ""})`,
+    help: "Una definición por línea (`\\newcommand`, `\\DeclareMathOperator`...). Valen para KaTeX y TikZ en todos los documentos.",
+    importSty: "Importar .sty",
+    exportSty: "Exportar .sty",
+    addDetected: "Añadir las del documento a la biblioteca",
+    noneFound: "No se encontró ninguna definición de macro en el archivo.",
+  },
+  katex: {
+    summary: (changed) =>
+      `Opciones de las ecuaciones (${changed ? `${changed} cambiada${changed > 1 ? "s" : ""}` : "predeterminadas"})`,
+    help: "Valen para las fórmulas de este documento. El modo (destacado o en línea) depende de los delimitadores: `\\[` y `$$` destacado, `\\(` y `$` en línea.",
+    output: "Salida:",
+    outputs: {
+      htmlAndMathml: "HTML + MathML",
+      html: "Solo HTML",
+      mathml: "Solo MathML (accesibilidad)",
+    },
+    leqno: "Números de las ecuaciones (`\\tag`) a la izquierda (`leqno`)",
+    fleqn: "Ecuaciones alineadas a la izquierda (`fleqn`)",
+    strict: "Construcciones fuera del LaTeX estándar:",
+    strictModes: {
+      ignore: "Aceptar",
+      warn: "Avisar en la consola",
+      error: "Tratar como error",
+    },
+    trust: "Confiar en el documento (`\\href`, `\\url`, `\\includegraphics`...)",
+    maxExpand: "Límite de expansiones de macros:",
+    reset: "Restaurar valores predeterminados",
+  },
+  tikzPreamble: {
+    summary: (pinned, fromDocument) =>
+      `Preámbulo de TikZ (${pinned} fijados${fromDocument > 0 ? `, ${fromDocument} del documento` : ""})`,
+    help: "Bibliotecas y paquetes usados por los diagramas de este documento. Los que el código exige (como `-Stealth` o `right=of`) y los declarados con `\\usetikzlibrary`, `\\usepackage` y `\\tikzset` en el texto se añaden automáticamente.",
+    fromDocument: "Del documento:",
+    pinnedLibraries: "Bibliotecas fijadas",
+    otherLibraries: "otras bibliotecas, separadas por comas",
+    pin: "Fijar",
+    packages: "Paquetes",
+    inUse: " (en uso)",
+    sharedStyles: "Estilos compartidos (`\\tikzset`)",
+  },
+  transforms: {
+    summary: (enabled, total) => `Correcciones de TikZ (${enabled} de ${total} activadas)`,
+    help: "Ajustes hechos al código de los diagramas antes de compilar, en este orden. Los comentarios y los argumentos literales (`\\verb`, `\\url`...) nunca se modifican.",
+    passes: {
+      "unicode-commas": {
+        label: "Comas unicode",
+        description: "Reemplaza comas parecidas (‚ y ，), que TeX no reconoce, por la coma común.",
+      },
+      "math-commas": {
+        label: "Comas en fórmulas",
+        description: "Escribe las comas dentro de `$...$` como `\\text{,}`, evitando un error de fuente de TikZJax.",
+      },
+      "unicode-symbols": {
+        label: "Símbolos unicode",
+        description:
+          "Reemplaza símbolos como α, →, ℝ y x² por los comandos de LaTeX (fuera de fórmulas, con `\\ensuremath`).",
+      },
+      accents: {
+        label: "Acentos",
+        description:
+          "Escribe las letras acentuadas con los comandos de TeX (ç → `\\c{c}`, é → `\\'{e}`), ya que TikZJax solo acepta ASCII.",
+      },
+    },
+    showOutput: "Mostrar código transformado",
+    noDiagrams: "El documento no tiene diagramas TikZ.",
+    after: "Después de:",
+    allPasses: "todas las correcciones",
+  },
+  clipboard: {
+    title: "Pegar desde el portapapeles",
+    formats: {
+      word: "Ecuaciones de Word convertidas a LaTeX.",
+      mathml: "Fórmulas en MathML convertidas a LaTeX.",
+      image: "LaTeX tomado del texto alternativo de las imágenes de las fórmulas.",
+      unicode: "Símbolos unicode reemplazados por los comandos de LaTeX.",
+      text: "Texto copiado, sin conversión.",
+    },
+    help: "Revisa el código antes de insertarlo: entra en la posición del cursor, sin borrar el resto del documento.",
+    code: "Código",
+    preview: "Resultado",
+    insert: "Insertar en el cursor",
+    cancel: "Cancelar",
+    empty: "El portapapeles está vacío.",
+    imageOnly:
+      "El portapapeles solo tiene una imagen, y las imágenes no se convierten a LaTeX. Copia la fórmula como texto, desde Word o desde una página con MathML.",
+  },
+  templates: {
+    title: "Plantillas",
+    search: "Buscar (p. ej.: matriz, autómata, cases)",
+    close: "Cerrar",
+    all: "Todas",
+    categories: {
+      commutative: "Diagramas conmutativos",
+      automata: "Autómatas",
+      trees: "Árboles",
+      plots: "Gráficas",
+      matrices: "Matrices",
+      piecewise: "Funciones a trozos",
+      proofs: "Demostraciones",
+      team: "Del equipo",
+    },
+    builtIn: {
+      "commutative-square": { name: "Cuadrado conmutativo" },
+      "commutative-triangle": { name: "Triángulo conmutativo" },
+      "automaton-dfa": { name: "Autómata finito", description: "Estados, transiciones y un lazo" },
+      "graph-nodes": { name: "Grafo con nodos posicionados", description: "Editable con el editor visual" },
+      "binary-tree": { name: "Árbol binario" },
+      "tree-horizontal": { name: "Árbol de decisión" },
+      "pgfplots-function": { name: "Gráfica de función (pgfplots)" },
+      "tikz-plot": { name: "Gráfica con ejes (TikZ)" },
+      "matrix-general": { name: "Matriz m × n" },
+      "matrix-augmented": { name: "Matriz aumentada" },
+      piecewise: { name: "Función definida a trozos" },
+      "absolute-value": { name: "Valor absoluto" },
+      induction: { name: "Demostración por inducción" },
+      "equation-chain": { name: "Cadena de igualdades" },
+    },
+    noneFound: "No se encontró ninguna plantilla.",
+    insertHint: "Insertar en la posición del cursor",
+    remove: "Eliminar",
+    confirmRemove: (name) => `¿Eliminar la plantilla "${name}"?`,
+    saveCurrent: "Guardar el documento actual como plantilla",
+    saveIn: "en",
+    emptyDocument: "El documento está vacío.",
+    namePrompt: "Nombre de la plantilla:",
+    importJson: "Importar .json",
+    exportTeam: "Exportar plantillas del equipo",
+    noneInFile: "No se encontró ninguna plantilla en el archivo.",
+    noTeamTemplates: "Todavía no hay plantillas del equipo para exportar.",
+    exportFilename: "plantillas.json",
+  },
+  tikz: {
+    empty: "Escribe código con `\\begin{tikzpicture}` para ver el diagrama aquí.",
+    frameTitle: "Diagrama TikZ",
+    unmapped: "Caracteres sin equivalente en LaTeX (TikZJax solo acepta ASCII):",
+    missingPackages: (packages) => `TikZJax no tiene los paquetes: ${packages}.`,
+    status: {
+      idle: "",
+      compiling: "Compilando…",
+      success: "Listo",
+      error: "Error de TeX",
+      timeout: "Tiempo agotado",
+    },
+    nodeLabelPrompt: "Texto del nodo:",
+    openGraphEditor: "Editar visualmente",
+    closeGraphEditor: "Cerrar editor visual",
+    graphTools: {
+      move: { label: "Mover", hint: "Arrastra un nodo; doble clic edita el texto; Supr elimina el seleccionado." },
+      node: { label: "Nodo", hint: "Haz clic en el fondo para crear un nodo (con las opciones del último)." },
+      edge: { label: "Arista", hint: "Arrastra de un nodo a otro para unirlos." },
+    },
+    noEditableNodes: " Solo son editables los nodos escritos como `\\node (nombre) at (x,y) {texto};`.",
+    plot: {
+      title: "Parámetros de la gráfica",
+      value: (name) => `Valor de ${name}`,
+      help: "Los valores elegidos se escriben en el código. Para cambiar el intervalo de un control, comenta la línea de la definición: `\\def\\a{1} % -5..5 step 0.5`.",
+    },
+    viewer: {
+      roleDescription: "visor de diagrama",
+      instructions:
+        "Diagrama. Teclas: más y menos para el zoom, flechas para mover, cero para ajustar a la ventana, " +
+        "W y H para ajustar al ancho y al alto, uno para el tamaño real.",
+      diagram: "Diagrama",
+      toolbar: "Zoom del diagrama",
+      zoomIn: "Acercar",
+      zoomOut: "Alejar",
+      fit: "Ajustar a la ventana",
+      fitWidth: "Ajustar al ancho",
+      fitHeight: "Ajustar al alto",
+      actualSize: "Tamaño real",
+      minimap: "Minimapa: haz clic o arrastra para mover la vista",
+      zoom: "Zoom",
+    },
+  },
+  spoken: {
+    greek: {
+      alpha: "alfa",
+      beta: "beta",
+      gamma: "gamma",
+      delta: "delta",
+      epsilon: "épsilon",
+      varepsilon: "épsilon",
+      zeta: "zeta",
+      eta: "eta",
+      theta: "theta",
+      vartheta: "theta",
+      iota: "iota",
+      kappa: "kappa",
+      lambda: "lambda",
+      mu: "mu",
+      nu: "nu",
+      xi: "xi",
+      pi: "pi",
+      varpi: "pi",
+      rho: "ro",
+      varrho: "ro",
+      sigma: "sigma",
+      varsigma: "sigma",
+      tau: "tau",
+      upsilon: "ípsilon",
+      phi: "fi",
+      varphi: "fi",
+      chi: "ji",
+      psi: "psi",
+      omega: "omega",
+    },
+    symbols: {
+      cdot: "por",
+      times: "por",
+      div: "dividido entre",
+      pm: "más o menos",
+      mp: "menos o más",
+      leq: "menor o igual que",
+      le: "menor o igual que",
+      leqslant: "menor o igual que",
+      geq: "mayor o igual que",
+      ge: "mayor o igual que",
+      geqslant: "mayor o igual que",
+      neq: "distinto de",
+      ne: "distinto de",
+      approx: "aproximadamente igual a",
+      sim: "semejante a",
+      simeq: "aproximadamente igual a",
+      cong: "congruente con",
+      equiv: "equivalente a",
+      propto: "proporcional a",
+      ll: "mucho menor que",
+      gg: "mucho mayor que",
+      in: "pertenece a",
+      notin: "no pertenece a",
+      ni: "contiene",
+      subset: "contenido en",
+      subseteq: "contenido o igual a",
+      supset: "contiene",
+      supseteq: "contiene o es igual a",
+      cup: "unión",
+      cap: "intersección",
+      setminus: "menos",
+      emptyset: "conjunto vacío",
+      varnothing: "conjunto vacío",
+      to: "tiende a",
+      rightarrow: "flecha a",
+      leftarrow: "flecha desde",
+      mapsto: "se aplica en",
+      Rightarrow: "implica",
+      implies: "implica",
+      Leftarrow: "es implicado por",
+      Leftrightarrow: "si y solo si",
+      iff: "si y solo si",
+      infty: "infinito",
+      partial: "parcial",
+      nabla: "nabla",
+      forall: "para todo",
+      exists: "existe",
+      nexists: "no existe",
+      neg: "no",
+      lnot: "no",
+      land: "y",
+      wedge: "y",
+      lor: "o",
+      vee: "o",
+      circ: "compuesta con",
+      perp: "perpendicular a",
+      parallel: "paralelo a",
+      angle: "ángulo",
+      triangle: "triángulo",
+      degree: "grados",
+      ldots: "puntos suspensivos",
+      cdots: "puntos suspensivos",
+      dots: "puntos suspensivos",
+      vdots: "puntos suspensivos",
+      ddots: "puntos suspensivos",
+      therefore: "por lo tanto",
+      because: "porque",
+      mid: "tal que",
+      vert: "barra",
+      lvert: "barra",
+      rvert: "barra",
+      langle: "abre ángulo",
+      rangle: "cierra ángulo",
+      lfloor: "parte entera de",
+      rfloor: "fin de la parte entera",
+      lceil: "techo de",
+      rceil: "fin del techo",
+      qquad: "",
+      quad: "",
+      ",": "",
+      ";": "",
+      ":": "",
+      "!": "",
+      " ": "",
+      "{": "abre llave",
+      "}": "cierra llave",
+      "%": "por ciento",
+      "$": "dólar",
+      "#": "almohadilla",
+      "&": "y",
+      "\\": ",",
+      blacksquare: "fin de la demostración",
+      qed: "fin de la demostración",
+    },
+    functions: {
+      sin: "seno",
+      cos: "coseno",
+      tan: "tangente",
+      cot: "cotangente",
+      sec: "secante",
+      csc: "cosecante",
+      arcsin: "arco seno",
+      arccos: "arco coseno",
+      arctan: "arco tangente",
+      sinh: "seno hiperbólico",
+      cosh: "coseno hiperbólico",
+      tanh: "tangente hiperbólica",
+      log: "logaritmo",
+      ln: "logaritmo natural",
+      exp: "exponencial",
+      det: "determinante",
+      dim: "dimensión",
+      ker: "núcleo",
+      gcd: "máximo común divisor",
+      deg: "grado",
+    },
+    bigOperators: {
+      sum: "suma",
+      prod: "producto",
+      coprod: "coproducto",
+      int: "integral",
+      iint: "integral doble",
+      iiint: "integral triple",
+      oint: "integral de contorno",
+      bigcup: "unión",
+      bigcap: "intersección",
+      lim: "límite",
+      limsup: "límite superior",
+      liminf: "límite inferior",
+      max: "máximo",
+      min: "mínimo",
+      sup: "supremo",
+      inf: "ínfimo",
+    },
+    accents: {
+      hat: "sombrero",
+      widehat: "sombrero",
+      bar: "barra",
+      overline: "barra",
+      tilde: "tilde",
+      widetilde: "tilde",
+      dot: "punto",
+      ddot: "dos puntos",
+      underline: "subrayado",
+    },
+    blackboard: {
+      N: "naturales",
+      Z: "enteros",
+      Q: "racionales",
+      R: "reales",
+      C: "complejos",
+    },
+    characters: {
+      "+": "más",
+      "-": "menos",
+      "=": "igual a",
+      "<": "menor que",
+      ">": "mayor que",
+      "*": "por",
+      "/": "sobre",
+      "!": "factorial",
+      "'": "prima",
+      "|": "barra",
+      "(": "abre paréntesis",
+      ")": "cierra paréntesis",
+      "[": "abre corchete",
+      "]": "cierra corchete",
+      ":": "dos puntos",
+      ";": ";",
+      ",": ",",
+      ".": ".",
+    },
+    matrixEnvironments: {
+      matrix: "matriz",
+      pmatrix: "matriz",
+      bmatrix: "matriz",
+      Bmatrix: "matriz",
+      smallmatrix: "matriz",
+      vmatrix: "determinante de la matriz",
+      Vmatrix: "norma de la matriz",
+      array: "tabla",
+    },
+    capital: (letter) => `${letter} mayúscula`,
+    squared: "al cuadrado",
+    cubed: "al cubo",
+    degrees: "grados",
+    prime: "prima",
+    power: (exponent, simple) => (simple ? `elevado a ${exponent}` : `elevado a ${exponent}, fin del exponente`),
+    subscript: (index, simple) => (simple ? `subíndice ${index}` : `subíndice ${index}, fin del subíndice`),
+    fraction: (numerator, denominator, simple) =>
+      simple ? `${numerator} sobre ${denominator}` : `fracción ${numerator}, sobre ${denominator}, fin de la fracción`,
+    binomial: (n, k) => `binomial de ${n} y ${k}`,
+    squareRoot: (radicand) => `raíz cuadrada de ${radicand}`,
+    cubeRoot: (radicand) => `raíz cúbica de ${radicand}`,
+    root: (index, radicand) => `raíz de índice ${index} de ${radicand}`,
+    rootEnd: ", fin de la raíz",
+    caseLine: (value, condition) => (condition ? `${value} si ${condition}` : value),
+    cases: (lines) => `casos: ${lines.join("; ")}; fin de los casos`,
+    matrix: (name, rows, columns) =>
+      `${name} ${rows.length} por ${columns}; ${rows
+        .map((row, i) => `fila ${i + 1}: ${row.join(", ")}`)
+        .join("; ")}; fin de la matriz`,
+    tag: (tag) => `(ecuación ${tag})`,
+    vector: (argument) => `vector ${argument}`,
+    accent: (argument, accent) => `${argument} ${accent}`,
+    function: (name) => `${name} de`,
+    limit: (operator, lower) => (lower ? `${operator} cuando ${lower} de` : `${operator} de`),
+    bigOperator: (operator, lower, upper) => {
+      if (lower !== null && upper !== null) return `${operator} de ${lower} hasta ${upper} de`;
+      if (lower !== null) return `${operator} sobre ${lower} de`;
+      return `${operator} de`;
+    },
+  },
+  tikzSummary: {
+    and: "y",
+    commutativeDiagram: (objects, list) => `Diagrama conmutativo con ${objects} objeto${objects === 1 ? "" : "s"}: ${list}.`,
+    arrows: (arrows, list) => `${arrows} flecha${arrows === 1 ? "" : "s"}: ${list}.`,
+    fromTo: (from, to) => `de ${from} a ${to}`,
+    plot: (curves) => `Gráfico con ${curves} curva${curves === 1 ? "" : "s"}.`,
+    tree: (nodes, list) => `Árbol con ${nodes} nodo${nodes === 1 ? "" : "s"}: ${list}.`,
+    diagram: (nodes, list) => `Diagrama con ${nodes} nodo${nodes === 1 ? "" : "s"}: ${list}.`,
+    empty: "Dibujo TikZ sin nodos.",
+    edges: (edges, list) => `${edges} ${edges === 1 ? "conexión" : "conexiones"}: ${list}.`,
+    loop: (node) => `bucle en ${node}`,
+    texts: (texts, list) => `${texts === 1 ? "Texto" : "Textos"}: ${list}.`,
+  },
+};
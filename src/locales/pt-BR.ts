@@ -0,0 +1,530 @@
+/**
+ * Textos da interface em português. Trechos entre crases (`\tag`) aparecem
+ * como código (ver FormattedText). Os nomes dos modelos que vêm com o app já
+ * estão em português em templates.ts.
+ */
+
+import { LintFixFormatters, LintFormatters } from "../lib/latexLint";
+import { SpokenPhrases } from "../lib/spokenMath";
+import { TikzSummaryPhrases } from "../lib/tikzSummary";
+
+export const ptBR = {
+  app: {
+    paste: "Colar",
+    share: "Compartilhar",
+    templates: "Modelos",
+    clear: "Limpar",
+    stacked: "Empilhar",
+    split: "Lado a lado",
+    language: "Idioma",
+    preview: (engines: string) => `Preview (${engines})`,
+    clipboardDenied: "Não consegui ler do clipboard (permissão do navegador).",
+    linkCopied: "Link copiado para a área de transferência.",
+    copyLink: "Copie o link:",
+    resizePanes: "Redimensionar editor e preview",
+  },
+  workspace: {
+    untitled: "Sem título",
+    copyOf: (name: string) => `Cópia de ${name}`,
+    shared: "Compartilhado",
+    documents: "Documentos",
+    create: "+ Novo",
+    rename: "Renomear",
+    renamePrompt: "Novo nome do documento:",
+    duplicate: "Duplicar",
+    remove: "Excluir",
+    confirmRemove: (name: string) => `Excluir "${name}"? Essa ação não pode ser desfeita.`,
+    history: (count: number) => `Histórico (${count})`,
+    hideHistory: "Ocultar histórico",
+    noRevisions: "Nenhuma revisão salva ainda.",
+    restore: "Restaurar",
+    saveFailed:
+      "Não foi possível salvar no navegador (espaço esgotado?). As alterações estão só nesta aba: copie o código antes de fechá-la.",
+  },
+  preview: {
+    empty: "Digite LaTeX acima…",
+  },
+  error: {
+    title: "Erro de LaTeX",
+    position: (line: number, column: number) => ` (linha ${line}, coluna ${column})`,
+    locate: "Ir para o erro",
+  },
+  lint: {
+    summary: (errors: number, warnings: number) =>
+      `Problemas (${errors} erro${errors === 1 ? "" : "s"}, ${warnings} aviso${warnings === 1 ? "" : "s"})`,
+    none: "Nenhum problema encontrado.",
+    error: "Erro",
+    warning: "Aviso",
+    position: (line: number, column: number) => `${line}:${column}`,
+    locate: "Ir para o trecho no editor",
+    fix: "Corrigir",
+    messages: {
+      "unclosed-environment": ({ name }) => `O ambiente \`${name}\` não foi fechado com \`\\end{${name}}\`.`,
+      "unmatched-end": ({ name }) => `\`\\end{${name}}\` sem o \`\\begin{${name}}\` correspondente.`,
+      "mismatched-end": ({ name, expected }) => `\`\\end{${name}}\` fecha o ambiente \`${expected}\`.`,
+      "unclosed-brace": () => "Chave `{` sem a `}` correspondente.",
+      "unmatched-brace": () => "Chave `}` sem a `{` correspondente.",
+      "missing-semicolon": ({ command }) => `Falta o \`;\` no fim do \`${command}\`.`,
+      "line-break-outside-alignment": () =>
+        "`\\\\` fora de um ambiente de alinhamento (`aligned`, `cases`, matrizes...) é ignorado pelo KaTeX.",
+      "undefined-node": ({ name, suggestion }) =>
+        `O nó \`(${name})\` não foi definido neste diagrama${suggestion ? ` (seria \`(${suggestion})\`?)` : ""}.`,
+      "katex-unsupported-command": ({ command }) => `O KaTeX não tem o comando \`${command}\`.`,
+      "katex-unsupported-environment": ({ name }) => `O KaTeX não tem o ambiente \`${name}\`.`,
+    } as LintFormatters,
+    fixes: {
+      "unclosed-environment": ({ name }) => `Inserir \`\\end{${name}}\``,
+      "unmatched-end": () => "Remover",
+      "mismatched-end": ({ expected }) => `Trocar por \`\\end{${expected}}\``,
+      "unclosed-brace": () => "Fechar a chave",
+      "unmatched-brace": () => "Remover",
+      "missing-semicolon": () => "Inserir `;`",
+      "line-break-outside-alignment": () => "Envolver em `aligned`",
+      "undefined-node": ({ suggestion }) => `Trocar por \`(${suggestion})\``,
+      "katex-unsupported-command": ({ replacement }) =>
+        replacement ? `Trocar por \`${replacement}\`` : "Remover o comando",
+    } as LintFixFormatters,
+  },
+  export: {
+    label: "Exportar:",
+    embedFonts: "fontes embutidas",
+    nothingRendered: "Ainda não há nada renderizado para exportar.",
+    failed: (message: string) => `Não consegui exportar: ${message}`,
+    errors: {
+      stylesheet: (detail: string) => `não foi possível baixar as fontes em ${detail}`,
+      noSvg: "nenhum <svg> encontrado para exportar",
+      canvas: "o navegador não oferece Canvas 2D",
+      png: "falha ao gerar o PNG",
+      drawSvg: "o navegador não conseguiu desenhar o SVG",
+    },
+    equationFilename: "equacao",
+    diagramFilename: "diagrama",
+  },
+  macros: {
+    summary: (library: number, detected: number) =>
+      `Macros (${library} na biblioteca${detected > 0 ? `, ${detected} no documento` : ""})`,
+    help: "Uma definição por linha (`\\newcommand`, `\\DeclareMathOperator`...). Valem para o KaTeX e para o TikZ em todos os documentos.",
+    importSty: "Importar .sty",
+    exportSty: "Exportar .sty",
+    addDetected: "Adicionar as do documento à biblioteca",
+    noneFound: "Nenhuma definição de macro encontrada no arquivo.",
+  },
+  katex: {
+    summary: (changed: number) =>
+      `Opções das equações (${changed ? `${changed} alterada${changed > 1 ? "s" : ""}` : "padrão"})`,
+    help: "Valem para as fórmulas deste documento. O modo (em destaque ou em linha) vem dos delimitadores: `\\[` e `$$` em destaque, `\\(` e `$` em linha.",
+    output: "Saída:",
+    outputs: {
+      htmlAndMathml: "HTML + MathML",
+      html: "Só HTML",
+      mathml: "Só MathML (acessibilidade)",
+    },
+    leqno: "Números das equações (`\\tag`) à esquerda (`leqno`)",
+    fleqn: "Equações alinhadas à esquerda (`fleqn`)",
+    strict: "Construções fora do LaTeX padrão:",
+    strictModes: {
+      ignore: "Aceitar",
+      warn: "Avisar no console",
+      error: "Tratar como erro",
+    },
+    trust: "Confiar no documento (`\\href`, `\\url`, `\\includegraphics`...)",
+    maxExpand: "Limite de expansões de macros:",
+    reset: "Restaurar padrão",
+  },
+  tikzPreamble: {
+    summary: (pinned: number, fromDocument: number) =>
+      `Preâmbulo do TikZ (${pinned} fixados${fromDocument > 0 ? `, ${fromDocument} do documento` : ""})`,
+    help: "Bibliotecas e pacotes usados pelos diagramas deste documento. Os que o código exige (como `-Stealth` ou `right=of`) e os declarados com `\\usetikzlibrary`, `\\usepackage` e `\\tikzset` no texto entram automaticamente.",
+    fromDocument: "Do documento:",
+    pinnedLibraries: "Bibliotecas fixadas",
+    otherLibraries: "outras bibliotecas, separadas por vírgula",
+    pin: "Fixar",
+    packages: "Pacotes",
+    inUse: " (em uso)",
+    sharedStyles: "Estilos compartilhados (`\\tikzset`)",
+  },
+  transforms: {
+    summary: (enabled: number, total: number) => `Correções do TikZ (${enabled} de ${total} ligadas)`,
+    help: "Ajustes feitos no código dos diagramas antes de compilar, nesta ordem. Comentários e argumentos literais (`\\verb`, `\\url`...) nunca são alterados.",
+    passes: {
+      "unicode-commas": {
+        label: "Vírgulas unicode",
+        description: "Troca vírgulas parecidas (‚ e ，), que o TeX não reconhece, pela vírgula comum.",
+      },
+      "math-commas": {
+        label: "Vírgulas em fórmulas",
+        description: "Escreve as vírgulas dentro de `$...$` como `\\text{,}`, contornando um bug de fonte do TikZJax.",
+      },
+      "unicode-symbols": {
+        label: "Símbolos unicode",
+        description:
+          "Troca símbolos como α, →, ℝ e x² pelos comandos do LaTeX (fora de fórmulas, com `\\ensuremath`).",
+      },
+      accents: {
+        label: "Acentos",
+        description:
+          "Escreve letras acentuadas com os comandos do TeX (ç → `\\c{c}`, é → `\\'{e}`), já que o TikZJax só aceita ASCII.",
+      },
+    } as Record<string, { label: string; description: string }>,
+    showOutput: "Mostrar código transformado",
+    noDiagrams: "O documento não tem diagramas TikZ.",
+    after: "Depois de:",
+    allPasses: "todas as correções",
+  },
+  clipboard: {
+    title: "Colar da área de transferência",
+    formats: {
+      word: "Equações do Word convertidas para LaTeX.",
+      mathml: "Fórmulas em MathML convertidas para LaTeX.",
+      image: "LaTeX tirado do texto alternativo das imagens das fórmulas.",
+      unicode: "Símbolos unicode trocados pelos comandos do LaTeX.",
+      text: "Texto copiado, sem conversão.",
+    },
+    help: "Revise o código antes de inserir: ele entra na posição do cursor, sem apagar o resto do documento.",
+    code: "Código",
+    preview: "Resultado",
+    insert: "Inserir no cursor",
+    cancel: "Cancelar",
+    empty: "A área de transferência está vazia.",
+    imageOnly:
+      "A área de transferência só tem uma imagem, e imagens não são convertidas em LaTeX. Copie a fórmula como texto, do Word ou de uma página com MathML.",
+  },
+  templates: {
+    title: "Modelos",
+    search: "Buscar (ex.: matriz, autômato, cases)",
+    close: "Fechar",
+    all: "Todos",
+    categories: {
+      commutative: "Diagramas comutativos",
+      automata: "Autômatos",
+      trees: "Árvores",
+      plots: "Gráficos",
+      matrices: "Matrizes",
+      piecewise: "Funções por partes",
+      proofs: "Demonstrações",
+      team: "Da equipe",
+    },
+    /** Nome e descrição dos modelos do app, pelo id (os que faltam ficam como em templates.ts) */
+    builtIn: {} as Record<string, { name: string; description?: string }>,
+    noneFound: "Nenhum modelo encontrado.",
+    insertHint: "Inserir na posição do cursor",
+    remove: "Excluir",
+    confirmRemove: (name: string) => `Excluir o modelo "${name}"?`,
+    saveCurrent: "Salvar documento atual como modelo",
+    saveIn: "em",
+    emptyDocument: "O documento está vazio.",
+    namePrompt: "Nome do modelo:",
+    importJson: "Importar .json",
+    exportTeam: "Exportar modelos da equipe",
+    noneInFile: "Nenhum modelo encontrado no arquivo.",
+    noTeamTemplates: "Ainda não há modelos da equipe para exportar.",
+    exportFilename: "modelos.json",
+  },
+  tikz: {
+    empty: "Digite um código com `\\begin{tikzpicture}` para ver o diagrama aqui.",
+    frameTitle: "Diagrama TikZ",
+    unmapped: "Caracteres sem equivalente em LaTeX (o TikZJax só aceita ASCII):",
+    missingPackages: (packages: string) => `O TikZJax não tem os pacotes: ${packages}.`,
+    status: {
+      idle: "",
+      compiling: "Compilando…",
+      success: "Pronto",
+      error: "Erro no TeX",
+      timeout: "Tempo esgotado",
+    },
+    nodeLabelPrompt: "Texto do nó:",
+    openGraphEditor: "Editar visualmente",
+    closeGraphEditor: "Fechar editor visual",
+    graphTools: {
+      move: { label: "Mover", hint: "Arraste um nó; duplo clique edita o texto; Delete apaga o selecionado." },
+      node: { label: "Nó", hint: "Clique no fundo para criar um nó (com as opções do último)." },
+      edge: { label: "Ligação", hint: "Arraste de um nó até outro para ligá-los." },
+    },
+    noEditableNodes: " Só nós no formato `\\node (nome) at (x,y) {texto};` são editáveis.",
+    /** Textos do visualizador dentro do iframe (só strings: vão por postMessage) */
+    plot: {
+      title: "Parâmetros do gráfico",
+      value: (name: string) => `Valor de ${name}`,
+      help: "Os valores escolhidos são escritos no código. Para mudar o intervalo de um controle, comente a linha da definição: `\\def\\a{1} % -5..5 step 0.5`.",
+    },
+    viewer: {
+      roleDescription: "visualizador de diagrama",
+      instructions:
+        "Diagrama. Teclas: mais e menos para zoom, setas para mover, zero para ajustar à janela, " +
+        "W e H para ajustar à largura e à altura, um para o tamanho real.",
+      diagram: "Diagrama",
+      toolbar: "Zoom do diagrama",
+      zoomIn: "Aumentar zoom",
+      zoomOut: "Diminuir zoom",
+      fit: "Ajustar à janela",
+      fitWidth: "Ajustar à largura",
+      fitHeight: "Ajustar à altura",
+      actualSize: "Tamanho real",
+      minimap: "Minimapa: clique ou arraste para mover a vista",
+      zoom: "Zoom",
+    },
+  },
+  /** Leitura das fórmulas por extenso, para leitores de tela (ver spokenMath.ts) */
+  spoken: {
+    greek: {
+      alpha: "alfa",
+      beta: "beta",
+      gamma: "gama",
+      delta: "delta",
+      epsilon: "épsilon",
+      varepsilon: "épsilon",
+      zeta: "zeta",
+      eta: "eta",
+      theta: "teta",
+      vartheta: "teta",
+      iota: "iota",
+      kappa: "capa",
+      lambda: "lambda",
+      mu: "mi",
+      nu: "ni",
+      xi: "csi",
+      pi: "pi",
+      varpi: "pi",
+      rho: "rô",
+      varrho: "rô",
+      sigma: "sigma",
+      varsigma: "sigma",
+      tau: "tau",
+      upsilon: "úpsilon",
+      phi: "fi",
+      varphi: "fi",
+      chi: "qui",
+      psi: "psi",
+      omega: "ômega",
+    },
+    symbols: {
+      cdot: "vezes",
+      times: "vezes",
+      div: "dividido por",
+      pm: "mais ou menos",
+      mp: "menos ou mais",
+      leq: "menor ou igual a",
+      le: "menor ou igual a",
+      leqslant: "menor ou igual a",
+      geq: "maior ou igual a",
+      ge: "maior ou igual a",
+      geqslant: "maior ou igual a",
+      neq: "diferente de",
+      ne: "diferente de",
+      approx: "aproximadamente igual a",
+      sim: "semelhante a",
+      simeq: "aproximadamente igual a",
+      cong: "congruente a",
+      equiv: "equivalente a",
+      propto: "proporcional a",
+      ll: "muito menor que",
+      gg: "muito maior que",
+      in: "pertence a",
+      notin: "não pertence a",
+      ni: "contém",
+      subset: "contido em",
+      subseteq: "contido ou igual a",
+      supset: "contém",
+      supseteq: "contém ou é igual a",
+      cup: "união",
+      cap: "interseção",
+      setminus: "menos",
+      emptyset: "conjunto vazio",
+      varnothing: "conjunto vazio",
+      to: "tende a",
+      rightarrow: "seta para",
+      leftarrow: "seta de",
+      mapsto: "é levado em",
+      Rightarrow: "implica",
+      implies: "implica",
+      Leftarrow: "é implicado por",
+      Leftrightarrow: "se e somente se",
+      iff: "se e somente se",
+      infty: "infinito",
+      partial: "parcial",
+      nabla: "nabla",
+      forall: "para todo",
+      exists: "existe",
+      nexists: "não existe",
+      neg: "não",
+      lnot: "não",
+      land: "e",
+      wedge: "e",
+      lor: "ou",
+      vee: "ou",
+      circ: "composta com",
+      perp: "perpendicular a",
+      parallel: "paralelo a",
+      angle: "ângulo",
+      triangle: "triângulo",
+      degree: "graus",
+      ldots: "reticências",
+      cdots: "reticências",
+      dots: "reticências",
+      vdots: "reticências",
+      ddots: "reticências",
+      therefore: "portanto",
+      because: "porque",
+      mid: "tal que",
+      vert: "barra",
+      lvert: "barra",
+      rvert: "barra",
+      langle: "abre ângulo",
+      rangle: "fecha ângulo",
+      lfloor: "piso de",
+      rfloor: "fim do piso",
+      lceil: "teto de",
+      rceil: "fim do teto",
+      qquad: "",
+      quad: "",
+      ",": "",
+      ";": "",
+      ":": "",
+      "!": "",
+      " ": "",
+      "{": "abre chaves",
+      "}": "fecha chaves",
+      "%": "por cento",
+      "$": "cifrão",
+      "#": "cerquilha",
+      "&": "e",
+      "\\": ",",
+      blacksquare: "fim da demonstração",
+      qed: "fim da demonstração",
+    },
+    functions: {
+      sin: "seno",
+      cos: "cosseno",
+      tan: "tangente",
+      cot: "cotangente",
+      sec: "secante",
+      csc: "cossecante",
+      arcsin: "arco seno",
+      arccos: "arco cosseno",
+      arctan: "arco tangente",
+      sinh: "seno hiperbólico",
+      cosh: "cosseno hiperbólico",
+      tanh: "tangente hiperbólica",
+      log: "logaritmo",
+      ln: "logaritmo natural",
+      exp: "exponencial",
+      det: "determinante",
+      dim: "dimensão",
+      ker: "núcleo",
+      gcd: "máximo divisor comum",
+      deg: "grau",
+    },
+    bigOperators: {
+      sum: "soma",
+      prod: "produto",
+      coprod: "coproduto",
+      int: "integral",
+      iint: "integral dupla",
+      iiint: "integral tripla",
+      oint: "integral de contorno",
+      bigcup: "união",
+      bigcap: "interseção",
+      lim: "limite",
+      limsup: "limite superior",
+      liminf: "limite inferior",
+      max: "máximo",
+      min: "mínimo",
+      sup: "supremo",
+      inf: "ínfimo",
+    },
+    accents: {
+      hat: "chapéu",
+      widehat: "chapéu",
+      bar: "barra",
+      overline: "barra",
+      tilde: "til",
+      widetilde: "til",
+      dot: "ponto",
+      ddot: "dois pontos",
+      underline: "sublinhado",
+    },
+    blackboard: {
+      N: "naturais",
+      Z: "inteiros",
+      Q: "racionais",
+      R: "reais",
+      C: "complexos",
+    },
+    characters: {
+      "+": "mais",
+      "-": "menos",
+      "=": "igual a",
+      "<": "menor que",
+      ">": "maior que",
+      "*": "vezes",
+      "/": "sobre",
+      "!": "fatorial",
+      "'": "linha",
+      "|": "barra",
+      "(": "abre parênteses",
+      ")": "fecha parênteses",
+      "[": "abre colchetes",
+      "]": "fecha colchetes",
+      ":": "dois pontos",
+      ";": ";",
+      ",": ",",
+      ".": ".",
+    },
+    matrixEnvironments: {
+      matrix: "matriz",
+      pmatrix: "matriz",
+      bmatrix: "matriz",
+      Bmatrix: "matriz",
+      smallmatrix: "matriz",
+      vmatrix: "determinante da matriz",
+      Vmatrix: "norma da matriz",
+      array: "tabela",
+    },
+    capital: (letter) => `${letter} maiúsculo`,
+    squared: "ao quadrado",
+    cubed: "ao cubo",
+    degrees: "graus",
+    prime: "linha",
+    power: (exponent, simple) => (simple ? `elevado a ${exponent}` : `elevado a ${exponent}, fim do expoente`),
+    subscript: (index, simple) => (simple ? `índice ${index}` : `índice ${index}, fim do índice`),
+    fraction: (numerator, denominator, simple) =>
+      simple ? `${numerator} sobre ${denominator}` : `fração ${numerator}, sobre ${denominator}, fim da fração`,
+    binomial: (n, k) => `binomial de ${n} e ${k}`,
+    squareRoot: (radicand) => `raiz quadrada de ${radicand}`,
+    cubeRoot: (radicand) => `raiz cúbica de ${radicand}`,
+    root: (index, radicand) => `raiz de índice ${index} de ${radicand}`,
+    rootEnd: ", fim da raiz",
+    caseLine: (value, condition) => (condition ? `${value} se ${condition}` : value),
+    cases: (lines) => `casos: ${lines.join("; ")}; fim dos casos`,
+    matrix: (name, rows, columns) =>
+      `${name} ${rows.length} por ${columns}; ${rows
+        .map((row, i) => `linha ${i + 1}: ${row.join(", ")}`)
+        .join("; ")}; fim da matriz`,
+    tag: (tag) => `(equação ${tag})`,
+    vector: (argument) => `vetor ${argument}`,
+    accent: (argument, accent) => `${argument} ${accent}`,
+    function: (name) => `${name} de`,
+    limit: (operator, lower) => (lower ? `${operator} quando ${lower} de` : `${operator} de`),
+    bigOperator: (operator, lower, upper) => {
+      if (lower !== null && upper !== null) return `${operator} de ${lower} até ${upper} de`;
+      if (lower !== null) return `${operator} sobre ${lower} de`;
+      return `${operator} de`;
+    },
+  } as SpokenPhrases,
+  /** Descrição dos diagramas para leitores de tela (ver tikzSummary.ts) */
+  tikzSummary: {
+    and: "e",
+    commutativeDiagram: (objects, list) => `Diagrama comutativo com ${objects} objeto${objects === 1 ? "" : "s"}: ${list}.`,
+    arrows: (arrows, list) => `${arrows} seta${arrows === 1 ? "" : "s"}: ${list}.`,
+    fromTo: (from, to) => `de ${from} para ${to}`,
+    plot: (curves) => `Gráfico com ${curves} curva${curves === 1 ? "" : "s"}.`,
+    tree: (nodes, list) => `Árvore com ${nodes} ${nodes === 1 ? "nó" : "nós"}: ${list}.`,
+    diagram: (nodes, list) => `Diagrama com ${nodes} ${nodes === 1 ? "nó" : "nós"}: ${list}.`,
+    empty: "Desenho TikZ sem nós.",
+    edges: (edges, list) => `${edges} ${edges === 1 ? "ligação" : "ligações"}: ${list}.`,
+    loop: (node) => `laço em ${node}`,
+    texts: (texts, list) => `${texts === 1 ? "Texto" : "Textos"}: ${list}.`,
+  } as TikzSummaryPhrases,
+};
+
+export type Messages = typeof ptBR;
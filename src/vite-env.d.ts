@@ -1,2 +1,11 @@
 /// <reference types="vite/client" />
 
+
+interface ImportMetaEnv {
+  /** URL onde o TikZJax está hospedado (padrão: /tikzjax, servido pelo próprio app) */
+  readonly VITE_TIKZJAX_BASE_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -0,0 +1,117 @@
+/**
+ * Saídas de referência dos trechos em corpus/: o código depois das correções
+ * (normalizeLatex, prepareTikz), o HTML que o KatexPreview mostra e o SVG que
+ * o TikZ gera para o mesmo código que o preview compila (pelo node-tikzjax,
+ * sem navegador). Cada saída é comparada com o arquivo de mesmo nome em
+ * expected/; as diferenças vão para um relatório HTML (golden-report.html, ou
+ * o caminho em GOLDEN_REPORT). Um diagrama que não compila reprova o teste.
+ *
+ *   npm test               compara
+ *   npm run test:update    regrava as referências (vitest -u; revise o git diff)
+ */
+
+import { existsSync, readFileSync, readdirSync } from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { createElement } from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import { dvi2svg, load, tex } from "node-tikzjax";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { KatexPreview } from "../../src/components/KatexPreview";
+import { PreparedTikz, documentContext, normalizeLatex, prepareTikz } from "../../src/lib/preprocess";
+import { splitSegments } from "../../src/lib/segments";
+import { Mismatch, OutputKind, writeReport } from "./report";
+
+const ROOT = path.dirname(fileURLToPath(import.meta.url));
+const CORPUS = path.join(ROOT, "corpus");
+const EXPECTED = path.join(ROOT, "expected");
+const REPORT = process.env.GOLDEN_REPORT ?? path.resolve(ROOT, "../../golden-report.html");
+
+const corpus = readdirSync(CORPUS)
+  .filter((file) => file.endsWith(".tex"))
+  .sort();
+
+const mismatches: Mismatch[] = [];
+let compared = 0;
+
+async function compileTikz(prepared: PreparedTikz): Promise<string> {
+  const dvi = await tex(`\\begin{document}\n${prepared.texCode}\n\\end{document}\n`, {
+    tikzLibraries: prepared.config.libraries.join(","),
+    texPackages: prepared.config.packages,
+    addToPreamble: prepared.texPreamble,
+  });
+  return dvi2svg(dvi, { embedFontCss: false });
+}
+
+/** As saídas de um arquivo do corpus, pelo nome do arquivo de referência */
+async function renderCorpusFile(file: string): Promise<Map<string, [OutputKind, string]>> {
+  const source = readFileSync(path.join(CORPUS, file), "utf8");
+  const name = file.replace(/\.tex$/, "");
+  const context = documentContext(source);
+  const outputs = new Map<string, [OutputKind, string]>();
+  const transformed: string[] = [];
+
+  const segments = splitSegments(source).filter((s) => s.kind !== "text" && s.content.trim());
+  for (const [i, segment] of segments.entries()) {
+    const index = i + 1;
+    transformed.push(`% --- ${index}: ${segment.kind}`);
+
+    if (segment.kind === "tikz") {
+      const prepared = prepareTikz(segment.content, { preamble: context.preamble, macros: context.macros });
+      transformed.push(prepared.code);
+      if (prepared.unmapped.length) transformed.push(`% sem equivalente: ${prepared.unmapped.join(" ")}`);
+
+      // Um erro aqui é uma regressão, não uma saída: não pode virar referência
+      let svg: string;
+      try {
+        svg = await compileTikz(prepared);
+      } catch (err) {
+        throw new Error(`${name}-${index}: o diagrama não compilou: ${String(err)}`);
+      }
+      outputs.set(`${name}-${index}.svg`, ["svg", svg]);
+      continue;
+    }
+
+    transformed.push(normalizeLatex(segment.content).math);
+
+    // As mesmas propriedades que o DocumentPreview passa para cada fórmula
+    const html = renderToStaticMarkup(
+      createElement(KatexPreview, {
+        code: segment.content,
+        ...(segment.kind === "inline-math" ? { displayMode: false } : {}),
+        sourceOffset: segment.contentStart,
+        source,
+        macros: context.macros,
+      })
+    );
+    outputs.set(`${name}-${index}.html`, ["html", html + "\n"]);
+  }
+
+  outputs.set(`${name}.out.tex`, ["source", transformed.join("\n") + "\n"]);
+  return outputs;
+}
+
+describe("saídas de referência", () => {
+  beforeAll(async () => {
+    // Carrega o TeX uma vez; os diagramas compilam um por vez
+    await load();
+  });
+
+  afterAll(async () => {
+    await writeReport(REPORT, mismatches, compared);
+  });
+
+  it.each(corpus)("%s", async (file) => {
+    const outputs = await renderCorpusFile(file);
+
+    for (const [output, [kind, actual]] of outputs) {
+      const expectedFile = path.join(EXPECTED, output);
+      compared++;
+      const expected = existsSync(expectedFile) ? readFileSync(expectedFile, "utf8") : null;
+      if (expected !== actual) mismatches.push({ output, kind, expected, actual });
+
+      // Compara (ou, com -u, regrava) o arquivo; soft para listar todas as saídas diferentes
+      await expect.soft(actual, `${output}: diferenças em ${REPORT}`).toMatchFileSnapshot(expectedFile);
+    }
+  });
+});
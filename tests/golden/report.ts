@@ -0,0 +1,140 @@
+/**
+ * Relatório HTML das diferenças entre as saídas atuais e as de referência:
+ * para cada saída, as linhas removidas e adicionadas e, nas que são HTML ou
+ * SVG, as duas versões renderizadas lado a lado.
+ */
+
+import { writeFile } from "node:fs/promises";
+import { createRequire } from "node:module";
+import { pathToFileURL } from "node:url";
+
+export type OutputKind = "source" | "html" | "svg";
+
+export interface Mismatch {
+  /** Nome do arquivo de referência, ex.: "automato-1.svg" */
+  output: string;
+  kind: OutputKind;
+  /** null quando ainda não há referência para a saída */
+  expected: string | null;
+  actual: string;
+}
+
+type DiffLine = { type: "same" | "removed" | "added"; text: string };
+
+// Acima disso a tabela do LCS fica grande demais; a diferença é mostrada em bloco
+const MAX_DIFF_CELLS = 4_000_000;
+
+/** HTML e SVG vêm numa linha só: quebra entre as tags para a diferença ser legível */
+function splitLines(content: string, kind: OutputKind): string[] {
+  return (kind === "source" ? content : content.replace(/></g, ">\n<")).split("\n");
+}
+
+/** Diferença por linhas (maior subsequência comum), sem as linhas iguais das pontas */
+function diffLines(expected: string[], actual: string[]): DiffLine[] {
+  let start = 0;
+  while (start < expected.length && start < actual.length && expected[start] === actual[start]) start++;
+  let end = 0;
+  while (
+    end < expected.length - start &&
+    end < actual.length - start &&
+    expected[expected.length - 1 - end] === actual[actual.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  const a = expected.slice(start, expected.length - end);
+  const b = actual.slice(start, actual.length - end);
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      ...a.map((text): DiffLine => ({ type: "removed", text })),
+      ...b.map((text): DiffLine => ({ type: "added", text })),
+    ];
+  }
+
+  // lengths[i][j]: tamanho da subsequência comum de a[i..] e b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({ type: "same", text: a[i++] });
+      j++;
+    } else if (i < a.length && (j === b.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+      lines.push({ type: "removed", text: a[i++] });
+    } else {
+      lines.push({ type: "added", text: b[j++] });
+    }
+  }
+  return lines;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+const DIFF_PREFIX: Record<DiffLine["type"], string> = { same: " ", removed: "-", added: "+" };
+
+function renderMismatch({ output, kind, expected, actual }: Mismatch): string {
+  const diff =
+    expected === null
+      ? `<p class="missing">Sem referência: rode <code>npm run test:update</code> para criar.</p>`
+      : `<pre class="diff">${diffLines(splitLines(expected, kind), splitLines(actual, kind))
+          .map((line) => `<span class="${line.type}">${DIFF_PREFIX[line.type]} ${escapeHtml(line.text)}</span>`)
+          .join("\n")}</pre>`;
+
+  const visual =
+    kind === "source"
+      ? ""
+      : `<div class="visual">
+  <figure><figcaption>Referência</figcaption>${expected ?? ""}</figure>
+  <figure><figcaption>Atual</figcaption>${actual}</figure>
+</div>`;
+
+  return `<section>
+<h2>${escapeHtml(output)}</h2>
+${diff}
+${visual}
+</section>`;
+}
+
+/** Escreve o relatório; sem diferenças, ele só diz que está tudo igual */
+export async function writeReport(file: string, mismatches: Mismatch[], total: number): Promise<void> {
+  const katexCss = pathToFileURL(createRequire(import.meta.url).resolve("katex/dist/katex.min.css")).href;
+
+  const html = `<!DOCTYPE html>
+<html lang="pt-BR">
+<head>
+<meta charset="utf-8">
+<title>Saídas de referência: ${mismatches.length} diferença(s)</title>
+<link rel="stylesheet" href="${katexCss}">
+<style>
+  body { font-family: system-ui, sans-serif; margin: 24px; }
+  h2 { font-size: 16px; font-family: monospace; border-top: 1px solid #ddd; padding-top: 16px; }
+  .diff { background: #fafafa; border: 1px solid #ddd; padding: 8px; overflow-x: auto; font-size: 12px; }
+  .diff span { display: block; white-space: pre; }
+  .diff .removed { background: #ffebee; color: #c62828; }
+  .diff .added { background: #e8f5e9; color: #2e7d32; }
+  .diff .same { color: #999; }
+  .missing { color: #ef6c00; }
+  .visual { display: flex; gap: 16px; }
+  .visual figure { flex: 1; margin: 0; border: 1px solid #ddd; padding: 8px; overflow: auto; }
+  .visual figcaption { font-size: 12px; color: #666; margin-bottom: 8px; }
+  .visual svg { max-width: 100%; height: auto; }
+</style>
+</head>
+<body>
+<h1>Saídas de referência</h1>
+<p>${total} saída(s) comparada(s), ${mismatches.length} diferente(s).</p>
+${mismatches.map(renderMismatch).join("\n")}
+</body>
+</html>
+`;
+  await writeFile(file, html);
+}
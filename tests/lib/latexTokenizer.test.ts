@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import { Token, inComment, tokenize, untokenize } from "../../src/lib/latexTokenizer";
+
+/** "tipo:modo:texto" de cada token que não é espaço */
+function summary(tokens: Token[]): string[] {
+  return tokens.filter((t) => t.kind !== "space").map((t) => `${t.kind}:${t.mode}:${t.text}`);
+}
+
+describe("tokenize", () => {
+  it("devolve o código original ao juntar os tokens", () => {
+    const source = String.raw`a \$ {b $c \text{d} e$} % f $ g
+\verb|$x| \begin{align} x \end{align} \url{a%b}`;
+    expect(untokenize(tokenize(source))).toBe(source);
+  });
+
+  it("guarda as posições de cada token", () => {
+    const source = String.raw`\alpha{x}`;
+    for (const token of tokenize(source)) expect(source.slice(token.start, token.end)).toBe(token.text);
+  });
+
+  it("não abre fórmula com \\$", () => {
+    expect(summary(tokenize(String.raw`custa \$5 $x$`))).toEqual([
+      "text:text:custa",
+      "command:text:\\$",
+      "text:text:5",
+      "math-shift:math:$",
+      "text:math:x",
+      "math-shift:math:$",
+    ]);
+  });
+
+  it("volta ao modo de fora em cada chave fechada, mesmo aninhada", () => {
+    expect(summary(tokenize(String.raw`{$a_{b{c}}$}d`))).toEqual([
+      "open:text:{",
+      "math-shift:math:$",
+      "text:math:a_",
+      "open:math:{",
+      "text:math:b",
+      "open:math:{",
+      "text:math:c",
+      "close:math:}",
+      "close:math:}",
+      "math-shift:math:$",
+      "close:text:}",
+      "text:text:d",
+    ]);
+  });
+
+  it("trata o argumento de \\text como texto dentro da fórmula", () => {
+    expect(summary(tokenize(String.raw`$\text{a, b}, c$`))).toEqual([
+      "math-shift:math:$",
+      "command:math:\\text",
+      "open:math:{",
+      "text:text:a,",
+      "text:text:b",
+      "close:text:}",
+      "text:math:,",
+      "text:math:c",
+      "math-shift:math:$",
+    ]);
+  });
+
+  it("trata o argumento de \\ensuremath como fórmula no texto", () => {
+    const tokens = tokenize(String.raw`\ensuremath{a,b} c,d`);
+    expect(tokens.find((t) => t.text === "a,b")?.mode).toBe("math");
+    expect(tokens.find((t) => t.text === "c,d")?.mode).toBe("text");
+  });
+
+  it("entra em modo matemático nos ambientes de equação", () => {
+    const tokens = tokenize(String.raw`\begin{align} x \end{align} y \begin{center} z \end{center}`);
+    expect(tokens.find((t) => t.text === "x")?.mode).toBe("math");
+    expect(tokens.find((t) => t.text === "y")?.mode).toBe("text");
+    expect(tokens.find((t) => t.text === "z")?.mode).toBe("text");
+  });
+
+  it("vai até o fim da linha nos comentários", () => {
+    expect(summary(tokenize("a % $b$ {\nc"))).toEqual(["text:text:a", "comment:text:% $b$ {", "text:text:c"]);
+  });
+
+  it("não interpreta \\verb nem o argumento de \\url", () => {
+    expect(summary(tokenize(String.raw`\verb|$a{| \verb*+%+ \url{a%{b}c} $d$`))).toEqual([
+      "verbatim:text:\\verb|$a{|",
+      "verbatim:text:\\verb*+%+",
+      "command:text:\\url",
+      "verbatim:text:{a%{b}c}",
+      "math-shift:math:$",
+      "text:math:d",
+      "math-shift:math:$",
+    ]);
+  });
+
+  it("reconhece \\( \\) e \\[ \\]", () => {
+    const tokens = tokenize(String.raw`a \(b\) c \[d\] e`);
+    expect(tokens.filter((t) => t.kind === "text").map((t) => t.mode)).toEqual([
+      "text",
+      "math",
+      "text",
+      "math",
+      "text",
+    ]);
+  });
+
+  it("tokeniza códigos longos em tempo linear", () => {
+    const source = String.raw`\node at (0,0) {$\alpha$}; `.repeat(20000);
+    const start = performance.now();
+    expect(untokenize(tokenize(source))).toBe(source);
+    expect(performance.now() - start).toBeLessThan(2000);
+  });
+});
+
+describe("inComment", () => {
+  it("reconhece o que vem depois de um % na mesma linha", () => {
+    const code = "\\def\\a{1} % -5..5\n\\addplot {x};";
+    expect(inComment(code, code.indexOf("-5"))).toBe(true);
+    expect(inComment(code, code.indexOf("\\addplot"))).toBe(false);
+  });
+
+  it("ignora o \\% escapado", () => {
+    const code = "\\node {50\\% de x};";
+    expect(inComment(code, code.indexOf("x"))).toBe(false);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatParameterValue,
+  isPlot,
+  parsePlotParameters,
+  setParameterValue,
+  sliderBounds,
+} from "../../src/lib/plotParameters";
+
+describe("parsePlotParameters", () => {
+  it("lê \\def e as duas formas de \\pgfmathsetmacro", () => {
+    const code = String.raw`\def\a{1.5}
+\pgfmathsetmacro{\k}{-2}
+\pgfmathsetmacro\c{.5}`;
+    const parameters = parsePlotParameters(code);
+    expect(parameters.map(({ name, value }) => [name, value])).toEqual([
+      ["\\a", 1.5],
+      ["\\k", -2],
+      ["\\c", 0.5],
+    ]);
+    for (const { value, valueRange } of parameters) {
+      expect(Number(code.slice(valueRange.start, valueRange.end))).toBe(value);
+    }
+  });
+
+  it("lê o intervalo e o passo do comentário da linha", () => {
+    const [withStep, withoutStep, none] = parsePlotParameters(String.raw`\def\a{1} % 5..-5 step 0.25
+\def\b{2} % 0..1
+\def\c{3}
+% 0..10`);
+    expect(withStep.bounds).toEqual({ min: -5, max: 5, step: 0.25 });
+    expect(withoutStep.bounds).toEqual({ min: 0, max: 1, step: 0.01 });
+    expect(none.bounds).toBeNull();
+  });
+
+  it("ignora definições comentadas, não numéricas e redefinições", () => {
+    const parameters = parsePlotParameters(String.raw`% \def\a{1}
+\def\b{x}
+\def\c{1}
+\foreach \i in {1,2} { \pgfmathsetmacro{\c}{\i} }`);
+    expect(parameters.map((p) => p.name)).toEqual(["\\c"]);
+  });
+});
+
+describe("isPlot", () => {
+  it("exige um \\addplot fora de comentários", () => {
+    expect(isPlot(String.raw`\addplot {x^2};`)).toBe(true);
+    expect(isPlot(String.raw`% \addplot {x^2};`)).toBe(false);
+  });
+});
+
+describe("sliderBounds", () => {
+  it("vai de 0 ao dobro do valor, com cerca de cem passos", () => {
+    expect(sliderBounds(3)).toEqual({ min: 0, max: 6, step: 0.01 });
+    expect(sliderBounds(-50)).toEqual({ min: -100, max: 0, step: 1 });
+  });
+
+  it("usa pelo menos 1 como referência para valores pequenos e zero", () => {
+    expect(sliderBounds(0.2)).toEqual({ min: 0, max: 2, step: 0.01 });
+    expect(sliderBounds(0)).toEqual({ min: -1, max: 1, step: 0.01 });
+  });
+});
+
+describe("formatParameterValue", () => {
+  it("usa as casas decimais do passo", () => {
+    expect(formatParameterValue(0.75, 0.25)).toBe("0.75");
+    expect(formatParameterValue(0.375, 0.125)).toBe("0.375");
+    expect(formatParameterValue(3, 0.5)).toBe("3");
+    expect(formatParameterValue(42, 1)).toBe("42");
+  });
+
+  it("tira o ruído do ponto flutuante", () => {
+    expect(formatParameterValue(0.1 + 0.2, 0.1)).toBe("0.3");
+    expect(formatParameterValue(0.1 + 0.2, 0.01)).toBe("0.3");
+  });
+
+  it("é o texto que setParameterValue escreve no lugar do número", () => {
+    const [parameter] = parsePlotParameters(String.raw`\def\a{0.5} % 0..1 step 0.25`);
+    expect(setParameterValue(parameter, 0.25, 0.25)).toEqual({ range: parameter.valueRange, text: "0.25" });
+  });
+});
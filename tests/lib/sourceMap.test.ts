@@ -0,0 +1,33 @@
+import katex from "katex";
+import { describe, expect, it } from "vitest";
+import { instrumentMath, restoreTexAnnotation, trustSourceMarks } from "../../src/lib/sourceMap";
+
+/** Renderiza como o KatexPreview: com as marcas e a anotação restaurada */
+function render(math: string): string {
+  const marked = instrumentMath(math, { throwOnError: true });
+  expect(marked).not.toBeNull();
+  const html = katex.renderToString(marked!, {
+    throwOnError: true,
+    trust: trustSourceMarks,
+    strict: "ignore",
+  });
+  return restoreTexAnnotation(html, math);
+}
+
+function annotation(html: string): string | undefined {
+  return /<annotation encoding="application\/x-tex">([\s\S]*?)<\/annotation>/.exec(html)?.[1];
+}
+
+describe("restoreTexAnnotation", () => {
+  it("deixa no MathML o código original, sem as marcas", () => {
+    const html = render(String.raw`\frac{a}{b} \to c`);
+    expect(html).toContain('data-src="0-11"');
+    expect(annotation(html)).toBe(String.raw`\frac{a}{b} \to c`);
+  });
+
+  it("escapa o código como o KaTeX", () => {
+    const math = String.raw`\begin{pmatrix} a & b \end{pmatrix} < c`;
+    const plain = katex.renderToString(math, { throwOnError: true });
+    expect(annotation(render(math))).toBe(annotation(plain));
+  });
+});
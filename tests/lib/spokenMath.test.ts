@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { speak } from "../../src/lib/spokenMath";
+import { ptBR } from "../../src/locales/pt-BR";
+import { en } from "../../src/locales/en";
+
+describe("speak", () => {
+  it("lê os símbolos unicode como os comandos equivalentes", () => {
+    expect(speak("x ≥ 0", ptBR.spoken)).toBe(speak(String.raw`x \geq 0`, ptBR.spoken));
+    expect(speak("x ≥ 0", ptBR.spoken)).toBe("x maior ou igual a 0");
+    expect(speak("α ≤ β", en.spoken)).toBe(speak(String.raw`\alpha \leq \beta`, en.spoken));
+    expect(speak("x ∈ ℝ", ptBR.spoken)).toBe(speak(String.raw`x \in \mathbb{R}`, ptBR.spoken));
+  });
+
+  it("lê índices e expoentes unicode seguidos como um só", () => {
+    expect(speak("x²", ptBR.spoken)).toBe(speak("x^2", ptBR.spoken));
+    expect(speak("aₙ₊₁", ptBR.spoken)).toBe(speak("a_{n+1}", ptBR.spoken));
+  });
+
+  it("mantém o caractere sem equivalente", () => {
+    expect(speak("x ☃ y", ptBR.spoken)).toBe("x ☃ y");
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { runTransforms, transformPasses } from "../../src/lib/transforms";
+
+/** Resultado de um passo só, pelo id */
+function pass(id: string, source: string): string {
+  const selected = transformPasses.filter((p) => p.id === id);
+  expect(selected).toHaveLength(1);
+  return runTransforms(source, selected).output;
+}
+
+describe("unicode-commas", () => {
+  it("troca as vírgulas unicode pela vírgula ASCII, no texto e nas fórmulas", () => {
+    expect(pass("unicode-commas", "\\node {x‚ y}; $a，b$")).toBe("\\node {x, y}; $a,b$");
+  });
+
+  it("não mexe em comentários nem em \\verb", () => {
+    expect(pass("unicode-commas", "\\verb|a‚b| % c‚d")).toBe("\\verb|a‚b| % c‚d");
+  });
+});
+
+describe("math-commas", () => {
+  it("protege só as vírgulas das fórmulas", () => {
+    expect(pass("math-commas", "\\node at (1,2) {$(1,2)$ e (1,2)};")).toBe(
+      "\\node at (1,2) {$(1\\text{,}2)$ e (1,2)};"
+    );
+  });
+
+  it("não abre fórmula com \\$", () => {
+    expect(pass("math-commas", "custa \\$5, ou $x,y$")).toBe("custa \\$5, ou $x\\text{,}y$");
+  });
+
+  it("segue a fórmula por chaves aninhadas", () => {
+    expect(pass("math-commas", "$f_{a,{b,c}}$")).toBe("$f_{a\\text{,}{b\\text{,}c}}$");
+  });
+
+  it("deixa as vírgulas de \\text{...} como texto", () => {
+    expect(pass("math-commas", "$\\text{a, b}, c$")).toBe("$\\text{a, b}\\text{,} c$");
+  });
+
+  it("não mexe em comentários nem em \\verb", () => {
+    expect(pass("math-commas", "\\verb|$a,b$| $a,b$ % $c,d$")).toBe("\\verb|$a,b$| $a\\text{,}b$ % $c,d$");
+  });
+});
+
+describe("unicode-symbols", () => {
+  it("usa o comando de fórmula nas fórmulas e \\ensuremath no texto", () => {
+    expect(pass("unicode-symbols", "\\node {α ≤ β}; $α ≤ β$")).toBe(
+      "\\node {\\ensuremath{\\alpha} \\ensuremath{\\leq} \\ensuremath{\\beta}}; $\\alpha \\leq \\beta$"
+    );
+  });
+
+  it("junta índices e expoentes seguidos num grupo", () => {
+    expect(pass("unicode-symbols", "$x₁₂ + y²$")).toBe("$x_{12} + y^{2}$");
+  });
+
+  it("separa o comando da letra seguinte", () => {
+    expect(pass("unicode-symbols", "$αx$")).toBe("$\\alpha x$");
+  });
+
+  it("não mexe em comentários, \\verb nem \\$", () => {
+    expect(pass("unicode-symbols", "\\$ \\verb|α| % β")).toBe("\\$ \\verb|α| % β");
+  });
+});
+
+describe("accents", () => {
+  it("usa os acentos de texto no texto e os de fórmula nas fórmulas", () => {
+    expect(pass("accents", "\\node {Posição é}; $\\text{é}$ $é$")).toBe(
+      "\\node {Posi\\c{c}\\~{a}o \\'{e}}; $\\text{\\'{e}}$ $\\acute{e}$"
+    );
+  });
+
+  it("tira o pingo do i e do j", () => {
+    expect(pass("accents", "í $í$")).toBe("\\'{\\i} $\\acute{\\imath}$");
+  });
+
+  it("não mexe em comentários, \\verb nem no argumento do \\url", () => {
+    expect(pass("accents", "\\verb|é| \\url{a{é}} % é")).toBe("\\verb|é| \\url{a{é}} % é");
+  });
+});
+
+describe("runTransforms", () => {
+  it("aplica os passos em ordem e lista o que sobrou sem equivalente", () => {
+    const result = runTransforms("\\node {(1‚2) é α}; $a,b$ % ✓");
+    expect(result.steps.map((s) => s.id)).toEqual(["unicode-commas", "math-commas", "unicode-symbols", "accents"]);
+    expect(result.output).toBe("\\node {(1,2) \\'{e} \\ensuremath{\\alpha}}; $a\\text{,}b$ % ✓");
+    expect(result.unmapped).toEqual([]);
+  });
+});
@@ -1,8 +1,23 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
+import { viteStaticCopy } from 'vite-plugin-static-copy'
 
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [
+    react(),
+    // Serve o TikZJax (script, tex.wasm, core.dump, arquivos TeX e fontes) em /tikzjax,
+    // no dev server e no build, para o preview funcionar sem acesso à rede.
+    // O iframe do preview tem origem opaca (sandbox): o servidor que hospedar
+    // esses arquivos precisa responder com Access-Control-Allow-Origin.
+    viteStaticCopy({
+      targets: [{ src: 'node_modules/@drgrice1/tikzjax/dist/*', dest: 'tikzjax' }],
+    }),
+  ],
+  server: {
+    cors: true,
+  },
+  preview: {
+    cors: true,
+  },
 })
-
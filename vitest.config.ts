@@ -0,0 +1,11 @@
+import { defineConfig } from 'vitest/config'
+
+export default defineConfig({
+  test: {
+    include: ['tests/**/*.test.ts'],
+    environment: 'node',
+    // O TeX (node-tikzjax) leva alguns segundos para carregar e para cada gráfico do pgfplots
+    testTimeout: 120_000,
+    hookTimeout: 120_000,
+  },
+})